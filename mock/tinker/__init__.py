@@ -0,0 +1,337 @@
+"""
+Offline stand-in for the Tinker SDK (mock backend).
+
+Tinker Studio puts this package ahead of the real SDK on PYTHONPATH when
+TINKER_STUDIO_MOCK=1, so the API routes and generated training scripts run
+without credentials or network access to Tinker. Training clients produce
+synthetic loss curves that respond to the learning rate and LoRA rank;
+checkpoints are recorded as small JSON files under TINKER_STUDIO_MOCK_DIR so
+they show up in the checkpoint browser and can be resumed from.
+
+Tokenizers and datasets are still loaded by the scripts through
+transformers/datasets, so those packages (and their HuggingFace cache) are
+still required.
+"""
+
+import json
+import math
+import os
+import random
+import re
+import tempfile
+import time
+import uuid
+from datetime import datetime, timezone
+from typing import Any, Callable
+
+from . import types
+from .types import (
+    AdamParams,
+    Datum,
+    EncodedTextChunk,
+    ModelInput,
+    SamplingParams,
+    TensorData,
+)
+
+__all__ = [
+    "ServiceClient",
+    "TrainingClient",
+    "SamplingClient",
+    "RestClient",
+    "APIFuture",
+    "AdamParams",
+    "Datum",
+    "EncodedTextChunk",
+    "ModelInput",
+    "SamplingParams",
+    "TensorData",
+    "types",
+]
+
+__version__ = "0.0.0+mock"
+
+MOCK_MODELS = [
+    "meta-llama/Llama-3.2-1B",
+    "meta-llama/Llama-3.1-8B-Instruct",
+    "Qwen/Qwen3-4B-Instruct-2507",
+    "Qwen/Qwen3-8B",
+    "Qwen/Qwen3-30B-A3B-Instruct-2507",
+]
+
+# Seconds each optimizer step takes, so live monitoring has something to show
+STEP_DELAY = float(os.environ.get("TINKER_STUDIO_MOCK_STEP_DELAY", "0.3"))
+
+# Learning rate at which one optimizer step counts as one unit of training progress
+REFERENCE_LR = 1e-4
+
+
+def _state_dir(*parts: str) -> str:
+    root = os.environ.get("TINKER_STUDIO_MOCK_DIR") or os.path.join(tempfile.gettempdir(), "tinker-studio-mock")
+    path = os.path.join(root, *parts)
+    os.makedirs(path, exist_ok=True)
+    return path
+
+
+def _record_file(kind: str, key: str) -> str:
+    return os.path.join(_state_dir(kind), re.sub(r"[^A-Za-z0-9_.-]", "_", key) + ".json")
+
+
+def _write_record(kind: str, key: str, record: dict) -> None:
+    with open(_record_file(kind, key), "w") as f:
+        json.dump(record, f)
+
+
+def _read_record(kind: str, key: str) -> dict | None:
+    try:
+        with open(_record_file(kind, key)) as f:
+            return json.load(f)
+    except FileNotFoundError:
+        return None
+
+
+def _base_logprob(token: int) -> float:
+    """Deterministic per-token logprob under the base model, in [-3.0, -0.5]."""
+    return -(0.5 + ((int(token) * 2654435761) % 1000) / 1000 * 2.5)
+
+
+def _target_tokens(datum: Datum) -> list[int]:
+    target = datum.loss_fn_inputs.get("target_tokens")
+    if target is not None:
+        return [int(t) for t in target.tolist()]
+    # Without explicit targets, score the input shifted by one
+    return datum.model_input.to_ints()[1:]
+
+
+class APIFuture:
+    """Resolved future; the real SDK returns these from every remote call."""
+
+    def __init__(self, value: Any):
+        self._value = value
+
+    def result(self, timeout: float | None = None) -> Any:
+        return self._value
+
+    async def result_async(self, timeout: float | None = None) -> Any:
+        return self._value
+
+
+class TrainingClient:
+    """LoRA training client whose loss decays with accumulated learning rate."""
+
+    def __init__(self, base_model: str, rank: int, seed: int | None = None):
+        self.base_model = base_model
+        self.rank = rank
+        self.training_run_id = f"mock-{uuid.uuid4().hex[:12]}"
+        self.progress = 0.0  # Sum over steps of learning_rate / REFERENCE_LR
+        self.last_lr = REFERENCE_LR
+        self._rng = random.Random(seed)
+        _write_record("runs", self.training_run_id, {
+            "training_run_id": self.training_run_id,
+            "base_model": base_model,
+            "lora_rank": rank,
+        })
+
+    # -- Synthetic dynamics -------------------------------------------------
+
+    def _loss(self) -> float:
+        floor = 0.85 + 1.2 / math.sqrt(max(1, self.rank))
+        loss = floor + (2.4 - floor) * math.exp(-self.progress / 40)
+        # Learning rates well above ~1e-3 make the curve visibly unstable
+        instability = max(0.0, self.last_lr / 1e-3 - 1)
+        return max(0.05, loss + self._rng.gauss(0, 0.02 + 0.15 * instability))
+
+    def _eval_gap(self) -> float:
+        # Held-out loss drifts upward the longer training runs, i.e. overfitting
+        return 0.05 + 0.001 * self.progress
+
+    def _token_logprobs(self, datum: Datum, loss: float) -> list[float]:
+        return [-max(0.0, loss + self._rng.gauss(0, 0.3)) for _ in _target_tokens(datum)]
+
+    def _preference_shift(self) -> float:
+        return 0.15 * (1 - math.exp(-self.progress / 40))
+
+    # -- Training -----------------------------------------------------------
+
+    def forward_backward(self, data: list[Datum], loss_fn: str = "cross_entropy") -> APIFuture:
+        loss = self._loss()
+        outputs = [
+            {"logprobs": TensorData(data=logprobs, dtype="float32", shape=[len(logprobs)])}
+            for logprobs in (self._token_logprobs(datum, loss) for datum in data)
+        ]
+        return APIFuture(types.ForwardBackwardOutput(loss_fn_outputs=outputs, metrics={"loss:sum": loss * len(data)}))
+
+    def forward(self, data: list[Datum], loss_fn: str = "cross_entropy") -> APIFuture:
+        loss = self._loss() + self._eval_gap()
+        outputs = [
+            {"logprobs": TensorData(data=logprobs, dtype="float32", shape=[len(logprobs)])}
+            for logprobs in (self._token_logprobs(datum, loss) for datum in data)
+        ]
+        return APIFuture(types.ForwardBackwardOutput(loss_fn_outputs=outputs, metrics={"loss:sum": loss * len(data)}))
+
+    def forward_backward_custom(self, data: list[Datum], loss_fn: Callable) -> APIFuture:
+        """
+        Run a custom loss over policy logprobs. Datums are assumed to come in
+        [preferred, rejected] pairs, as the DPO scripts lay them out; the policy
+        drifts toward the preferred completion as training progresses.
+        """
+        import torch
+
+        shift = self._preference_shift()
+        logprobs_list = []
+        for index, datum in enumerate(data):
+            direction = 1 if index % 2 == 0 else -1
+            logprobs_list.append(torch.tensor(
+                [_base_logprob(t) + direction * shift + self._rng.gauss(0, 0.02) for t in _target_tokens(datum)],
+                dtype=torch.float32,
+            ))
+
+        loss, metrics = loss_fn(data, logprobs_list)
+        outputs = [
+            {"logprobs": TensorData(data=logprobs.tolist(), dtype="float32", shape=[len(logprobs)])}
+            for logprobs in logprobs_list
+        ]
+        return APIFuture(types.ForwardBackwardOutput(
+            loss_fn_outputs=outputs,
+            metrics={"loss": float(loss), **metrics},
+        ))
+
+    def optim_step(self, adam_params: AdamParams) -> APIFuture:
+        if STEP_DELAY > 0:
+            time.sleep(STEP_DELAY)
+        self.last_lr = adam_params.learning_rate
+        self.progress += adam_params.learning_rate / REFERENCE_LR
+        return APIFuture(types.OptimStepResponse(metrics={}))
+
+    # -- Checkpoints --------------------------------------------------------
+
+    def _save(self, kind: str, name: str) -> str:
+        path = f"tinker://{self.training_run_id}/{kind}/{name}"
+        _write_record("checkpoints", path, {
+            "checkpoint_id": f"{kind}/{name}",
+            "checkpoint_type": "training" if kind == "weights" else "sampler",
+            "tinker_path": path,
+            "training_run_id": self.training_run_id,
+            "time": datetime.now(timezone.utc).isoformat(),
+            "size_bytes": self.rank * 2_500_000,
+            "base_model": self.base_model,
+            "progress": self.progress,
+        })
+        return path
+
+    def save_state(self, name: str) -> APIFuture:
+        return APIFuture(types.SaveStateResponse(path=self._save("weights", name)))
+
+    def save_weights_for_sampler(self, name: str) -> APIFuture:
+        return APIFuture(types.SaveStateResponse(path=self._save("sampler_weights", name)))
+
+    def load_state(self, path: str) -> APIFuture:
+        record = _read_record("checkpoints", path)
+        if record is None or record["checkpoint_type"] != "training":
+            raise ValueError(f"Training checkpoint not found: {path}")
+        self.progress = record["progress"]
+        return APIFuture(types.LoadStateResponse(path=path))
+
+    def create_sampling_client(self, model_path: str) -> "SamplingClient":
+        return SamplingClient(model_path=model_path)
+
+
+class SamplingClient:
+    """Sampler that echoes spans of the prompt, with base-model logprobs."""
+
+    def __init__(self, model_path: str | None = None, base_model: str | None = None):
+        if model_path and _read_record("checkpoints", model_path) is None:
+            raise ValueError(f"Checkpoint not found: {model_path}")
+        self.model_path = model_path
+        self.base_model = base_model
+        self._rng = random.Random()
+
+    def sample(
+        self,
+        prompt: ModelInput,
+        num_samples: int = 1,
+        sampling_params: SamplingParams | None = None,
+    ) -> APIFuture:
+        prompt_tokens = prompt.to_ints()
+        max_tokens = min((sampling_params.max_tokens if sampling_params else None) or 64, 64)
+
+        sequences = []
+        for _ in range(num_samples):
+            start = self._rng.randrange(max(1, len(prompt_tokens) // 2))
+            tokens = prompt_tokens[start:start + max_tokens]
+            sequences.append(types.SampledSequence(
+                tokens=tokens,
+                logprobs=[_base_logprob(t) for t in tokens],
+            ))
+        return APIFuture(types.SampleResponse(sequences=sequences))
+
+    def compute_logprobs(self, model_input: ModelInput) -> APIFuture:
+        tokens = model_input.to_ints()
+        # The first token has no context, so it has no logprob
+        return APIFuture([None] + [_base_logprob(t) for t in tokens[1:]])
+
+
+class RestClient:
+    """Checkpoint and training run bookkeeping backed by the mock state directory."""
+
+    def list_user_checkpoints(self, limit: int = 100) -> APIFuture:
+        records = []
+        checkpoints_dir = _state_dir("checkpoints")
+        for filename in os.listdir(checkpoints_dir):
+            try:
+                with open(os.path.join(checkpoints_dir, filename)) as f:
+                    records.append(json.load(f))
+            except (OSError, ValueError):
+                continue
+        records.sort(key=lambda r: r["time"], reverse=True)
+
+        checkpoints = [
+            types.Checkpoint(
+                checkpoint_id=r["checkpoint_id"],
+                checkpoint_type=r["checkpoint_type"],
+                tinker_path=r["tinker_path"],
+                training_run_id=r["training_run_id"],
+                time=datetime.fromisoformat(r["time"]),
+                size_bytes=r.get("size_bytes"),
+            )
+            for r in records[:limit]
+        ]
+        return APIFuture(types.CheckpointsListResponse(checkpoints=checkpoints))
+
+    def get_training_run(self, training_run_id: str) -> APIFuture:
+        record = _read_record("runs", training_run_id)
+        if record is None:
+            raise ValueError(f"Training run not found: {training_run_id}")
+        return APIFuture(types.TrainingRun(**record))
+
+    def delete_checkpoint_from_tinker_path(self, tinker_path: str) -> APIFuture:
+        try:
+            os.remove(_record_file("checkpoints", tinker_path))
+        except FileNotFoundError:
+            raise ValueError(f"Checkpoint not found: {tinker_path}")
+        return APIFuture(None)
+
+
+class ServiceClient:
+    def __init__(self, api_key: str | None = None, base_url: str | None = None, **kwargs: Any):
+        # Any key is accepted, but one must be configured, as with the real SDK
+        if not (api_key or os.environ.get("TINKER_API_KEY")):
+            raise ValueError("TINKER_API_KEY is not set")
+
+    def get_server_capabilities(self) -> types.GetServerCapabilitiesResponse:
+        return types.GetServerCapabilitiesResponse(
+            supported_models=[types.SupportedModel(model_name=name) for name in MOCK_MODELS]
+        )
+
+    def create_lora_training_client(self, base_model: str, rank: int = 32, **kwargs: Any) -> TrainingClient:
+        if base_model not in MOCK_MODELS:
+            raise ValueError(f"Model not supported by the mock backend: {base_model}")
+        return TrainingClient(base_model=base_model, rank=rank, seed=kwargs.get("seed"))
+
+    def create_sampling_client(self, model_path: str | None = None, base_model: str | None = None) -> SamplingClient:
+        if not model_path and not base_model:
+            raise ValueError("Either model_path or base_model is required")
+        return SamplingClient(model_path=model_path, base_model=base_model)
+
+    def create_rest_client(self) -> RestClient:
+        return RestClient()
@@ -0,0 +1,152 @@
+"""
+Data types mirroring tinker.types, for the offline mock backend.
+
+Only the surface used by Tinker Studio's generated scripts and API routes is
+implemented.
+"""
+
+from dataclasses import dataclass, field
+from typing import Any
+
+
+_TORCH_DTYPES = {
+    "float32": "float32",
+    "float64": "float64",
+    "int32": "int32",
+    "int64": "int64",
+}
+
+
+@dataclass
+class EncodedTextChunk:
+    tokens: list[int]
+
+    @property
+    def length(self) -> int:
+        return len(self.tokens)
+
+
+@dataclass
+class ModelInput:
+    chunks: list[EncodedTextChunk] = field(default_factory=list)
+
+    @classmethod
+    def from_ints(cls, tokens: list[int]) -> "ModelInput":
+        return cls(chunks=[EncodedTextChunk(tokens=list(tokens))])
+
+    def to_ints(self) -> list[int]:
+        return [token for chunk in self.chunks for token in chunk.tokens]
+
+    @property
+    def length(self) -> int:
+        return sum(chunk.length for chunk in self.chunks)
+
+    def append_int(self, token: int) -> "ModelInput":
+        return ModelInput.from_ints(self.to_ints() + [int(token)])
+
+
+@dataclass
+class TensorData:
+    data: list[Any]
+    dtype: str = "float32"
+    shape: list[int] | None = None
+
+    def to_torch(self):
+        import torch
+
+        return torch.tensor(self.data, dtype=getattr(torch, _TORCH_DTYPES.get(self.dtype, "float32")))
+
+    def tolist(self) -> list[Any]:
+        return list(self.data)
+
+
+@dataclass
+class Datum:
+    model_input: ModelInput
+    loss_fn_inputs: dict[str, TensorData] = field(default_factory=dict)
+
+
+@dataclass
+class AdamParams:
+    learning_rate: float = 1e-4
+    beta1: float = 0.9
+    beta2: float = 0.95
+    eps: float = 1e-12
+    weight_decay: float = 0.0
+    grad_clip_norm: float = 0.0
+
+
+@dataclass
+class SamplingParams:
+    max_tokens: int | None = None
+    temperature: float = 1.0
+    top_p: float = 1.0
+    top_k: int = -1
+    seed: int | None = None
+    stop: list[str] | list[int] | None = None
+
+
+@dataclass
+class SampledSequence:
+    tokens: list[int]
+    logprobs: list[float] | None
+    stop_reason: str = "length"
+
+
+@dataclass
+class SampleResponse:
+    sequences: list[SampledSequence]
+
+
+@dataclass
+class ForwardBackwardOutput:
+    loss_fn_outputs: list[dict[str, TensorData]]
+    metrics: dict[str, float]
+
+
+@dataclass
+class OptimStepResponse:
+    metrics: dict[str, float] | None = None
+
+
+@dataclass
+class SaveStateResponse:
+    path: str
+
+
+@dataclass
+class LoadStateResponse:
+    path: str
+
+
+@dataclass
+class SupportedModel:
+    model_name: str
+
+
+@dataclass
+class GetServerCapabilitiesResponse:
+    supported_models: list[SupportedModel]
+
+
+@dataclass
+class Checkpoint:
+    checkpoint_id: str
+    checkpoint_type: str
+    tinker_path: str
+    training_run_id: str
+    time: Any
+    size_bytes: int | None = None
+    public: bool = False
+
+
+@dataclass
+class CheckpointsListResponse:
+    checkpoints: list[Checkpoint]
+
+
+@dataclass
+class TrainingRun:
+    training_run_id: str
+    base_model: str
+    lora_rank: int | None
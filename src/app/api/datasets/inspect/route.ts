@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadDatasetRows } from "@/lib/datasets";
+import { generateDatasetInspectorCode, validateConfigForExecution } from "@/lib/codegen";
+import { resolveApiKey } from "@/lib/key-vault";
+import { pythonEnv } from "@/lib/mock-backend";
+import { helperEnv, runPython } from "@/lib/python";
+import { isVerifiedApiKey } from "@/lib/tinker-auth";
+import { InspectedRow, PipelineConfig } from "@/lib/types";
+
+/**
+ * POST /api/datasets/inspect
+ * Tokenize the first rows of the configured SFT dataset with the model's
+ * tokenizer and chat template, returning each token's loss weight and where
+ * maxLength truncates the sequence.
+ *
+ * The rows go through the generated script's own row_to_datum(), so the
+ * weights are exactly what training would use. Needs transformers installed;
+ * the tokenizer is downloaded on first use. Requires a key Tinker accepts
+ * (header or vault session), and the config must pass the same checks as a
+ * training run. The tokenizer is chosen from config.model.baseModel only; the
+ * client's model metadata (tokenizer override, trust_remote_code) is not used.
+ */
+
+interface DatasetInspectRequest {
+  config: PipelineConfig;
+  count?: number;
+}
+
+const MAX_ROWS = 10;
+const INSPECT_TIMEOUT_MS = 120000;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: DatasetInspectRequest = await request.json();
+    const { config } = body;
+    const apiKey = resolveApiKey(request, request.headers.get("x-api-key"));
+    if (!apiKey || !(await isVerifiedApiKey(apiKey))) {
+      return NextResponse.json(
+        { success: false, error: "A valid Tinker API key is required" },
+        { status: 401 }
+      );
+    }
+    const count = Math.min(Math.max(1, Math.floor(body.count ?? 3)), MAX_ROWS);
+
+    if (config?.mode !== "sft") {
+      return NextResponse.json(
+        { success: false, error: "Token inspection is available for SFT datasets" },
+        { status: 400 }
+      );
+    }
+
+    if (!config.dataset?.preset) {
+      return NextResponse.json(
+        { success: false, error: "Dataset is required" },
+        { status: 400 }
+      );
+    }
+
+    // Settings are spliced into the script, so nothing malformed gets that far
+    const errors = validateConfigForExecution(config);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: errors[0] },
+        { status: 400 }
+      );
+    }
+
+    const script = generateDatasetInspectorCode(config);
+    const datasetRows = await loadDatasetRows(config.dataset, count);
+    if (datasetRows.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "The dataset returned no rows" },
+        { status: 400 }
+      );
+    }
+
+    const stdout = await runPython(["-c", script], {
+      env: pythonEnv(helperEnv()),
+      stdin: JSON.stringify(datasetRows),
+      timeoutMs: INSPECT_TIMEOUT_MS,
+    });
+    const resultLine = stdout.split("\n").find((line) => line.startsWith("RESULT::"));
+    if (!resultLine) {
+      throw new Error("The tokenizer produced no result");
+    }
+    const rows: InspectedRow[] = JSON.parse(resultLine.slice("RESULT::".length));
+
+    return NextResponse.json({ success: true, data: { rows } });
+  } catch (error) {
+    console.error("Error inspecting dataset:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to inspect dataset",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from "next/server";
+import { loadDatasetRows } from "@/lib/datasets";
+import { resolveApiKey } from "@/lib/key-vault";
+import { isVerifiedApiKey } from "@/lib/tinker-auth";
+import { PipelineConfig } from "@/lib/types";
+
+/**
+ * POST /api/datasets/rows
+ * Return the first rows of the configured dataset, e.g. to preview prompt
+ * templates against real columns.
+ *
+ * Requires an API key that Tinker accepts (header or vault session), since it
+ * makes the server download from Hugging Face; rate limited by the proxy.
+ */
+
+interface DatasetRowsRequest {
+  dataset: PipelineConfig["dataset"];
+  count?: number;
+}
+
+const MAX_ROWS = 20;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: DatasetRowsRequest = await request.json();
+    const { dataset } = body;
+    const apiKey = resolveApiKey(request, request.headers.get("x-api-key"));
+    if (!(await isVerifiedApiKey(apiKey))) {
+      return NextResponse.json(
+        { success: false, error: "A valid Tinker API key is required" },
+        { status: 401 }
+      );
+    }
+    const count = Math.min(Math.max(1, Math.floor(body.count ?? 1)), MAX_ROWS);
+
+    if (!dataset?.preset) {
+      return NextResponse.json(
+        { success: false, error: "Dataset is required" },
+        { status: 400 }
+      );
+    }
+
+    const rows = await loadDatasetRows(dataset, count);
+
+    return NextResponse.json({ success: true, data: { rows } });
+  } catch (error) {
+    console.error("Error loading dataset rows:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to load dataset rows",
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isMockBackend, mockCompletion } from "@/lib/mock-backend";
+
+/**
+ * POST /api/mock/v1/chat/completions
+ * OpenAI-compatible chat completions stub for the mock backend.
+ * Only mounted when TINKER_STUDIO_MOCK is set.
+ */
+export async function POST(request: NextRequest) {
+  if (!isMockBackend()) {
+    return NextResponse.json({ error: { message: "Not found" } }, { status: 404 });
+  }
+
+  if (!request.headers.get("authorization")?.startsWith("Bearer ")) {
+    return NextResponse.json({ error: { message: "Missing API key" } }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const { model, messages, max_tokens } = body;
+
+  if (!model || !Array.isArray(messages) || messages.length === 0) {
+    return NextResponse.json(
+      { error: { message: "model and messages are required" } },
+      { status: 400 }
+    );
+  }
+
+  const lastUserMessage = messages.filter((m: { role: string }) => m.role === "user").pop();
+  const { text, tokenCount } = mockCompletion(model, lastUserMessage?.content ?? "", max_tokens);
+
+  return NextResponse.json({
+    id: `chatcmpl-mock-${Date.now()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [
+      {
+        index: 0,
+        message: { role: "assistant", content: text },
+        finish_reason: "stop",
+      },
+    ],
+    usage: { prompt_tokens: 0, completion_tokens: tokenCount, total_tokens: tokenCount },
+  });
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isMockBackend, mockCompletion } from "@/lib/mock-backend";
+
+/**
+ * POST /api/mock/v1/completions
+ * OpenAI-compatible text completions stub for the mock backend.
+ * Only mounted when TINKER_STUDIO_MOCK is set.
+ */
+export async function POST(request: NextRequest) {
+  if (!isMockBackend()) {
+    return NextResponse.json({ error: { message: "Not found" } }, { status: 404 });
+  }
+
+  if (!request.headers.get("authorization")?.startsWith("Bearer ")) {
+    return NextResponse.json({ error: { message: "Missing API key" } }, { status: 401 });
+  }
+
+  const body = await request.json();
+  const { model, prompt, max_tokens } = body;
+
+  if (!model || typeof prompt !== "string") {
+    return NextResponse.json(
+      { error: { message: "model and prompt are required" } },
+      { status: 400 }
+    );
+  }
+
+  const { text, tokenCount } = mockCompletion(model, prompt, max_tokens);
+
+  return NextResponse.json({
+    id: `cmpl-mock-${Date.now()}`,
+    object: "text_completion",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, text, finish_reason: "stop" }],
+    usage: { prompt_tokens: 0, completion_tokens: tokenCount, total_tokens: tokenCount },
+  });
+}
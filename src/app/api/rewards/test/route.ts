@@ -0,0 +1,204 @@
+import { NextRequest, NextResponse } from "next/server";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { loadDatasetRows } from "@/lib/datasets";
+import { resolveApiKey } from "@/lib/key-vault";
+import { isSandboxAvailable, runSandboxedPython } from "@/lib/sandbox";
+import { isVerifiedApiKey } from "@/lib/tinker-auth";
+import { checkCustomRewardCode } from "@/lib/rewards";
+import { getColumnMapping } from "@/lib/dataset-source";
+import { DatasetColumns, PipelineConfig, RewardTestCase } from "@/lib/types";
+
+/**
+ * POST /api/rewards/test
+ * Run a custom reward function against sample rows of the configured RL dataset.
+ *
+ * Requires an API key that Tinker accepts (header or vault session), since it
+ * runs the caller's code. Rows are loaded first by a trusted process. The
+ * user's code then runs in the Python sandbox (see lib/sandbox): its own
+ * namespaces and root filesystem with no server files, no capabilities, no
+ * network, resource limits and a wall-clock timeout. Hosts that can't create
+ * the sandbox get an error instead of an unisolated run.
+ *
+ * Each row is scored three times: with its own answer as the response
+ * (reference), with another row's answer (mismatched), and with an empty
+ * response, which shows whether the function separates right from wrong.
+ */
+
+interface RewardTestRequest {
+  code: string;
+  dataset: PipelineConfig["dataset"];
+  sampleSize?: number;
+}
+
+interface SampleRow {
+  ground_truth: string;
+}
+
+const MAX_SAMPLE_SIZE = 50;
+const SANDBOX_TIMEOUT_MS = 15000;
+
+// Runs in the sandbox: loads the code, then scores each case from stdin
+const HARNESS = `
+import json
+import math
+import re
+import sys
+
+payload = json.load(sys.stdin)
+
+def report(result):
+    print("RESULT::" + json.dumps(result), flush=True)
+
+namespace = {"__name__": "reward", "re": re, "math": math, "json": json}
+try:
+    exec(compile(payload["code"], "reward.py", "exec"), namespace)
+except SyntaxError as e:
+    report({"error": f"Syntax error on line {e.lineno}: {e.msg}"})
+    sys.exit(0)
+except Exception as e:
+    report({"error": f"{type(e).__name__} while loading: {e}"})
+    sys.exit(0)
+
+compute_reward = namespace.get("compute_reward")
+if not callable(compute_reward):
+    report({"error": "compute_reward is not defined"})
+    sys.exit(0)
+
+cases = []
+for case in payload["cases"]:
+    try:
+        reward = float(compute_reward(case["response"], case["ground_truth"]))
+        if not math.isfinite(reward):
+            raise ValueError(f"reward is {reward}")
+        cases.append({"kind": case["kind"], "reward": reward})
+    except Exception as e:
+        cases.append({"kind": case["kind"], "error": f"{type(e).__name__}: {e}"[:300]})
+
+report({"cases": cases})
+`;
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: RewardTestRequest = await request.json();
+    const { code, dataset } = body;
+
+    const apiKey = resolveApiKey(request, request.headers.get("x-api-key"));
+    if (!(await isVerifiedApiKey(apiKey))) {
+      return NextResponse.json(
+        { success: false, error: "A valid Tinker API key is required" },
+        { status: 401 }
+      );
+    }
+
+    if (!(await isSandboxAvailable())) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: "Reward tests need a Python sandbox, which this server can't create (unshare with unprivileged user namespaces)",
+        },
+        { status: 503 }
+      );
+    }
+    const sampleSize = Math.min(Math.max(1, Math.floor(body.sampleSize ?? 20)), MAX_SAMPLE_SIZE);
+
+    const codeError = checkCustomRewardCode(code);
+    if (codeError) {
+      return NextResponse.json({ success: false, error: codeError }, { status: 400 });
+    }
+
+    if (!dataset?.preset) {
+      return NextResponse.json(
+        { success: false, error: "Dataset is required" },
+        { status: 400 }
+      );
+    }
+
+    const rows = await loadSampleRows(dataset, sampleSize);
+    if (rows.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "The dataset has no rows with an answer to test against" },
+        { status: 400 }
+      );
+    }
+
+    const cases = rows.flatMap((row, i) => [
+      { kind: "reference", response: row.ground_truth, ground_truth: row.ground_truth },
+      {
+        kind: "mismatched",
+        response: rows[(i + 1) % rows.length].ground_truth,
+        ground_truth: row.ground_truth,
+      },
+      { kind: "empty", response: "", ground_truth: row.ground_truth },
+    ]);
+
+    const result = await runInSandbox(code, cases);
+
+    return NextResponse.json({
+      success: true,
+      data: { code, rows: rows.length, cases: result.cases ?? [], error: result.error },
+    });
+  } catch (error) {
+    console.error("Error testing reward function:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Failed to test reward function",
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Answer column, matching how the generated RL script reads rows
+function toSampleRow(row: Record<string, unknown>, columns?: DatasetColumns): SampleRow {
+  const tests = row.tests || row.test_list;
+  if (tests) {
+    return { ground_truth: JSON.stringify(Array.isArray(tests) ? tests : [tests]) };
+  }
+  const answer = columns?.groundTruth
+    ? row[columns.groundTruth]
+    : "input" in row
+      ? row.output
+      : row.answer ?? row.solution;
+  return { ground_truth: answer === undefined || answer === null ? "" : String(answer) };
+}
+
+async function loadSampleRows(
+  dataset: PipelineConfig["dataset"],
+  count: number
+): Promise<SampleRow[]> {
+  const rows = await loadDatasetRows(dataset, count);
+  const columns = getColumnMapping(dataset);
+  return rows.map((row) => toSampleRow(row, columns)).filter((row) => row.ground_truth);
+}
+
+async function runInSandbox(
+  code: string,
+  cases: { kind: string; response: string; ground_truth: string }[]
+): Promise<{ cases?: RewardTestCase[]; error?: string }> {
+  const dir = await mkdtemp(join(tmpdir(), "tinker-studio-reward-"));
+  try {
+    await writeFile(join(dir, "harness.py"), HARNESS);
+
+    let stdout: string;
+    try {
+      stdout = await runSandboxedPython(dir, ["harness.py"], {
+        stdin: JSON.stringify({ code, cases }),
+        timeoutMs: SANDBOX_TIMEOUT_MS,
+        cpuSeconds: 10,
+      });
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : "Reward function failed to run" };
+    }
+
+    const resultLine = stdout.split("\n").reverse().find((line) => line.startsWith("RESULT::"));
+    if (!resultLine) {
+      return { error: "Reward function exited without reporting results" };
+    }
+    return JSON.parse(resultLine.substring(8));
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
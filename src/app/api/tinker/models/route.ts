@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/key-vault";
 import { spawn } from "child_process";
+import { pythonEnv } from "@/lib/mock-backend";
 
 /**
  * Validates API key format to prevent injection attacks
@@ -24,7 +26,7 @@ function isValidApiKeyFormat(apiKey: string): boolean {
 
 export async function GET(request: NextRequest) {
   try {
-    const apiKey = request.headers.get("x-tinker-api-key");
+    const apiKey = resolveApiKey(request, request.headers.get("x-tinker-api-key"));
 
     if (!apiKey) {
       return NextResponse.json(
@@ -137,10 +139,10 @@ except Exception as e:
 
     // Pass API key via environment variable instead of embedding in code
     const python = spawn("python3", ["-c", pythonCode], {
-      env: {
+      env: pythonEnv({
         ...process.env,
         TINKER_API_KEY: apiKey,
-      },
+      }),
     });
     let stdout = "";
     let stderr = "";
@@ -1,4 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/key-vault";
+import { isMockBackend, MOCK_OAI_PATH } from "@/lib/mock-backend";
 
 /**
  * POST /api/tinker/sample
@@ -7,10 +9,16 @@ import { NextRequest, NextResponse } from "next/server";
  * Automatically handles both instruct models (with chat templates) and
  * base models (without chat templates) by trying /chat/completions first
  * and falling back to /completions if needed.
+ *
+ * With the mock backend enabled and no TINKER_API_BASE set, requests go to
+ * this server's own OpenAI-compatible stub instead. A profile's `apiBase`
+ * overrides both, but only when it is one of the endpoints the server allows,
+ * since the API key (possibly from the vault) is sent there.
  */
 
 interface SampleRequest {
   apiKey: string;
+  apiBase?: string; // From the active profile
   model: string;
   messages: Array<{
     role: "user" | "assistant" | "system";
@@ -21,14 +29,27 @@ interface SampleRequest {
   maxTokens?: number;
 }
 
-const TINKER_API_BASE = process.env.TINKER_API_BASE || "https://tinker.thinkingmachines.dev/services/tinker-prod/oai/api/v1";
+const DEFAULT_TINKER_API_BASE = "https://tinker.thinkingmachines.dev/services/tinker-prod/oai/api/v1";
+
+// Endpoints a profile may choose: the defaults plus TINKER_STUDIO_API_BASES (comma-separated)
+function getAllowedApiBases(): string[] {
+  return [DEFAULT_TINKER_API_BASE, process.env.TINKER_API_BASE, ...(process.env.TINKER_STUDIO_API_BASES ?? "").split(",")]
+    .map((base) => base?.trim().replace(/\/+$/, ""))
+    .filter((base): base is string => !!base);
+}
+
+function getApiBase(request: NextRequest, profileApiBase?: string): string {
+  if (profileApiBase) return profileApiBase.trim().replace(/\/+$/, "");
+  if (process.env.TINKER_API_BASE) return process.env.TINKER_API_BASE;
+  return isMockBackend() ? new URL(MOCK_OAI_PATH, request.url).toString() : DEFAULT_TINKER_API_BASE;
+}
 
 export async function POST(request: NextRequest) {
   try {
     const body: SampleRequest = await request.json();
 
+    const apiKey = resolveApiKey(request, body.apiKey);
     const {
-      apiKey,
       model,
       messages,
       temperature = 0.7,
@@ -68,10 +89,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // The key is sent to this URL, so the client can only pick an endpoint the server allows
+    if (body.apiBase && !getAllowedApiBases().includes(body.apiBase.trim().replace(/\/+$/, ""))) {
+      return NextResponse.json(
+        { success: false, error: "Profile API base is not allowed by this server (see TINKER_STUDIO_API_BASES)" },
+        { status: 400 }
+      );
+    }
+
+    const apiBase = getApiBase(request, body.apiBase);
     const cleanMessages = messages.map(({ role, content }) => ({ role, content }));
 
     // Try /chat/completions first (for instruct models with chat templates)
-    const chatResponse = await fetch(`${TINKER_API_BASE}/chat/completions`, {
+    const chatResponse = await fetch(`${apiBase}/chat/completions`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -124,7 +154,7 @@ export async function POST(request: NextRequest) {
     const lastUserMessage = cleanMessages.filter(m => m.role === "user").pop();
     const prompt = lastUserMessage?.content || "";
 
-    const completionResponse = await fetch(`${TINKER_API_BASE}/completions`, {
+    const completionResponse = await fetch(`${apiBase}/completions`, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
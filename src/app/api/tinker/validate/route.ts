@@ -1,18 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
-import { spawn } from "child_process";
-
-/**
- * Validates API key format to prevent injection attacks
- * API keys should only contain alphanumeric characters, hyphens, and underscores
- */
-function isValidApiKeyFormat(apiKey: string): boolean {
-  // API keys should be reasonable length and contain safe characters
-  if (apiKey.length < 20 || apiKey.length > 200) {
-    return false;
-  }
-  // Only allow alphanumeric, hyphens, underscores, and dots
-  return /^[a-zA-Z0-9_\-\.]+$/.test(apiKey);
-}
+import { resolveApiKey } from "@/lib/key-vault";
+import { validateWithTinker } from "@/lib/tinker-auth";
 
 /**
  * POST /api/tinker/validate
@@ -21,7 +9,8 @@ function isValidApiKeyFormat(apiKey: string): boolean {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { apiKey } = body;
+    // Validate the key being entered, or the one already stored for this session
+    const apiKey = resolveApiKey(request, body.apiKey);
 
     if (!apiKey || typeof apiKey !== "string") {
       return NextResponse.json(
@@ -63,88 +52,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-interface ValidationResult {
-  valid: boolean;
-  error?: string;
-}
-
-async function validateWithTinker(apiKey: string): Promise<ValidationResult> {
-  return new Promise((resolve) => {
-    // Validate API key format to prevent injection
-    if (!isValidApiKeyFormat(apiKey)) {
-      resolve({ valid: false, error: "Invalid API key format" });
-      return;
-    }
-
-    const pythonCode = `
-import os
-import sys
-import json
-
-try:
-    import tinker
-    client = tinker.ServiceClient()
-    caps = client.get_server_capabilities()
-    print(json.dumps({"valid": True}))
-except ImportError as e:
-    print(json.dumps({"valid": False, "error": "Tinker SDK not installed. Run: pip install tinker"}))
-except Exception as e:
-    error_msg = str(e)
-    if "unauthorized" in error_msg.lower() or "invalid" in error_msg.lower() or "401" in error_msg:
-        print(json.dumps({"valid": False, "error": "Invalid API key"}))
-    elif "connection" in error_msg.lower() or "network" in error_msg.lower():
-        print(json.dumps({"valid": False, "error": "Could not connect to Tinker API"}))
-    else:
-        print(json.dumps({"valid": False, "error": f"Validation failed: {error_msg}"}))
-`;
-
-    // Pass API key via environment variable instead of embedding in code
-    const python = spawn("python3", ["-c", pythonCode], {
-      env: {
-        ...process.env,
-        TINKER_API_KEY: apiKey,
-      },
-    });
-    let stdout = "";
-    let stderr = "";
-
-    python.stdout.on("data", (data) => {
-      stdout += data.toString();
-    });
-
-    python.stderr.on("data", (data) => {
-      stderr += data.toString();
-    });
-
-    python.on("close", (code) => {
-      try {
-        const result = JSON.parse(stdout.trim());
-        resolve(result);
-      } catch {
-        // If we can't parse the output, check if Python is available
-        if (stderr.includes("python3: command not found") || code === 127) {
-          resolve({ valid: false, error: "Python 3 is required. Please install Python 3.9+" });
-        } else if (stderr.includes("No module named 'tinker'")) {
-          resolve({ valid: false, error: "Tinker SDK not installed. Run: pip install tinker" });
-        } else {
-          resolve({ valid: false, error: stderr || "Validation failed" });
-        }
-      }
-    });
-
-    python.on("error", (err) => {
-      if (err.message.includes("ENOENT")) {
-        resolve({ valid: false, error: "Python 3 is required. Please install Python 3.9+" });
-      } else {
-        resolve({ valid: false, error: `Failed to run validation: ${err.message}` });
-      }
-    });
-
-    // Timeout after 30 seconds
-    setTimeout(() => {
-      python.kill();
-      resolve({ valid: false, error: "Validation timed out" });
-    }, 30000);
-  });
-}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/key-vault";
+import { getJob, isJobOwner } from "@/lib/training-store";
+import { metricPointsFromRecords } from "@/lib/metrics";
+
+/**
+ * GET /api/training/[id]/metrics
+ * Get a job's full metric series (for runs that weren't streamed, e.g. sweep runs)
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: jobId } = await params;
+
+  const job = getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: "Job not found" },
+      { status: 404 }
+    );
+  }
+
+  // Authorization: Verify API key owns this job
+  const providedApiKey = resolveApiKey(request, request.headers.get("x-api-key"));
+  if (!isJobOwner(job, providedApiKey)) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized: Invalid or missing API key" },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      status: job.status,
+      metrics: metricPointsFromRecords(job.metrics),
+    },
+  });
+}
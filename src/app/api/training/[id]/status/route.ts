@@ -1,9 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
-import { activeJobs } from "@/lib/training-store";
+import { resolveApiKey } from "@/lib/key-vault";
+import { getJob, isJobOwner } from "@/lib/training-store";
 
 /**
  * GET /api/training/[id]/status
- * Check if a training job is still active and get its status
+ * Check if a training job is still active and get its status.
+ * Anyone with the job ID sees whether it runs; metrics, stages and attempts
+ * are only returned to the API key that owns the job.
  */
 
 export const dynamic = "force-dynamic";
@@ -14,7 +17,7 @@ export async function GET(
 ) {
   const { id: jobId } = await params;
 
-  const job = activeJobs.get(jobId);
+  const job = getJob(jobId);
 
   if (!job) {
     return NextResponse.json({
@@ -27,6 +30,8 @@ export async function GET(
     });
   }
 
+  const isOwner = isJobOwner(job, resolveApiKey(request, request.headers.get("x-api-key")));
+
   return NextResponse.json({
     success: true,
     data: {
@@ -34,6 +39,23 @@ export async function GET(
       status: job.status,
       logsCount: job.logs.length,
       startedAt: job.startedAt,
+      ...(isOwner && {
+        completedAt: job.completedAt,
+        exitCode: job.exitCode,
+        sweepId: job.sweepId,
+        latestMetric: job.metrics[job.metrics.length - 1] ?? null,
+        currentStage: job.currentStage,
+        stages: job.stages.map((stage) => ({ mode: stage.mode, status: stage.status })),
+        // stderr stays behind the authenticated stream
+        attempts: (job.attempts ?? []).map((attempt) => ({
+          stage: attempt.stage,
+          startedAt: attempt.startedAt,
+          endedAt: attempt.endedAt,
+          exitCode: attempt.exitCode,
+          signal: attempt.signal,
+          resumedFrom: attempt.resumedFrom,
+        })),
+      }),
     },
   });
 }
@@ -1,18 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
-import { activeJobs } from "@/lib/training-store";
+import { resolveApiKey } from "@/lib/key-vault";
+import { activeJobs, appendJobLogs, getJob, isJobOwner, updateJob } from "@/lib/training-store";
+import { trainingQueue } from "@/lib/training-queue";
 
 /**
  * POST /api/training/[id]/stop
- * Stop a running training job
+ * Stop a running training job, or remove a queued one from the queue.
+ * Running jobs get SIGTERM and report `stopping` while the script finishes its
+ * current step and saves an interrupted checkpoint; they're killed if that
+ * takes longer than the grace period. A job waiting to retry after a crash is
+ * cancelled immediately.
  */
 
+// Long enough for one optimizer step plus saving state and sampler weights
+const STOP_GRACE_PERIOD_MS = 60000;
+
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const { id: jobId } = await params;
 
-  const job = activeJobs.get(jobId);
+  const job = getJob(jobId);
 
   if (!job) {
     return NextResponse.json(
@@ -22,14 +31,37 @@ export async function POST(
   }
 
   // Authorization: Verify API key owns this job
-  const providedApiKey = request.headers.get("x-api-key");
-  if (!providedApiKey || providedApiKey !== job.apiKey) {
+  const providedApiKey = resolveApiKey(request, request.headers.get("x-api-key"));
+  if (!isJobOwner(job, providedApiKey)) {
     return NextResponse.json(
       { success: false, error: "Unauthorized: Invalid or missing API key" },
       { status: 403 }
     );
   }
 
+  // Still waiting for a slot: nothing to kill, just leave the queue
+  if (job.status === "pending") {
+    trainingQueue.cancel(jobId);
+    appendJobLogs(jobId, ["Training cancelled while queued"]);
+    updateJob(jobId, { status: "cancelled", completedAt: Date.now() });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        message: "Job removed from the queue.",
+      },
+    });
+  }
+
+  if (job.status === "stopping") {
+    return NextResponse.json({
+      success: true,
+      data: {
+        message: "Stop already requested. Waiting for the current step to finish.",
+      },
+    });
+  }
+
   if (job.status !== "running") {
     return NextResponse.json(
       { success: false, error: `Job is already ${job.status}` },
@@ -37,27 +69,41 @@ export async function POST(
     );
   }
 
+  // Crashed and waiting to retry: no process to signal, just drop the retry
+  if (!job.process) {
+    trainingQueue.release(jobId);
+    appendJobLogs(jobId, ["Training cancelled while waiting to retry"]);
+    updateJob(jobId, { status: "cancelled", completedAt: Date.now() });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        message: "Pending retry cancelled.",
+      },
+    });
+  }
+
   try {
-    // Send SIGTERM for graceful shutdown (allows checkpoint saving)
-    job.process.kill("SIGTERM");
+    // The generated scripts handle SIGTERM by saving an interrupted checkpoint
+    job.process?.kill("SIGTERM");
 
-    // Give it 10 seconds to clean up, then force kill
+    // Force kill if the script hasn't finished stopping by the end of the grace period
     setTimeout(() => {
       const currentJob = activeJobs.get(jobId);
-      if (currentJob && currentJob.status === "running") {
-        currentJob.process.kill("SIGKILL");
-        currentJob.status = "cancelled";
-        currentJob.logs.push("Training forcefully terminated");
+      if (currentJob && currentJob.status === "stopping") {
+        currentJob.process?.kill("SIGKILL");
+        appendJobLogs(jobId, ["Training forcefully terminated"]);
+        updateJob(jobId, { status: "cancelled", completedAt: Date.now() });
       }
-    }, 10000);
+    }, STOP_GRACE_PERIOD_MS);
 
-    job.status = "cancelled";
-    job.logs.push("Training stop requested...");
+    appendJobLogs(jobId, ["Training stop requested..."]);
+    updateJob(jobId, { status: "stopping" });
 
     return NextResponse.json({
       success: true,
       data: {
-        message: "Stop signal sent. Training will terminate after current step.",
+        message: "Stop signal sent. Training will save a checkpoint after the current step.",
       },
     });
   } catch (error) {
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/key-vault";
+import { getJob, isJobOwner } from "@/lib/training-store";
+import { issueStreamToken } from "@/lib/stream-token";
+
+/**
+ * POST /api/training/[id]/stream-token
+ * Issue a short-lived token for opening this job's SSE stream, so the browser
+ * never puts the API key in a URL
+ */
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: jobId } = await params;
+
+  const job = getJob(jobId);
+
+  if (!job) {
+    return NextResponse.json(
+      { success: false, error: "Job not found" },
+      { status: 404 }
+    );
+  }
+
+  // Authorization: Verify API key owns this job
+  const providedApiKey = resolveApiKey(request, request.headers.get("x-api-key"));
+  if (!isJobOwner(job, providedApiKey)) {
+    return NextResponse.json(
+      { success: false, error: "Unauthorized: Invalid or missing API key" },
+      { status: 403 }
+    );
+  }
+
+  return NextResponse.json({
+    success: true,
+    data: issueStreamToken(jobId),
+  });
+}
@@ -1,17 +1,28 @@
 import { NextRequest } from "next/server";
-import { activeJobs } from "@/lib/training-store";
+import { resolveApiKey } from "@/lib/key-vault";
+import { evictJob, getJob, isJobOwner } from "@/lib/training-store";
+import { isValidStreamToken } from "@/lib/stream-token";
+import { trainingQueue } from "@/lib/training-queue";
 
 /**
  * GET /api/training/[id]/stream
- * Stream training logs via Server-Sent Events
+ * Stream training logs via Server-Sent Events.
+ * Each log event's id is its 1-based position in the job's log; status and
+ * queue events carry the id of the last log sent. A reconnecting client sends
+ * that id back (Last-Event-ID header, or `lastEventId` for a fresh EventSource)
+ * and only the logs after it are replayed.
  */
 
 export const dynamic = "force-dynamic";
 
+// Keep-alive events so proxies and VPNs don't drop a quiet stream, and so the
+// client can tell a silently dead connection from a slow training step
+const HEARTBEAT_INTERVAL_MS = 15000;
+
 export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   const { id: jobId } = await params;
 
-  const job = activeJobs.get(jobId);
+  const job = getJob(jobId);
 
   if (!job) {
     return new Response(JSON.stringify({ error: "Job not found" }), {
@@ -21,10 +32,12 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
   }
 
   // Authorization: Verify API key owns this job
-  // EventSource doesn't support custom headers, so we accept API key from query param as fallback
-  const providedApiKey =
-    request.headers.get("x-api-key") || request.nextUrl.searchParams.get("apiKey");
-  if (!providedApiKey || providedApiKey !== job.apiKey) {
+  // EventSource doesn't support custom headers, so browsers send a stream token
+  // from /api/training/[id]/stream-token instead of the key
+  const authorized =
+    isJobOwner(job, resolveApiKey(request, request.headers.get("x-api-key"))) ||
+    isValidStreamToken(request.nextUrl.searchParams.get("token"), jobId);
+  if (!authorized) {
     return new Response(JSON.stringify({ error: "Unauthorized: Invalid or missing API key" }), {
       status: 403,
       headers: { "Content-Type": "application/json" },
@@ -33,66 +46,95 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
 
   // Create SSE stream
   const encoder = new TextEncoder();
-  let lastIndex = 0;
+  let lastIndex = parseLastEventId(
+    request.headers.get("last-event-id") ?? request.nextUrl.searchParams.get("lastEventId"),
+    job.logs.length
+  );
+  let lastStatus = job.status;
+  let lastQueuePosition: number | null = null;
   let intervalId: NodeJS.Timeout;
+  let heartbeatId: NodeJS.Timeout;
 
   const stream = new ReadableStream({
     start(controller) {
+      const send = (event: object, id: number = lastIndex) => {
+        controller.enqueue(encoder.encode(`id: ${id}\ndata: ${JSON.stringify(event)}\n\n`));
+      };
+      const close = () => {
+        clearInterval(intervalId);
+        clearInterval(heartbeatId);
+        controller.close();
+      };
+
       // Send initial status
-      controller.enqueue(
-        encoder.encode(`data: ${JSON.stringify({ type: "status", status: job.status })}\n\n`)
-      );
-
-      // Send existing logs
-      for (const log of job.logs) {
-        const event = parseLogLine(log);
-        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      send({ type: "status", status: job.status });
+
+      // Send the logs the client hasn't seen yet
+      for (let i = lastIndex; i < job.logs.length; i++) {
+        send(parseLogLine(job.logs[i]), i + 1);
       }
       lastIndex = job.logs.length;
 
+      // Report where a queued job is waiting
+      if (job.status === "pending") {
+        lastQueuePosition = trainingQueue.getPosition(jobId);
+        send({ type: "queue", position: lastQueuePosition });
+      }
+
+      heartbeatId = setInterval(() => {
+        send({ type: "heartbeat" });
+      }, HEARTBEAT_INTERVAL_MS);
+
       // Poll for new logs
       intervalId = setInterval(() => {
-        const currentJob = activeJobs.get(jobId);
+        const currentJob = getJob(jobId);
         if (!currentJob) {
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({ type: "error", message: "Job no longer exists" })}\n\n`
-            )
-          );
-          controller.close();
-          clearInterval(intervalId);
+          send({ type: "error", message: "Job no longer exists" });
+          close();
           return;
         }
 
         // Send new logs
         if (currentJob.logs.length > lastIndex) {
           for (let i = lastIndex; i < currentJob.logs.length; i++) {
-            const event = parseLogLine(currentJob.logs[i]);
-            controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+            send(parseLogLine(currentJob.logs[i]), i + 1);
           }
           lastIndex = currentJob.logs.length;
         }
 
-        // Send status update if changed
-        if (currentJob.status !== "running") {
-          controller.enqueue(
-            encoder.encode(
-              `data: ${JSON.stringify({ type: "status", status: currentJob.status })}\n\n`
-            )
-          );
-          controller.enqueue(encoder.encode(`data: ${JSON.stringify({ type: "done" })}\n\n`));
-          controller.close();
-          clearInterval(intervalId);
-
-          // Clean up completed job after a delay
-          setTimeout(() => {
-            activeJobs.delete(jobId);
-          }, 60000); // Keep for 1 minute after completion
+        // Queue position updates while waiting for a slot
+        if (currentJob.status === "pending") {
+          const position = trainingQueue.getPosition(jobId);
+          if (position !== lastQueuePosition) {
+            lastQueuePosition = position;
+            send({ type: "queue", position });
+          }
+          return;
         }
+
+        // Left the queue and started, or is saving a checkpoint before stopping
+        if (currentJob.status === "running" || currentJob.status === "stopping") {
+          if (lastStatus !== currentJob.status) {
+            lastStatus = currentJob.status;
+            send({ type: "status", status: currentJob.status });
+          }
+          return;
+        }
+
+        // Send final status
+        send({ type: "status", status: currentJob.status });
+        send({ type: "done" });
+        close();
+
+        // Drop the finished job from memory after a delay; it stays readable from disk
+        setTimeout(() => {
+          evictJob(jobId);
+        }, 60000); // Keep cached for 1 minute after completion
       }, 100); // Check every 100ms
     },
     cancel() {
       clearInterval(intervalId);
+      clearInterval(heartbeatId);
     },
   });
 
@@ -105,6 +147,13 @@ export async function GET(request: NextRequest, { params }: { params: Promise<{
   });
 }
 
+// Number of logs the client already has; anything unparseable replays from the start
+function parseLastEventId(value: string | null, logCount: number): number {
+  const id = parseInt(value ?? "", 10);
+  if (Number.isNaN(id) || id < 0) return 0;
+  return Math.min(id, logCount);
+}
+
 // Format ETA seconds into human-readable string
 function formatETA(seconds: number): string {
   if (seconds < 60) return `${Math.round(seconds)}s`;
@@ -116,13 +165,17 @@ function formatETA(seconds: number): string {
 
 // Parse a log line and extract metrics if present
 function parseLogLine(line: string): {
-  type: "log" | "metric" | "error" | "checkpoint_sample";
+  type: "log" | "metric" | "error" | "checkpoint_sample" | "checkpoint_interrupted" | "stage" | "retry";
   message?: string;
   level?: "info" | "warn" | "error";
   step?: number;
   totalSteps?: number;
   loss?: number;
   reward?: number;
+  rewardComponents?: Record<string, number>;
+  judgeLatencyMs?: number;
+  kl?: number;
+  evalLoss?: number;
   learningRate?: number;
   tokensPerSecond?: number;
   wallClockTimeMs?: number;
@@ -130,19 +183,27 @@ function parseLogLine(line: string): {
   tokenCount?: number;
   checkpointPath?: string;
   checkpointLabel?: string;
+  statePath?: string;
   prompt?: string;
   response?: string;
+  stage?: number;
+  totalStages?: number;
+  mode?: string;
+  retry?: number;
 } {
   // Check for structured metric line (JSON format)
   if (line.startsWith("METRIC::")) {
     try {
       const jsonStr = line.substring(8); // Remove "METRIC::" prefix
       const data = JSON.parse(jsonStr);
+      const klPart = data.kl !== undefined ? ` | KL: ${data.kl.toFixed(4)}` : "";
+      const evalPart = data.eval_loss !== undefined ? ` | Eval: ${data.eval_loss.toFixed(4)}` : "";
+      const judgePart = data.judge_latency_ms ? ` | Judge: ${Math.round(data.judge_latency_ms)}ms` : "";
       return {
         type: "metric",
         message: `Step ${data.step}/${data.total_steps} | Loss: ${data.loss.toFixed(
           4
-        )} | LR: ${data.lr.toExponential(2)} | ${data.tokens_per_second.toFixed(
+        )}${evalPart}${klPart}${judgePart} | LR: ${data.lr.toExponential(2)} | ${data.tokens_per_second.toFixed(
           1
         )} tok/s | ETA: ${formatETA(data.eta_seconds)}`,
         level: "info",
@@ -150,6 +211,10 @@ function parseLogLine(line: string): {
         totalSteps: data.total_steps,
         loss: data.loss,
         reward: data.reward,
+        rewardComponents: data.reward_components,
+        judgeLatencyMs: data.judge_latency_ms,
+        kl: data.kl,
+        evalLoss: data.eval_loss,
         learningRate: data.lr,
         tokensPerSecond: data.tokens_per_second,
         wallClockTimeMs: data.wall_clock_time_ms,
@@ -171,6 +236,7 @@ function parseLogLine(line: string): {
         step: data.step,
         checkpointPath: data.sampler_path || data.checkpoint_path,
         checkpointLabel: data.checkpoint_label,
+        statePath: data.state_path,
         prompt: data.prompt,
         response: data.response,
       };
@@ -179,6 +245,79 @@ function parseLogLine(line: string): {
     }
   }
 
+  // Check for the checkpoint a stopped run saved before exiting
+  if (line.startsWith("CHECKPOINT_INTERRUPTED::")) {
+    try {
+      const jsonStr = line.substring(24); // Remove "CHECKPOINT_INTERRUPTED::" prefix
+      const data = JSON.parse(jsonStr);
+      return {
+        type: "checkpoint_interrupted",
+        message: `Stopped after step ${data.step}, saved checkpoint ${data.checkpoint_label}`,
+        level: "warn",
+        step: data.step,
+        checkpointPath: data.sampler_path,
+        checkpointLabel: data.checkpoint_label,
+        statePath: data.state_path,
+      };
+    } catch {
+      return { type: "log", message: line, level: "info" };
+    }
+  }
+
+  // Check for pipeline stage boundaries (written by the start route)
+  if (line.startsWith("STAGE_START::")) {
+    try {
+      const jsonStr = line.substring(13); // Remove "STAGE_START::" prefix
+      const data = JSON.parse(jsonStr);
+      return {
+        type: "stage",
+        message: `Starting stage ${data.stage}/${data.total_stages} (${data.mode.toUpperCase()})`,
+        level: "info",
+        stage: data.stage,
+        totalStages: data.total_stages,
+        mode: data.mode,
+      };
+    } catch {
+      return { type: "log", message: line, level: "info" };
+    }
+  }
+
+  // Check for a crashed stage being relaunched (written by the runner)
+  if (line.startsWith("RETRY::")) {
+    try {
+      const jsonStr = line.substring(7); // Remove "RETRY::" prefix
+      const data = JSON.parse(jsonStr);
+      const exit = data.signal ? `killed by ${data.signal}` : `exit code ${data.exit_code}`;
+      const from = data.resume_from ? `from ${data.resume_from}` : "from the start of the stage";
+      return {
+        type: "retry",
+        message: `Attempt failed (${exit}). Retry ${data.retry}/${data.max_retries} in ${data.delay_seconds}s ${from}`,
+        level: "warn",
+        stage: data.stage,
+        step: data.resume_step ?? undefined,
+        retry: data.retry,
+      };
+    } catch {
+      return { type: "log", message: line, level: "info" };
+    }
+  }
+
+  // Check for a stage's final weights report
+  if (line.startsWith("STAGE_COMPLETE::")) {
+    try {
+      const jsonStr = line.substring(16); // Remove "STAGE_COMPLETE::" prefix
+      const data = JSON.parse(jsonStr);
+      return {
+        type: "log",
+        message: `Final weights saved: ${data.sampler_path}`,
+        level: "info",
+        checkpointPath: data.sampler_path,
+      };
+    } catch {
+      return { type: "log", message: line, level: "info" };
+    }
+  }
+
   // Check if it's an error line
   if (line.startsWith("[ERROR]")) {
     return {
@@ -1,12 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
-import { spawn } from "child_process";
-import { randomUUID } from "crypto";
-import { tmpdir } from "os";
-import { writeFile, mkdir } from "fs/promises";
-import { join } from "path";
-import { generateCode } from "@/lib/codegen";
+import { validateConfigForExecution } from "@/lib/codegen";
+import { resolveApiKey } from "@/lib/key-vault";
 import { PipelineConfig, Model } from "@/lib/types";
-import { activeJobs } from "@/lib/training-store";
+import { checkPythonAvailable, startJob } from "@/lib/training-runner";
 
 /**
  * Validates API key format to prevent injection attacks
@@ -40,9 +36,11 @@ function sanitizeErrorMessage(error: string): string {
  *
  * This endpoint:
  * 1. Validates the configuration
- * 2. Generates Python training script
- * 3. Spawns Python subprocess
- * 4. Returns job ID for streaming
+ * 2. Generates a Python training script per pipeline stage
+ * 3. Queues the job until a training slot is free (global and per-API-key limits)
+ * 4. Spawns the first stage as a Python subprocess; each following stage is
+ *    spawned when the previous one exits cleanly, starting from its final state
+ * 5. Returns job ID for streaming
  */
 
 interface StartRequest {
@@ -54,7 +52,9 @@ interface StartRequest {
 export async function POST(request: NextRequest) {
   try {
     const body: StartRequest = await request.json();
-    const { apiKey, config, model } = body;
+    const { config, model } = body;
+    // Sent by the browser, or stored server-side for its session
+    const apiKey = resolveApiKey(request, body.apiKey);
 
     // Validation
     if (!apiKey) {
@@ -79,6 +79,15 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // startJob() checks this too; here it is reported as a bad request
+    const errors = validateConfigForExecution(config);
+    if (errors.length > 0) {
+      return NextResponse.json(
+        { success: false, error: errors[0] },
+        { status: 400 }
+      );
+    }
+
     // Check if Python is available
     const pythonAvailable = await checkPythonAvailable();
     if (!pythonAvailable) {
@@ -92,93 +101,18 @@ export async function POST(request: NextRequest) {
       }, { status: 503 });
     }
 
-    // Generate unique job ID using secure random UUID
-    const jobId = `job_${randomUUID()}`;
-
-    // Generate Python script
-    const scriptContent = generateCode(config, model);
-
-    // Create temp directory for this job
-    const jobDir = join(tmpdir(), "tinker-studio", jobId);
-    await mkdir(jobDir, { recursive: true });
-
-    // Write script to temp file (without API key embedded)
-    const scriptPath = join(jobDir, "training.py");
-    await writeFile(scriptPath, scriptContent);
-
-    // Spawn Python process with API key passed via environment variable
-    // Apply resource limits for security using ulimit (Unix/Linux)
-    // Memory breakdown:
-    // - Python runtime + SDK (~200MB)
-    // - Dataset streaming + tokenization (~500MB)
-    // - Overhead and buffers (~300MB)
-    // Total: ~1.5GB limit
-    const memoryLimitKB = Math.floor(1.5 * 1024 * 1024); // 1.5GB in KB
-
-    // Use bash with ulimit to enforce memory limits on Unix systems
-    // On non-Unix systems, ulimit will fail gracefully and run without limits
-    const pythonProcess = spawn("bash", [
-      "-c",
-      `ulimit -v ${memoryLimitKB} 2>/dev/null || true; exec python3 -u "${scriptPath}"`
-    ], {
-      cwd: jobDir,
-      env: {
-        ...process.env,
-        PYTHONUNBUFFERED: "1",
-        TINKER_TELEMETRY: "0",
-        TINKER_API_KEY: apiKey,
-      },
-      detached: false, // Keep process attached for proper cleanup
-    });
-
-    // Store job info with API key for authorization
-    activeJobs.set(jobId, {
-      process: pythonProcess,
-      config,
-      startedAt: Date.now(),
-      logs: [],
-      status: "running",
-      apiKey: apiKey, // Track ownership for authorization
-    });
-
-    // Handle process events
-    pythonProcess.stdout.on("data", (data) => {
-      const job = activeJobs.get(jobId);
-      if (job) {
-        const lines = data.toString().split("\n").filter(Boolean);
-        job.logs.push(...lines);
-      }
-    });
-
-    pythonProcess.stderr.on("data", (data) => {
-      const job = activeJobs.get(jobId);
-      if (job) {
-        const lines = data.toString().split("\n").filter(Boolean);
-        job.logs.push(...lines.map((l: string) => `[ERROR] ${l}`));
-      }
-    });
-
-    pythonProcess.on("close", (code) => {
-      const job = activeJobs.get(jobId);
-      if (job) {
-        job.status = code === 0 ? "completed" : "failed";
-        job.logs.push(code === 0 ? "Training completed successfully!" : `Training failed with exit code ${code}`);
-      }
-    });
-
-    pythonProcess.on("error", (error) => {
-      const job = activeJobs.get(jobId);
-      if (job) {
-        job.status = "failed";
-        job.logs.push(`[ERROR] ${sanitizeErrorMessage(error.message)}`);
-      }
-    });
+    const { jobId, status, queuePosition } = await startJob(config, apiKey, model);
 
     return NextResponse.json({
       success: true,
       data: {
         jobId,
-        message: "Training started. Stream logs at /api/training/{jobId}/stream",
+        status,
+        queuePosition,
+        message:
+          queuePosition === null
+            ? "Training started. Stream logs at /api/training/{jobId}/stream"
+            : `Training queued at position ${queuePosition}. Stream status at /api/training/{jobId}/stream`,
       },
     });
   } catch (error) {
@@ -190,23 +124,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
-// Check if Python is available
-async function checkPythonAvailable(): Promise<boolean> {
-  return new Promise((resolve) => {
-    const python = spawn("python3", ["--version"]);
-
-    python.on("close", (code) => {
-      resolve(code === 0);
-    });
-
-    python.on("error", () => {
-      resolve(false);
-    });
-
-    setTimeout(() => {
-      python.kill();
-      resolve(false);
-    }, 5000);
-  });
-}
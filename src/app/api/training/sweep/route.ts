@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from "next/server";
+import { resolveApiKey } from "@/lib/key-vault";
+import { isValidApiKeyFormat } from "@/lib/security";
+import { randomUUID } from "crypto";
+import { PipelineConfig, Model, SweepConfig } from "@/lib/types";
+import { validateConfigForExecution } from "@/lib/codegen";
+import { expandSweep, SweepVariant } from "@/lib/sweep";
+import { checkPythonAvailable, startJob, StartedJob } from "@/lib/training-runner";
+
+/**
+ * POST /api/training/sweep
+ * Start a hyperparameter sweep
+ *
+ * This endpoint:
+ * 1. Expands the sweep into one config per run (grid or seeded random search)
+ * 2. Validates every run's config
+ * 3. Starts each run through the regular job start path (so runs share the queue)
+ * 4. Returns the sweep ID and one job ID per run
+ */
+
+interface SweepRequest {
+  apiKey: string;
+  config: PipelineConfig;
+  sweep: SweepConfig;
+  model?: Model; // Selected model with metadata
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: SweepRequest = await request.json();
+    const { config, sweep, model } = body;
+    // Sent by the browser, or stored server-side for its session
+    const apiKey = resolveApiKey(request, body.apiKey);
+
+    // Validation
+    if (!apiKey) {
+      return NextResponse.json(
+        { success: false, error: "API key is required" },
+        { status: 400 }
+      );
+    }
+
+    // Validate API key format to prevent injection
+    if (!isValidApiKeyFormat(apiKey)) {
+      return NextResponse.json(
+        { success: false, error: "Invalid API key format" },
+        { status: 400 }
+      );
+    }
+
+    if (!config || !sweep) {
+      return NextResponse.json(
+        { success: false, error: "Training configuration and sweep definition are required" },
+        { status: 400 }
+      );
+    }
+
+    let variants: SweepVariant[];
+    try {
+      variants = expandSweep(config, sweep);
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : "Invalid sweep" },
+        { status: 400 }
+      );
+    }
+
+    // Reject the whole sweep if any run would be invalid
+    for (const [index, variant] of variants.entries()) {
+      const errors = validateConfigForExecution(variant.config);
+      if (errors.length > 0) {
+        return NextResponse.json(
+          { success: false, error: `Run ${index + 1}: ${errors[0]}` },
+          { status: 400 }
+        );
+      }
+    }
+
+    // Check if Python is available
+    const pythonAvailable = await checkPythonAvailable();
+    if (!pythonAvailable) {
+      return NextResponse.json({
+        success: false,
+        error: "Python runtime not available. Download the generated code and run locally.",
+        code: "PYTHON_NOT_AVAILABLE",
+      }, { status: 503 });
+    }
+
+    const sweepId = `sweep_${randomUUID()}`;
+    const runs: (StartedJob & { params: Record<string, number> })[] = [];
+    for (const variant of variants) {
+      const started = await startJob(variant.config, apiKey, model, sweepId);
+      runs.push({ ...started, params: variant.params });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        sweepId,
+        runs,
+        message: `Sweep started with ${runs.length} runs`,
+      },
+    });
+  } catch (error) {
+    console.error("Error starting sweep:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to start sweep" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isValidApiKeyFormat } from "@/lib/security";
+import {
+  deleteApiKey,
+  getKeyHint,
+  getRequestProfile,
+  isValidProfileId,
+  isVaultEnabled,
+  moveApiKeys,
+  storeApiKey,
+  VAULT_COOKIE,
+  VAULT_SESSION_TTL_MS,
+} from "@/lib/key-vault";
+
+/**
+ * /api/vault
+ * Keep the Tinker API key on the server, encrypted at rest, instead of in the
+ * browser. The browser only holds an httpOnly session cookie. Each operation
+ * applies to the profile named by the profile cookie.
+ *
+ * GET    - Whether the vault is available and holds a key for this profile
+ * POST   - Store the profile's key ({ apiKey, profiles? }) in a new session,
+ *          carrying over the keys of the listed other profiles
+ * DELETE - Forget the profile's key
+ */
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: NextRequest) {
+  const sessionId = request.cookies.get(VAULT_COOKIE)?.value;
+  const hint = isVaultEnabled() && sessionId ? getKeyHint(sessionId, getRequestProfile(request)) : null;
+
+  return NextResponse.json({
+    success: true,
+    data: {
+      enabled: isVaultEnabled(),
+      stored: hint !== null,
+      hint,
+    },
+  });
+}
+
+export async function POST(request: NextRequest) {
+  if (!isVaultEnabled()) {
+    return NextResponse.json(
+      { success: false, error: "Server-side key storage is not configured (set TINKER_STUDIO_VAULT_KEY)" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { apiKey, profiles } = await request.json();
+
+    if (!apiKey || typeof apiKey !== "string" || !isValidApiKeyFormat(apiKey.trim())) {
+      return NextResponse.json(
+        { success: false, error: "Invalid API key format" },
+        { status: 400 }
+      );
+    }
+
+    // Always a fresh session ID; replaces any key this profile stored before
+    const trimmed = apiKey.trim();
+    const profileId = getRequestProfile(request);
+    const sessionId = storeApiKey(trimmed, profileId);
+
+    // Other profiles' keys follow the browser into the new session
+    const previousSessionId = request.cookies.get(VAULT_COOKIE)?.value;
+    if (previousSessionId) {
+      const otherProfiles = Array.isArray(profiles)
+        ? profiles.filter((id): id is string => typeof id === "string" && isValidProfileId(id) && id !== profileId)
+        : [];
+      moveApiKeys(previousSessionId, sessionId, otherProfiles);
+      deleteApiKey(previousSessionId, profileId);
+    }
+    const response = NextResponse.json({
+      success: true,
+      data: { hint: trimmed.slice(-4) },
+    });
+    response.cookies.set(VAULT_COOKIE, sessionId, {
+      httpOnly: true,
+      sameSite: "strict",
+      secure: request.nextUrl.protocol === "https:",
+      path: "/",
+      maxAge: VAULT_SESSION_TTL_MS / 1000,
+    });
+    return response;
+  } catch (error) {
+    console.error("Error storing API key:", error);
+    return NextResponse.json(
+      { success: false, error: "Failed to store API key" },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  // The session cookie stays; other profiles may still have keys under it
+  const sessionId = request.cookies.get(VAULT_COOKIE)?.value;
+  if (sessionId) {
+    deleteApiKey(sessionId, getRequestProfile(request));
+  }
+
+  return NextResponse.json({ success: true, data: { stored: false } });
+}
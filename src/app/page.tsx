@@ -20,7 +20,7 @@ export default function Home() {
   const [activeTab, setActiveTab] = useState("code");
   const checkpoints = useStudioStore((s) => s.checkpoints);
   const hasCheckpoints = checkpoints.length > 0;
-  const { settings, fetchCheckpoints } = useStudioStore();
+  const { settings, fetchCheckpoints, hasApiKey } = useStudioStore();
 
   // Restore training session on mount
   useEffect(() => {
@@ -36,10 +36,10 @@ export default function Home() {
 
   // Fetch checkpoints on mount if API key exists
   useEffect(() => {
-    if (settings.apiKey && settings.apiKeyValidated) {
+    if (hasApiKey() && settings.apiKeyValidated) {
       fetchCheckpoints();
     }
-  }, [settings.apiKey, settings.apiKeyValidated, fetchCheckpoints]);
+  }, [settings.apiKey, settings.apiKeyStorage, settings.apiKeyValidated, fetchCheckpoints, hasApiKey]);
   return (
     <div className="flex h-screen flex-col bg-black">
       <Header />
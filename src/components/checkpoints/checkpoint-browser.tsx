@@ -39,20 +39,21 @@ export function CheckpointBrowser({
   onOpenChange,
   onSelect,
 }: CheckpointBrowserProps) {
-  const { settings, checkpoints, setCheckpoints, setInferenceConfig } = useStudioStore();
+  const { settings, checkpoints, setCheckpoints, setInferenceConfig, hasApiKey } = useStudioStore();
+  const hasKey = hasApiKey();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [copiedPath, setCopiedPath] = useState<string | null>(null);
 
   // Fetch checkpoints when dialog opens
   useEffect(() => {
-    if (open && settings.apiKey) {
+    if (open && hasKey) {
       fetchCheckpoints();
     }
-  }, [open, settings.apiKey]);
+  }, [open, hasKey]);
 
   const fetchCheckpoints = async () => {
-    if (!settings.apiKey) {
+    if (!hasKey) {
       setError("Please configure your API key first");
       return;
     }
@@ -182,7 +183,7 @@ export function CheckpointBrowser({
           )}
 
           {/* No API Key */}
-          {!settings.apiKey && (
+          {!hasKey && (
             <div className="flex items-center justify-center h-48 text-center">
               <div>
                 <AlertCircle className="h-8 w-8 text-zinc-600 mx-auto mb-3" />
@@ -195,7 +196,7 @@ export function CheckpointBrowser({
           )}
 
           {/* Loading State */}
-          {loading && settings.apiKey && (
+          {loading && hasKey && (
             <div className="flex items-center justify-center h-48">
               <div className="flex flex-col items-center gap-3">
                 <Loader2 className="h-8 w-8 animate-spin text-blue-400" />
@@ -207,7 +208,7 @@ export function CheckpointBrowser({
           )}
 
           {/* Checkpoint List */}
-          {!loading && settings.apiKey && checkpoints.length > 0 && (
+          {!loading && hasKey && checkpoints.length > 0 && (
             <ScrollArea className="h-72">
               <div className="space-y-2 pr-4">
                 {checkpoints.map((checkpoint) => (
@@ -295,7 +296,7 @@ export function CheckpointBrowser({
           )}
 
           {/* Empty State */}
-          {!loading && settings.apiKey && checkpoints.length === 0 && !error && (
+          {!loading && hasKey && checkpoints.length === 0 && !error && (
             <div className="flex items-center justify-center h-48 text-center">
               <div>
                 <FolderOpen className="h-8 w-8 text-zinc-600 mx-auto mb-3" />
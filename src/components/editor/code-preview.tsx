@@ -3,8 +3,9 @@
 import { useMemo, useState } from "react";
 import dynamic from "next/dynamic";
 import { useStudioStore } from "@/lib/store";
-import { generateCode } from "@/lib/codegen";
+import { generatePipelineScripts } from "@/lib/codegen";
 import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
 import { Copy, Check, Download, FileCode } from "lucide-react";
 
 // Dynamic import Monaco to avoid SSR issues
@@ -14,9 +15,16 @@ export function CodePreview() {
   const config = useStudioStore((s) => s.config);
   const models = useStudioStore((s) => s.models);
   const [copied, setCopied] = useState(false);
+  const [selectedStage, setSelectedStage] = useState(0);
 
   const selectedModel = models.find((m) => m.id === config.model.baseModel);
-  const code = useMemo(() => generateCode(config, selectedModel), [config, selectedModel]);
+  const scripts = useMemo(
+    () => generatePipelineScripts(config, selectedModel),
+    [config, selectedModel]
+  );
+  // Fall back to the last stage when the selected one was removed
+  const script = scripts[Math.min(selectedStage, scripts.length - 1)];
+  const code = script.code;
 
   const handleCopy = async () => {
     await navigator.clipboard.writeText(code);
@@ -29,7 +37,7 @@ export function CodePreview() {
     const url = URL.createObjectURL(blob);
     const a = document.createElement("a");
     a.href = url;
-    a.download = `tinker_${config.mode}_training.py`;
+    a.download = script.filename;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -44,8 +52,28 @@ export function CodePreview() {
           <FileCode className="h-4 w-4 text-muted-foreground" />
           <span className="text-sm font-medium">Generated Code</span>
           <span className="text-xs text-muted-foreground font-mono">
-            tinker_{config.mode}_training.py
+            {script.filename}
           </span>
+          {scripts.length > 1 && (
+            <div className="flex items-center gap-0.5 ml-2">
+              {scripts.map((s, index) => (
+                <Button
+                  key={s.stage}
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setSelectedStage(index)}
+                  className={cn(
+                    "h-6 px-2 text-xs",
+                    s === script
+                      ? "bg-muted text-foreground"
+                      : "text-muted-foreground hover:text-foreground"
+                  )}
+                >
+                  {s.stage}. {s.mode.toUpperCase()}
+                </Button>
+              ))}
+            </div>
+          )}
         </div>
         <div className="flex items-center gap-1">
           <Button
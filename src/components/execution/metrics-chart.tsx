@@ -3,8 +3,10 @@
 import { useState } from "react";
 import { useStudioStore } from "@/lib/store";
 import {
+  ComposedChart,
   LineChart,
   Line,
+  Area,
   XAxis,
   YAxis,
   Tooltip,
@@ -14,11 +16,15 @@ import {
 } from "recharts";
 import { cn } from "@/lib/utils";
 
-type ChartTab = "loss" | "lr" | "throughput" | "reward";
+type ChartTab = "loss" | "lr" | "throughput" | "reward" | "kl" | "judge";
+
+// Fill colors for the stacked terms of a composite reward
+const REWARD_COMPONENT_COLORS = ["#22c55e", "#3b82f6", "#f59e0b", "#a855f7", "#ec4899", "#14b8a6"];
 
 export function MetricsChart() {
   const metrics = useStudioStore((s) => s.execution.metrics);
-  const mode = useStudioStore((s) => s.config.mode);
+  // In multi-stage pipelines the tabs follow the stage that is currently running
+  const mode = useStudioStore((s) => s.execution.stageMode ?? s.config.mode);
   const [activeTab, setActiveTab] = useState<ChartTab>("loss");
 
   if (metrics.length === 0) {
@@ -39,11 +45,24 @@ export function MetricsChart() {
     };
   });
 
+  // DPO reports the mean implicit reward margin between chosen and rejected
+  const rewardLabel = mode === "dpo" ? "Reward Margin" : "Reward";
+
+  // Eval loss is only reported on evaluation steps
+  const hasEvalLoss = metrics.some((m) => m.evalLoss !== undefined);
+
+  // Composite RL rewards report each weighted term; stack them under the total
+  const rewardComponents = [
+    ...new Set(metrics.flatMap((m) => Object.keys(m.rewardComponents ?? {}))),
+  ];
+
   const tabs: { id: ChartTab; label: string; show: boolean }[] = [
     { id: "loss", label: "Loss", show: true },
     { id: "lr", label: "Learning Rate", show: true },
     { id: "throughput", label: "Throughput", show: true },
-    { id: "reward", label: "Reward", show: mode === "rl" },
+    { id: "reward", label: rewardLabel, show: mode !== "sft" },
+    { id: "kl", label: "KL", show: mode === "rl" },
+    { id: "judge", label: "Judge Latency", show: metrics.some((m) => m.judgeLatencyMs !== undefined) },
   ];
 
   const renderChart = () => {
@@ -62,6 +81,9 @@ export function MetricsChart() {
             <Legend />
             <Line type="monotone" dataKey="loss" stroke="#3b82f6" strokeWidth={1} dot={false} name="Loss" opacity={0.4} isAnimationActive={false} />
             <Line type="monotone" dataKey="smoothedLoss" stroke="#3b82f6" strokeWidth={2} dot={false} name="Smoothed Loss" isAnimationActive={false} />
+            {hasEvalLoss && (
+              <Line type="monotone" dataKey="evalLoss" stroke="#f97316" strokeWidth={2} dot={{ r: 2 }} name="Eval Loss" connectNulls isAnimationActive={false} />
+            )}
           </LineChart>
         );
 
@@ -96,6 +118,35 @@ export function MetricsChart() {
         );
 
       case "reward":
+        if (rewardComponents.length > 0) {
+          return (
+            <ComposedChart data={metrics} stackOffset="sign" margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#262626" />
+              <XAxis dataKey="step" stroke="#666" fontSize={11} tickLine={false} axisLine={{ stroke: "#262626" }} />
+              <YAxis stroke="#666" fontSize={11} tickLine={false} axisLine={{ stroke: "#262626" }} tickFormatter={(v) => v.toFixed(2)} />
+              <Tooltip
+                contentStyle={{ backgroundColor: "#0a0a0a", border: "1px solid #262626", borderRadius: "8px", fontSize: "12px" }}
+                labelStyle={{ color: "#a1a1a1" }}
+                formatter={(value, name) => [(value as number | undefined)?.toFixed(4) ?? "N/A", name ?? ""]}
+              />
+              <Legend />
+              {rewardComponents.map((name, i) => (
+                <Area
+                  key={name}
+                  type="monotone"
+                  dataKey={(m) => m.rewardComponents?.[name]}
+                  stackId="reward"
+                  stroke={REWARD_COMPONENT_COLORS[i % REWARD_COMPONENT_COLORS.length]}
+                  fill={REWARD_COMPONENT_COLORS[i % REWARD_COMPONENT_COLORS.length]}
+                  fillOpacity={0.3}
+                  name={name}
+                  isAnimationActive={false}
+                />
+              ))}
+              <Line type="monotone" dataKey="reward" stroke="#fafafa" strokeWidth={2} dot={false} name={rewardLabel} isAnimationActive={false} />
+            </ComposedChart>
+          );
+        }
         return (
           <LineChart data={metrics} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="#262626" />
@@ -104,9 +155,39 @@ export function MetricsChart() {
             <Tooltip
               contentStyle={{ backgroundColor: "#0a0a0a", border: "1px solid #262626", borderRadius: "8px", fontSize: "12px" }}
               labelStyle={{ color: "#a1a1a1" }}
-              formatter={(value) => [(value as number | undefined)?.toFixed(4) ?? "N/A", "Reward"]}
+              formatter={(value) => [(value as number | undefined)?.toFixed(4) ?? "N/A", rewardLabel]}
+            />
+            <Line type="monotone" dataKey="reward" stroke="#22c55e" strokeWidth={2} dot={false} name={rewardLabel} isAnimationActive={false} />
+          </LineChart>
+        );
+
+      case "kl":
+        return (
+          <LineChart data={metrics} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#262626" />
+            <XAxis dataKey="step" stroke="#666" fontSize={11} tickLine={false} axisLine={{ stroke: "#262626" }} />
+            <YAxis stroke="#666" fontSize={11} tickLine={false} axisLine={{ stroke: "#262626" }} tickFormatter={(v) => v.toFixed(3)} />
+            <Tooltip
+              contentStyle={{ backgroundColor: "#0a0a0a", border: "1px solid #262626", borderRadius: "8px", fontSize: "12px" }}
+              labelStyle={{ color: "#a1a1a1" }}
+              formatter={(value) => [(value as number | undefined)?.toFixed(5) ?? "N/A", "KL"]}
+            />
+            <Line type="monotone" dataKey="kl" stroke="#ec4899" strokeWidth={2} dot={false} name="KL" isAnimationActive={false} />
+          </LineChart>
+        );
+
+      case "judge":
+        return (
+          <LineChart data={metrics} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#262626" />
+            <XAxis dataKey="step" stroke="#666" fontSize={11} tickLine={false} axisLine={{ stroke: "#262626" }} />
+            <YAxis stroke="#666" fontSize={11} tickLine={false} axisLine={{ stroke: "#262626" }} tickFormatter={(v) => `${v.toFixed(0)}`} />
+            <Tooltip
+              contentStyle={{ backgroundColor: "#0a0a0a", border: "1px solid #262626", borderRadius: "8px", fontSize: "12px" }}
+              labelStyle={{ color: "#a1a1a1" }}
+              formatter={(value) => [`${(value as number | undefined)?.toFixed(0) ?? "N/A"} ms`, "Judge Latency"]}
             />
-            <Line type="monotone" dataKey="reward" stroke="#22c55e" strokeWidth={2} dot={false} name="Reward" isAnimationActive={false} />
+            <Line type="monotone" dataKey="judgeLatencyMs" stroke="#a855f7" strokeWidth={2} dot={false} name="Judge Latency" isAnimationActive={false} />
           </LineChart>
         );
     }
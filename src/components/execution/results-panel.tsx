@@ -20,6 +20,7 @@ import {
   Activity,
   Zap,
   Gauge,
+  Layers,
 } from "lucide-react";
 import { toast } from "sonner";
 
@@ -39,7 +40,7 @@ export function ResultsPanel() {
   const getStatusColor = () => {
     switch (execution.status) {
       case "running":
-        return "bg-blue-500";
+        return execution.queuePosition !== undefined ? "bg-amber-500" : "bg-blue-500";
       case "completed":
         return "bg-green-500";
       case "error":
@@ -52,7 +53,9 @@ export function ResultsPanel() {
   const getStatusText = () => {
     switch (execution.status) {
       case "running":
-        return "Running";
+        return execution.queuePosition !== undefined
+          ? `Queued (#${execution.queuePosition})`
+          : "Running";
       case "completed":
         return "Completed";
       case "error":
@@ -80,6 +83,15 @@ export function ResultsPanel() {
         <div className="flex items-center gap-3">
           {execution.status === "running" && (
             <>
+              {execution.totalStages !== undefined && execution.totalStages > 1 && (
+                <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+                  <Layers className="h-3 w-3" />
+                  <span>
+                    Stage {execution.currentStage}/{execution.totalStages}
+                    {execution.stageMode && ` · ${execution.stageMode.toUpperCase()}`}
+                  </span>
+                </div>
+              )}
               <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
                 <Clock className="h-3 w-3" />
                 <span>
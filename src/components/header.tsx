@@ -7,6 +7,14 @@ import { Button } from "@/components/ui/button";
 import { SettingsDialog } from "@/components/settings/settings-dialog";
 import { ShortcutsDialog } from "@/components/shortcuts/shortcuts-dialog";
 import { TrainingHistory } from "@/components/history/training-history";
+import { SweepDialog } from "@/components/sweep/sweep-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Play,
   Square,
@@ -17,6 +25,7 @@ import {
   AlertCircle,
   Keyboard,
   History,
+  FlaskConical,
 } from "lucide-react";
 import {
   Tooltip,
@@ -49,7 +58,9 @@ export function Header() {
     setShortcutsOpen,
     setHistoryOpen,
     historyOpen,
+    setSweepOpen,
     hasApiKey,
+    switchProfile,
   } = useStudioStore();
   const isRunning = execution.status === "running";
   const selectedModel = models.find((m) => m.id === config.model.baseModel);
@@ -129,6 +140,31 @@ export function Header() {
         </div>
 
         <div className="flex items-center gap-2">
+          {/* Profile Switcher (locked while a job streams under the current key) */}
+          {hasMounted && settings.profiles.length > 1 && (
+            <Select
+              value={settings.activeProfileId}
+              onValueChange={(id) => {
+                switchProfile(id);
+                toast.success(
+                  `Switched to ${settings.profiles.find((profile) => profile.id === id)?.name ?? "profile"}`
+                );
+              }}
+              disabled={isRunning}
+            >
+              <SelectTrigger className="h-7 w-[150px] text-xs" title={isRunning ? "Stop training to switch profiles" : "Tinker profile"}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {settings.profiles.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id} className="text-xs">
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+
           {/* API Key Status Indicator */}
           <Tooltip>
             <TooltipTrigger asChild>
@@ -163,7 +199,9 @@ export function Header() {
               {!hasMounted
                 ? "No API key configured"
                 : settings.apiKeyValidated
-                  ? "Tinker API connected"
+                  ? settings.apiKeyStorage === "server"
+                    ? "Tinker API connected (key stored on server)"
+                    : "Tinker API connected"
                   : settings.apiKey
                     ? "API key not validated - click to validate"
                     : "No API key configured"}
@@ -221,6 +259,21 @@ export function Header() {
             <TooltipContent>Training history</TooltipContent>
           </Tooltip>
 
+          {/* Sweep Button */}
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setSweepOpen(true)}
+                className="h-8 w-8 p-0 text-muted-foreground hover:text-foreground"
+              >
+                <FlaskConical className="h-4 w-4" />
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent>Hyperparameter sweep</TooltipContent>
+          </Tooltip>
+
           {/* Reset Button */}
           <Button
             variant="ghost"
@@ -271,6 +324,9 @@ export function Header() {
 
       {/* Training History Dialog */}
       <TrainingHistory open={historyOpen} onOpenChange={setHistoryOpen} />
+
+      {/* Sweep Dialog */}
+      <SweepDialog />
     </>
   );
 }
@@ -0,0 +1,219 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useStudioStore } from "@/lib/store";
+import { loadJobMetrics } from "@/lib/training-client";
+import { MetricPoint, PipelineConfig, TrainingJob } from "@/lib/types";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  Tooltip,
+  ResponsiveContainer,
+  CartesianGrid,
+  Legend,
+} from "recharts";
+import { GitCompare } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type CompareTab = "loss" | "evalLoss" | "reward" | "lr" | "throughput";
+
+const TABS: {
+  id: CompareTab;
+  label: string;
+  key: Exclude<keyof MetricPoint, "rewardComponents">;
+  format: (value: number) => string;
+}[] = [
+  { id: "loss", label: "Loss", key: "loss", format: (v) => v.toFixed(4) },
+  { id: "evalLoss", label: "Eval Loss", key: "evalLoss", format: (v) => v.toFixed(4) },
+  { id: "reward", label: "Reward", key: "reward", format: (v) => v.toFixed(4) },
+  { id: "lr", label: "Learning Rate", key: "learningRate", format: (v) => v.toExponential(2) },
+  { id: "throughput", label: "Throughput", key: "tokensPerSecond", format: (v) => `${v.toFixed(1)} tok/s` },
+];
+
+// One color per run, in selection order
+const RUN_COLORS = ["#3b82f6", "#f59e0b", "#22c55e", "#ec4899", "#a855f7", "#06b6d4", "#ef4444", "#84cc16"];
+
+// Flatten a config into dot paths so runs can be diffed field by field
+function flattenConfig(value: unknown, prefix: string = "", out: Record<string, string> = {}) {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => flattenConfig(item, `${prefix}[${index}]`, out));
+  } else if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value)) {
+      flattenConfig(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+  } else if (value !== undefined) {
+    out[prefix] = String(value);
+  }
+  return out;
+}
+
+function diffConfigs(configs: PipelineConfig[]): { path: string; values: string[] }[] {
+  const flattened = configs.map((config) => flattenConfig(config));
+  const paths = [...new Set(flattened.flatMap((flat) => Object.keys(flat)))].sort();
+
+  return paths
+    .map((path) => ({ path, values: flattened.map((flat) => flat[path] ?? "-") }))
+    .filter((row) => row.values.some((value) => value !== row.values[0]));
+}
+
+interface RunComparisonProps {
+  jobs: TrainingJob[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RunComparison({ jobs, open, onOpenChange }: RunComparisonProps) {
+  const hasApiKey = useStudioStore((s) => s.hasApiKey);
+  const [activeTab, setActiveTab] = useState<CompareTab>("loss");
+
+  // Runs that weren't streamed in this browser (e.g. sweep runs) fetch their series from the server
+  const missingIds = jobs.filter((job) => !job.metrics).map((job) => job.id).join(",");
+  useEffect(() => {
+    if (!open || !missingIds || !hasApiKey()) return;
+    missingIds.split(",").forEach((id) => loadJobMetrics(id));
+  }, [open, missingIds, hasApiKey]);
+
+  const tab = TABS.find((t) => t.id === activeTab)!;
+
+  // Merge every run's series on the step axis: { step, [jobId]: value }
+  const byStep = new Map<number, Record<string, number>>();
+  for (const job of jobs) {
+    for (const point of job.metrics ?? []) {
+      const value = point[tab.key];
+      if (value === undefined) continue;
+      const row = byStep.get(point.step) ?? { step: point.step };
+      row[job.id] = value;
+      byStep.set(point.step, row);
+    }
+  }
+  const data = [...byStep.values()].sort((a, b) => a.step - b.step);
+
+  const diff = diffConfigs(jobs.map((job) => job.config));
+  const runLabel = (job: TrainingJob) => job.id.slice(-8);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-5xl bg-zinc-900 border-zinc-800">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5 text-blue-400" />
+            Compare Runs
+          </DialogTitle>
+          <DialogDescription>
+            Overlay metrics from {jobs.length} runs and see how their configurations differ
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-[1fr_320px] gap-4">
+          {/* Charts */}
+          <div className="flex flex-col min-w-0">
+            <div className="flex items-center gap-1 pb-2 border-b border-zinc-800">
+              {TABS.map((t) => (
+                <button
+                  key={t.id}
+                  onClick={() => setActiveTab(t.id)}
+                  className={cn(
+                    "px-3 py-1.5 text-xs font-medium rounded-md transition-colors",
+                    activeTab === t.id
+                      ? "bg-zinc-800 text-white"
+                      : "text-zinc-500 hover:text-zinc-300 hover:bg-zinc-800/50"
+                  )}
+                >
+                  {t.label}
+                </button>
+              ))}
+            </div>
+
+            <div className="h-80 pt-4">
+              {data.length === 0 ? (
+                <div className="flex h-full items-center justify-center text-sm text-muted-foreground">
+                  No {tab.label.toLowerCase()} recorded for these runs
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={data} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+                    <CartesianGrid strokeDasharray="3 3" stroke="#262626" />
+                    <XAxis dataKey="step" type="number" domain={["dataMin", "dataMax"]} stroke="#666" fontSize={11} tickLine={false} axisLine={{ stroke: "#262626" }} />
+                    <YAxis stroke="#666" fontSize={11} tickLine={false} axisLine={{ stroke: "#262626" }} tickFormatter={(v) => (activeTab === "lr" ? v.toExponential(1) : v.toFixed(2))} />
+                    <Tooltip
+                      contentStyle={{ backgroundColor: "#0a0a0a", border: "1px solid #262626", borderRadius: "8px", fontSize: "12px" }}
+                      labelStyle={{ color: "#a1a1a1" }}
+                      formatter={(value, name) => [value === undefined ? "N/A" : tab.format(value as number), name ?? ""]}
+                    />
+                    <Legend />
+                    {jobs.map((job, index) => (
+                      <Line
+                        key={job.id}
+                        type="monotone"
+                        dataKey={job.id}
+                        stroke={RUN_COLORS[index % RUN_COLORS.length]}
+                        strokeWidth={2}
+                        dot={false}
+                        name={`${runLabel(job)} (${job.config.mode.toUpperCase()})`}
+                        connectNulls
+                        isAnimationActive={false}
+                      />
+                    ))}
+                  </LineChart>
+                </ResponsiveContainer>
+              )}
+            </div>
+          </div>
+
+          {/* Config diff */}
+          <div className="flex flex-col min-w-0">
+            <div className="pb-2 border-b border-zinc-800 text-xs font-medium text-zinc-400 py-1.5">
+              Config differences
+            </div>
+            {diff.length === 0 ? (
+              <div className="flex h-80 items-center justify-center text-xs text-muted-foreground">
+                Configurations are identical
+              </div>
+            ) : (
+              <ScrollArea className="h-80 pt-2">
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-left text-zinc-500">
+                      <th className="py-1 pr-2 font-medium">Field</th>
+                      {jobs.map((job, index) => (
+                        <th
+                          key={job.id}
+                          className="py-1 pr-2 font-mono font-medium"
+                          style={{ color: RUN_COLORS[index % RUN_COLORS.length] }}
+                        >
+                          {runLabel(job)}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {diff.map((row) => (
+                      <tr key={row.path} className="border-t border-zinc-800/50 align-top">
+                        <td className="py-1 pr-2 font-mono text-zinc-400 break-all">{row.path}</td>
+                        {row.values.map((value, index) => (
+                          <td key={jobs[index].id} className="py-1 pr-2 font-mono break-all">
+                            {value}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </ScrollArea>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,9 +1,12 @@
 "use client";
 
+import { useState } from "react";
 import { useStudioStore } from "@/lib/store";
+import { DEFAULT_PROFILE_ID } from "@/lib/types";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import { RunComparison } from "./run-comparison";
 import {
   Dialog,
   DialogContent,
@@ -19,6 +22,10 @@ import {
   Loader2,
   RotateCcw,
   PlayCircle,
+  GitCompare,
+  Square,
+  CheckSquare,
+  UserCircle,
 } from "lucide-react";
 import { toast } from "sonner";
 
@@ -28,7 +35,29 @@ interface TrainingHistoryProps {
 }
 
 export function TrainingHistory({ open, onOpenChange }: TrainingHistoryProps) {
-  const { trainingHistory, loadConfig, setResumeFrom } = useStudioStore();
+  const { trainingHistory, loadConfig, setResumeFrom, settings } = useStudioStore();
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [showAllProfiles, setShowAllProfiles] = useState(false);
+
+  // History is scoped to the active profile unless all profiles are shown
+  const jobProfileId = (job: typeof trainingHistory[0]) => job.profileId ?? DEFAULT_PROFILE_ID;
+  const profileName = (job: typeof trainingHistory[0]) =>
+    settings.profiles.find((profile) => profile.id === jobProfileId(job))?.name ?? "Deleted profile";
+  const visibleHistory = showAllProfiles
+    ? trainingHistory
+    : trainingHistory.filter((job) => jobProfileId(job) === settings.activeProfileId);
+
+  const toggleSelected = (jobId: string) => {
+    setSelectedIds((ids) =>
+      ids.includes(jobId) ? ids.filter((id) => id !== jobId) : [...ids, jobId]
+    );
+  };
+
+  // Keep selection order so each run keeps its color in the comparison
+  const selectedJobs = selectedIds
+    .map((id) => trainingHistory.find((job) => job.id === id))
+    .filter((job): job is typeof trainingHistory[0] => !!job);
 
   const formatDuration = (startedAt?: number, completedAt?: number) => {
     if (!startedAt) return "-";
@@ -70,6 +99,8 @@ export function TrainingHistory({ open, onOpenChange }: TrainingHistoryProps) {
         return <XCircle className="h-4 w-4 text-red-400" />;
       case "running":
         return <Loader2 className="h-4 w-4 text-blue-400 animate-spin" />;
+      case "stopping":
+        return <Loader2 className="h-4 w-4 text-yellow-400 animate-spin" />;
       case "cancelled":
         return <XCircle className="h-4 w-4 text-yellow-400" />;
       default:
@@ -85,6 +116,7 @@ export function TrainingHistory({ open, onOpenChange }: TrainingHistoryProps) {
         return "text-red-400 border-red-400/30";
       case "running":
         return "text-blue-400 border-blue-400/30";
+      case "stopping":
       case "cancelled":
         return "text-yellow-400 border-yellow-400/30";
       default:
@@ -105,6 +137,10 @@ export function TrainingHistory({ open, onOpenChange }: TrainingHistoryProps) {
   const canResumeJob = (job: typeof trainingHistory[0]): boolean => {
     // Can resume if job failed/cancelled and has a checkpoint
     if (job.status !== "failed" && job.status !== "cancelled") return false;
+    // Resuming restarts the first stage, so later stages' checkpoints can't be used
+    if ((job.currentStage ?? 1) > 1) return false;
+    // Checkpoints live in the Tinker project of the job's profile
+    if (jobProfileId(job) !== settings.activeProfileId) return false;
     return (job.lastCheckpointStep ?? 0) > 0 && !!job.lastCheckpointLabel;
   };
 
@@ -134,7 +170,7 @@ export function TrainingHistory({ open, onOpenChange }: TrainingHistoryProps) {
   };
 
   // Sort by most recent first
-  const sortedHistory = [...trainingHistory].sort((a, b) => {
+  const sortedHistory = [...visibleHistory].sort((a, b) => {
     const aTime = a.startedAt || 0;
     const bTime = b.startedAt || 0;
     return bTime - aTime;
@@ -157,11 +193,32 @@ export function TrainingHistory({ open, onOpenChange }: TrainingHistoryProps) {
           {/* Stats */}
           <div className="flex items-center gap-4 text-sm">
             <Badge variant="outline" className="text-zinc-400 border-zinc-700">
-              {trainingHistory.length} runs
+              {visibleHistory.length} runs
             </Badge>
             <Badge variant="outline" className="text-green-400 border-green-400/30">
-              {trainingHistory.filter((j) => j.status === "completed").length} completed
+              {visibleHistory.filter((j) => j.status === "completed").length} completed
             </Badge>
+            {settings.profiles.length > 1 && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setShowAllProfiles(!showAllProfiles)}
+                className="h-7 px-2 text-xs text-zinc-400 hover:text-white"
+              >
+                <UserCircle className="h-3 w-3 mr-1" />
+                {showAllProfiles ? "All profiles" : "This profile"}
+              </Button>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setCompareOpen(true)}
+              disabled={selectedJobs.length < 2}
+              className="ml-auto h-7 px-2 text-xs text-zinc-400 hover:text-white"
+            >
+              <GitCompare className="h-3 w-3 mr-1" />
+              Compare{selectedJobs.length > 0 && ` (${selectedJobs.length})`}
+            </Button>
           </div>
 
           {/* History List */}
@@ -184,6 +241,17 @@ export function TrainingHistory({ open, onOpenChange }: TrainingHistoryProps) {
                     <div className="flex items-start justify-between">
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2">
+                          <button
+                            onClick={() => toggleSelected(job.id)}
+                            className="text-zinc-500 hover:text-zinc-300"
+                            title="Select for comparison"
+                          >
+                            {selectedIds.includes(job.id) ? (
+                              <CheckSquare className="h-4 w-4 text-blue-400" />
+                            ) : (
+                              <Square className="h-4 w-4" />
+                            )}
+                          </button>
                           {getStatusIcon(job.status)}
                           <span className="font-mono text-xs text-zinc-400 truncate">
                             {job.id}
@@ -199,11 +267,34 @@ export function TrainingHistory({ open, onOpenChange }: TrainingHistoryProps) {
                             className={
                               job.config.mode === "rl"
                                 ? "text-purple-400 border-purple-400/30"
+                                : job.config.mode === "dpo"
+                                ? "text-cyan-400 border-cyan-400/30"
                                 : "text-green-400 border-green-400/30"
                             }
                           >
-                            {job.config.mode.toUpperCase()}
+                            {[job.config.mode, ...(job.config.stages ?? []).map((stage) => stage.mode)]
+                              .map((mode) => mode.toUpperCase())
+                              .join(" → ")}
                           </Badge>
+                          {job.sweepId && (
+                            <Badge
+                              variant="outline"
+                              className="text-amber-400 border-amber-400/30"
+                              title={job.sweepId}
+                            >
+                              sweep
+                            </Badge>
+                          )}
+                          {settings.profiles.length > 1 && (
+                            <Badge variant="outline" className="text-sky-400 border-sky-400/30">
+                              {profileName(job)}
+                            </Badge>
+                          )}
+                          {job.retries ? (
+                            <Badge variant="outline" className="text-orange-400 border-orange-400/30">
+                              retried {job.retries}×
+                            </Badge>
+                          ) : null}
                         </div>
 
                         <div className="flex items-center gap-4 mt-2 text-xs text-zinc-500">
@@ -270,6 +361,9 @@ export function TrainingHistory({ open, onOpenChange }: TrainingHistoryProps) {
           )}
         </div>
       </DialogContent>
+
+      {/* Run Comparison Dialog */}
+      <RunComparison jobs={selectedJobs} open={compareOpen} onOpenChange={setCompareOpen} />
     </Dialog>
   );
 }
@@ -44,6 +44,8 @@ export function InferencePlayground() {
     setInferenceError,
     setSettingsOpen,
     setCheckpointBrowserOpen,
+    hasApiKey,
+    getActiveProfile,
   } = useStudioStore();
 
   const [inputValue, setInputValue] = useState("");
@@ -72,7 +74,7 @@ export function InferencePlayground() {
     }
 
     // Check for API key
-    if (!settings.apiKey) {
+    if (!hasApiKey()) {
       toast.error("Please configure your Tinker API key first", {
         action: {
           label: "Settings",
@@ -110,6 +112,7 @@ export function InferencePlayground() {
         },
         body: JSON.stringify({
           apiKey: settings.apiKey,
+          apiBase: getActiveProfile().apiBase,
           model: inference.config.model,
           messages: apiMessages,
           temperature: inference.config.temperature,
@@ -5,12 +5,14 @@ import { useStudioStore } from "@/lib/store";
 import { PipelineBlock } from "./pipeline-block";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Save, HelpCircle } from "lucide-react";
+import { DEFAULT_RETRY_POLICY } from "@/lib/types";
 
 interface CheckpointingConfigProps {
   isLast?: boolean;
@@ -18,13 +20,17 @@ interface CheckpointingConfigProps {
 
 export function CheckpointingConfig({ isLast }: CheckpointingConfigProps) {
   const [isExpanded, setIsExpanded] = useState(false);
-  const { config, setCheckpointing } = useStudioStore();
+  const { config, setCheckpointing, setRetryPolicy } = useStudioStore();
+  const retry = config.retry;
+  const retriesEnabled = (retry?.maxRetries ?? 0) > 0;
 
   return (
     <PipelineBlock
       icon={Save}
       title="Checkpointing"
-      subtitle={`Save every ${config.checkpointing.saveEvery} steps`}
+      subtitle={`Save every ${config.checkpointing.saveEvery} steps${
+        retriesEnabled ? `, ${retry?.maxRetries} retries` : ""
+      }`}
       isExpanded={isExpanded}
       onToggle={() => setIsExpanded(!isExpanded)}
       isLast={isLast}
@@ -84,6 +90,72 @@ export function CheckpointingConfig({ isLast }: CheckpointingConfigProps) {
             className="h-9 font-mono text-xs"
           />
         </div>
+
+        {/* Automatic Retries */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-1.5">
+            <Label className="text-xs">Automatic Retries</Label>
+            <Tooltip>
+              <TooltipTrigger>
+                <HelpCircle className="h-3 w-3 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent side="top" className="max-w-[250px]">
+                <p className="text-xs">
+                  Relaunch a crashed run from its latest checkpoint instead of
+                  failing the job. Stopping a job never triggers a retry.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Switch
+            checked={retriesEnabled}
+            onCheckedChange={(checked) =>
+              setRetryPolicy({ maxRetries: checked ? DEFAULT_RETRY_POLICY.maxRetries : 0 })
+            }
+          />
+        </div>
+
+        {retriesEnabled && retry && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label className="text-xs">Max Retries</Label>
+              <Input
+                type="number"
+                value={retry.maxRetries}
+                onChange={(e) => setRetryPolicy({ maxRetries: parseInt(e.target.value) || 0 })}
+                min={0}
+                max={10}
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center gap-1.5">
+                <Label className="text-xs">Backoff (s)</Label>
+                <Tooltip>
+                  <TooltipTrigger>
+                    <HelpCircle className="h-3 w-3 text-muted-foreground" />
+                  </TooltipTrigger>
+                  <TooltipContent side="top" className="max-w-[250px]">
+                    <p className="text-xs">
+                      Wait before the first retry. Doubles after each
+                      further failure.
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+              <Input
+                type="number"
+                value={retry.backoffSeconds}
+                onChange={(e) =>
+                  setRetryPolicy({ backoffSeconds: Math.max(0, parseInt(e.target.value) || 0) })
+                }
+                min={0}
+                step={5}
+                className="h-9"
+              />
+            </div>
+          </div>
+        )}
       </div>
     </PipelineBlock>
   );
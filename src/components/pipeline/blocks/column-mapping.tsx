@@ -0,0 +1,82 @@
+"use client";
+
+import { useStudioStore } from "@/lib/store";
+import { firstDatasetRow } from "@/lib/dataset-source";
+import { DatasetColumns } from "@/lib/types";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { HelpCircle } from "lucide-react";
+
+const COLUMN_FIELDS: Record<"sft" | "rl", { key: keyof DatasetColumns; label: string; placeholder: string }[]> = {
+  sft: [
+    { key: "prompt", label: "Prompt", placeholder: "instruction" },
+    { key: "response", label: "Response", placeholder: "response" },
+    { key: "messages", label: "Messages", placeholder: "messages" },
+  ],
+  rl: [
+    { key: "prompt", label: "Prompt", placeholder: "question" },
+    { key: "groundTruth", label: "Ground Truth", placeholder: "answer" },
+  ],
+};
+
+export function ColumnMapping() {
+  const { config, datasetPreview, setDataset } = useStudioStore();
+
+  if (config.mode === "dpo") return null;
+
+  const columns = config.dataset.columns ?? {};
+  const row = firstDatasetRow(config.dataset, datasetPreview);
+  const listId = "dataset-columns";
+
+  const setColumn = (key: keyof DatasetColumns, value: string) =>
+    setDataset({ columns: { ...columns, [key]: value || undefined } });
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1.5">
+        <Label className="text-xs">Column Mapping</Label>
+        <Tooltip>
+          <TooltipTrigger>
+            <HelpCircle className="h-3 w-3 text-muted-foreground" />
+          </TooltipTrigger>
+          <TooltipContent side="top" className="max-w-[280px]">
+            <p className="text-xs">
+              Leave empty to detect the row format from the usual column names.
+              Once any column is mapped, the script reads exactly these columns.
+              {config.mode === "sft" && " A messages column replaces prompt and response."}
+            </p>
+          </TooltipContent>
+        </Tooltip>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        {COLUMN_FIELDS[config.mode].map((field) => (
+          <div key={field.key} className="space-y-1">
+            <Label className="text-xs text-muted-foreground">{field.label}</Label>
+            <Input
+              type="text"
+              list={listId}
+              value={columns[field.key] ?? ""}
+              onChange={(e) => setColumn(field.key, e.target.value)}
+              placeholder={field.placeholder}
+              className="h-8 font-mono text-xs"
+            />
+          </div>
+        ))}
+      </div>
+
+      {row && (
+        <datalist id={listId}>
+          {Object.keys(row).map((column) => (
+            <option key={column} value={column} />
+          ))}
+        </datalist>
+      )}
+    </div>
+  );
+}
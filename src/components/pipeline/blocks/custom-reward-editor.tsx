@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import dynamic from "next/dynamic";
+import { useStudioStore } from "@/lib/store";
+import { RewardTestCase } from "@/lib/types";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
+import { FlaskConical, Loader2 } from "lucide-react";
+
+// Dynamic import Monaco to avoid SSR issues
+const Editor = dynamic(() => import("@monaco-editor/react"), { ssr: false });
+
+const CASE_LABELS: Record<RewardTestCase["kind"], string> = {
+  reference: "Dataset answer",
+  mismatched: "Other row's answer",
+  empty: "Empty response",
+};
+
+const HISTOGRAM_BINS = 10;
+
+function summarize(cases: RewardTestCase[]) {
+  const rewards = cases.flatMap((c) => (c.reward === undefined ? [] : [c.reward]));
+  return {
+    count: cases.length,
+    errors: cases.length - rewards.length,
+    mean: rewards.length ? rewards.reduce((a, b) => a + b, 0) / rewards.length : null,
+    min: rewards.length ? Math.min(...rewards) : null,
+    max: rewards.length ? Math.max(...rewards) : null,
+  };
+}
+
+function formatReward(value: number | null): string {
+  return value === null ? "—" : value.toFixed(2);
+}
+
+export function CustomRewardEditor() {
+  const { config, settings, setRLConfig, rewardTest, setRewardTest } = useStudioStore();
+  const [testing, setTesting] = useState(false);
+  const [requestError, setRequestError] = useState<string | null>(null);
+
+  const code = config.rl?.customReward ?? "";
+  // Results for older code stay visible but are marked stale
+  const isStale = rewardTest !== null && rewardTest.code !== code;
+
+  const handleTest = async () => {
+    setTesting(true);
+    setRequestError(null);
+
+    try {
+      const response = await fetch("/api/rewards/test", {
+        method: "POST",
+        // Without a key in the browser, the vault session cookie identifies the caller
+        headers: { "Content-Type": "application/json", "x-api-key": settings.apiKey },
+        body: JSON.stringify({ code, dataset: config.dataset }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setRewardTest(data.data);
+      } else {
+        setRequestError(data.error || "Failed to test reward function");
+      }
+    } catch {
+      setRequestError("Network error. Please check your connection.");
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const rewards = rewardTest?.cases.flatMap((c) => (c.reward === undefined ? [] : [c.reward])) ?? [];
+  const low = rewards.length ? Math.min(...rewards) : 0;
+  const high = rewards.length ? Math.max(...rewards) : 0;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, () => 0);
+  for (const reward of rewards) {
+    const bin = high > low ? Math.floor(((reward - low) / (high - low)) * HISTOGRAM_BINS) : 0;
+    bins[Math.min(bin, HISTOGRAM_BINS - 1)]++;
+  }
+  const tallest = Math.max(1, ...bins);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-xs">compute_reward(response, ground_truth)</Label>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleTest}
+          disabled={testing || !code.trim()}
+        >
+          {testing ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <FlaskConical className="h-3.5 w-3.5" />
+          )}
+          Test on sample rows
+        </Button>
+      </div>
+
+      <div className="overflow-hidden rounded-md border border-border">
+        <Editor
+          height={220}
+          language="python"
+          theme="vs-dark"
+          value={code}
+          onChange={(value) => setRLConfig({ customReward: value ?? "" })}
+          options={{
+            minimap: { enabled: false },
+            fontSize: 12,
+            fontFamily: "var(--font-geist-mono), monospace",
+            lineHeight: 1.5,
+            padding: { top: 8, bottom: 8 },
+            scrollBeyondLastLine: false,
+            tabSize: 4,
+            scrollbar: {
+              verticalScrollbarSize: 8,
+              horizontalScrollbarSize: 8,
+            },
+          }}
+        />
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Returns a float for each sampled response. Runs in a sandboxed process
+        against rows from the selected dataset; <code>re</code> and{" "}
+        <code>math</code> are available.
+      </p>
+
+      {requestError && <p className="text-xs text-red-400">{requestError}</p>}
+
+      {rewardTest && (
+        <div className={cn("space-y-2 rounded-lg border border-border p-3", isStale && "opacity-60")}>
+          <div className="flex items-center justify-between text-xs">
+            <span className="font-medium">Reward distribution</span>
+            <span className="text-muted-foreground">
+              {isStale ? "Code changed since this test" : `${rewardTest.rows} rows`}
+            </span>
+          </div>
+
+          {rewardTest.error ? (
+            <p className="text-xs text-red-400 font-mono whitespace-pre-wrap">{rewardTest.error}</p>
+          ) : (
+            <>
+              <table className="w-full text-xs">
+                <thead className="text-muted-foreground">
+                  <tr>
+                    <th className="text-left font-normal">Response</th>
+                    <th className="text-right font-normal">Mean</th>
+                    <th className="text-right font-normal">Min</th>
+                    <th className="text-right font-normal">Max</th>
+                    <th className="text-right font-normal">Errors</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {(Object.keys(CASE_LABELS) as RewardTestCase["kind"][]).map((kind) => {
+                    const stats = summarize(rewardTest.cases.filter((c) => c.kind === kind));
+                    return (
+                      <tr key={kind}>
+                        <td className="font-sans">{CASE_LABELS[kind]}</td>
+                        <td className="text-right">{formatReward(stats.mean)}</td>
+                        <td className="text-right">{formatReward(stats.min)}</td>
+                        <td className="text-right">{formatReward(stats.max)}</td>
+                        <td className={cn("text-right", stats.errors > 0 && "text-red-400")}>
+                          {stats.errors}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+
+              {rewards.length > 0 && (
+                <div>
+                  <div className="flex h-12 items-end gap-0.5">
+                    {bins.map((count, i) => (
+                      <div
+                        key={i}
+                        className="flex-1 rounded-t-sm bg-primary/60"
+                        style={{ height: `${(count / tallest) * 100}%` }}
+                        title={`${count} responses`}
+                      />
+                    ))}
+                  </div>
+                  <div className="flex justify-between text-[10px] text-muted-foreground font-mono">
+                    <span>{low.toFixed(2)}</span>
+                    <span>{high.toFixed(2)}</span>
+                  </div>
+                </div>
+              )}
+
+              {rewardTest.cases.find((c) => c.error) && (
+                <p className="text-xs text-red-400 font-mono truncate">
+                  {rewardTest.cases.find((c) => c.error)?.error}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
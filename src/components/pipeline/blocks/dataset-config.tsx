@@ -4,7 +4,14 @@ import { useState, useRef } from "react";
 import { useStudioStore } from "@/lib/store";
 import { DATASET_PRESETS } from "@/lib/types";
 import { PipelineBlock } from "./pipeline-block";
+import { PromptTemplateConfig } from "./prompt-template-config";
+import { ColumnMapping } from "./column-mapping";
+import { DatasetSample } from "./dataset-sample";
+import { DatasetMixture } from "./dataset-mixture";
+import { DatasetInspector } from "./dataset-inspector";
+import { getDatasetSource, isPresetDataset } from "@/lib/dataset-source";
 import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import {
   Select,
@@ -20,13 +27,16 @@ import {
 } from "@/components/ui/tooltip";
 import { Database, Upload, FileText, HelpCircle, AlertCircle, CheckCircle2 } from "lucide-react";
 
+// Select value for a Hugging Face dataset that isn't a preset
+const HUB_DATASET = "__hub__";
+
 interface DatasetConfigProps {
   isLast?: boolean;
 }
 
 interface ParsedDataset {
   count: number;
-  format: "messages" | "instruction" | "input_output" | "qa" | "unknown";
+  format: "messages" | "instruction" | "input_output" | "qa" | "preference" | "unknown";
   sample?: Record<string, unknown>;
   normalizedContent?: string;
 }
@@ -113,7 +123,9 @@ function parseDatasetFormat(
   const sample = items[0];
   let format: ParsedDataset["format"] = "unknown";
 
-  if (sample.messages && Array.isArray(sample.messages)) {
+  if (sample.chosen && sample.rejected) {
+    format = "preference";
+  } else if (sample.messages && Array.isArray(sample.messages)) {
     format = "messages";
   } else if (sample.instruction || sample.prompt) {
     format = "instruction";
@@ -141,6 +153,9 @@ export function DatasetConfig({ isLast }: DatasetConfigProps) {
 
   const presets = DATASET_PRESETS[config.mode];
   const selectedPreset = presets.find((d) => d.id === config.dataset.preset);
+  const isHubDataset = !isPresetDataset(config.dataset, config.mode);
+  // The preset's own source, shown as placeholders for the override fields
+  const defaultSource = getDatasetSource({ preset: config.dataset.preset });
 
   const handleFileUpload = (file: File) => {
     const reader = new FileReader();
@@ -199,6 +214,8 @@ export function DatasetConfig({ isLast }: DatasetConfigProps) {
         return "Input/Output format (Tinker docs style)";
       case "qa":
         return "QA format (question/answer)";
+      case "preference":
+        return "Preference format (prompt/chosen/rejected)";
       default:
         return "Unknown format";
     }
@@ -208,7 +225,7 @@ export function DatasetConfig({ isLast }: DatasetConfigProps) {
     <PipelineBlock
       icon={Database}
       title="Dataset"
-      subtitle={selectedPreset?.name ?? "Select a dataset"}
+      subtitle={selectedPreset?.name ?? (config.dataset.preset || "Select a dataset")}
       isExpanded={isExpanded}
       onToggle={() => setIsExpanded(!isExpanded)}
       isLast={isLast}
@@ -218,9 +235,16 @@ export function DatasetConfig({ isLast }: DatasetConfigProps) {
         <div className="space-y-2">
           <Label className="text-xs">Dataset</Label>
           <Select
-            value={config.dataset.preset}
+            value={isHubDataset ? HUB_DATASET : config.dataset.preset}
             onValueChange={(value) => {
-              setDataset({ preset: value });
+              // Source overrides and columns belong to the previous dataset
+              setDataset({
+                preset: value === HUB_DATASET ? "" : value,
+                subset: undefined,
+                split: undefined,
+                revision: undefined,
+                columns: undefined,
+              });
               if (value !== "custom") {
                 setParseError(null);
                 setParsedInfo(null);
@@ -241,10 +265,71 @@ export function DatasetConfig({ isLast }: DatasetConfigProps) {
                   </div>
                 </SelectItem>
               ))}
+              <SelectItem value={HUB_DATASET}>
+                <div className="flex flex-col items-start">
+                  <span>Other Hugging Face Dataset</span>
+                  <span className="text-xs text-muted-foreground">
+                    Any dataset on the Hub by ID
+                  </span>
+                </div>
+              </SelectItem>
             </SelectContent>
           </Select>
         </div>
 
+        {/* Hugging Face Dataset ID */}
+        {isHubDataset && (
+          <div className="space-y-2">
+            <Label className="text-xs">Dataset ID</Label>
+            <Input
+              type="text"
+              value={config.dataset.preset}
+              onChange={(e) => setDataset({ preset: e.target.value.trim() })}
+              placeholder="organization/dataset"
+              className="h-9 font-mono text-xs"
+            />
+          </div>
+        )}
+
+        {/* Subset / Split / Revision */}
+        {config.dataset.preset !== "custom" && (
+          <div className="space-y-2">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Subset</Label>
+                <Input
+                  type="text"
+                  value={config.dataset.subset ?? ""}
+                  onChange={(e) => setDataset({ subset: e.target.value || undefined })}
+                  placeholder={defaultSource.subset ?? "default"}
+                  className="h-8 font-mono text-xs"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Split</Label>
+                <Input
+                  type="text"
+                  value={config.dataset.split ?? ""}
+                  onChange={(e) => setDataset({ split: e.target.value || undefined })}
+                  placeholder={defaultSource.split}
+                  className="h-8 font-mono text-xs"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-xs text-muted-foreground">Revision</Label>
+                <Input
+                  type="text"
+                  value={config.dataset.revision ?? ""}
+                  onChange={(e) => setDataset({ revision: e.target.value || undefined })}
+                  placeholder="main"
+                  className="h-8 font-mono text-xs"
+                />
+              </div>
+            </div>
+            <DatasetSample />
+          </div>
+        )}
+
         {/* Dataset Info */}
         {selectedPreset && selectedPreset.id !== "custom" && (
           <div className="rounded-lg bg-muted/50 p-3">
@@ -254,6 +339,11 @@ export function DatasetConfig({ isLast }: DatasetConfigProps) {
                   This dataset contains instruction-response pairs for supervised fine-tuning.
                   The model will learn to generate responses that match the training examples.
                 </p>
+              ) : config.mode === "dpo" ? (
+                <p>
+                  This dataset contains prompts with a chosen and a rejected response.
+                  The model will learn to prefer the chosen response over the rejected one.
+                </p>
               ) : (
                 <p>
                   This dataset contains problems with verifiable answers.
@@ -288,6 +378,20 @@ export function DatasetConfig({ isLast }: DatasetConfigProps) {
                     <br />
                     {`{"instruction": "...", "response": "..."}`}
                   </code>
+                ) : config.mode === "dpo" ? (
+                  <code className="block bg-black/30 rounded p-2 mt-1 text-[10px]">
+                    <span className="text-muted-foreground">JSON Array:</span>
+                    <br />
+                    {`[{"prompt": "...", "chosen": "...", "rejected": "..."}]`}
+                    <br />
+                    <span className="text-muted-foreground mt-2 block">JSONL (one per line):</span>
+                    {`{"prompt": "Say hi", "chosen": "Hello! How can I help?", "rejected": "no"}`}
+                    <br />
+                    {`{"prompt": "...", "chosen": "...", "rejected": "..."}`}
+                    <br />
+                    <span className="text-muted-foreground mt-2 block">Also supports:</span>
+                    {`{"chosen": [{"role": "user", ...}, {"role": "assistant", ...}], "rejected": [...]}`}
+                  </code>
                 ) : (
                   <code className="block bg-black/30 rounded p-2 mt-1 text-[10px]">
                     <span className="text-muted-foreground">JSON Array:</span>
@@ -392,6 +496,8 @@ export function DatasetConfig({ isLast }: DatasetConfigProps) {
                 placeholder={
                   config.mode === "sft"
                     ? '{"input": "banana split", "output": "anana-bay plit-say"}\n{"input": "...", "output": "..."}'
+                    : config.mode === "dpo"
+                    ? '{"prompt": "Say hi", "chosen": "Hello! How can I help?", "rejected": "no"}\n{"prompt": "...", "chosen": "...", "rejected": "..."}'
                     : '{"question": "What is 2+2?", "answer": "4"}\n{"question": "...", "answer": "..."}'
                 }
                 value={config.dataset.customData || ""}
@@ -409,6 +515,20 @@ export function DatasetConfig({ isLast }: DatasetConfigProps) {
             </div>
           </div>
         )}
+
+        {/* Weighted Mixture */}
+        <DatasetMixture />
+
+        {/* Column Mapping and Prompt Template (DPO rows are already conversations) */}
+        {config.mode !== "dpo" && (
+          <>
+            <ColumnMapping />
+            <PromptTemplateConfig />
+          </>
+        )}
+
+        {/* Tokenization and loss weights (SFT trains on a per-token mask) */}
+        {config.mode === "sft" && <DatasetInspector />}
       </div>
     </PipelineBlock>
   );
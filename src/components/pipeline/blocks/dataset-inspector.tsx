@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { useStudioStore } from "@/lib/store";
+import { DatasetInspection, InspectedRow } from "@/lib/types";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { HelpCircle, Loader2, FlaskConical } from "lucide-react";
+
+const INSPECT_ROWS = 3;
+
+/**
+ * Tokenizes a few rows of the SFT dataset on the server with the model's
+ * tokenizer and shows which tokens the loss trains on and where maxLength
+ * cuts the sequence.
+ */
+export function DatasetInspector() {
+  const { config, settings } = useStudioStore();
+  const [inspection, setInspection] = useState<DatasetInspection | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [inspectError, setInspectError] = useState<string | null>(null);
+
+  // Everything the tokens depend on; results for other settings are flagged
+  const source = JSON.stringify([config.dataset, config.prompt, config.model]);
+  const stale = inspection !== null && inspection.source !== source;
+
+  const handleInspect = async () => {
+    setLoading(true);
+    setInspectError(null);
+
+    try {
+      const response = await fetch("/api/datasets/inspect", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-api-key": settings.apiKey },
+        body: JSON.stringify({ config, count: INSPECT_ROWS }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setInspection({ source, rows: data.data.rows });
+      } else {
+        setInspectError(data.error || "Inspection failed");
+      }
+    } catch {
+      setInspectError("Network error. Please check your connection.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1.5">
+          <Label className="text-xs">Token Inspector</Label>
+          <Tooltip>
+            <TooltipTrigger>
+              <HelpCircle className="h-3 w-3 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-[280px]">
+              <p className="text-xs">
+                Tokenizes the first rows with the model&apos;s tokenizer and chat
+                template, using the training script&apos;s own formatting code.
+                Highlighted tokens have a non-zero loss weight; struck-out tokens
+                are cut by Max Sequence Length.
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleInspect}
+          disabled={loading || !config.dataset.preset.trim()}
+        >
+          {loading ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <FlaskConical className="h-3.5 w-3.5" />
+          )}
+          {inspection ? "Inspect again" : "Inspect tokens"}
+        </Button>
+      </div>
+
+      {inspectError && <p className="text-xs text-red-400">{inspectError}</p>}
+
+      {inspection && (
+        <div className={`space-y-2 ${stale ? "opacity-60" : ""}`}>
+          {stale && (
+            <p className="text-xs text-yellow-400">
+              The dataset, prompt or model changed since this inspection.
+            </p>
+          )}
+          <div className="flex gap-3 text-[10px] text-muted-foreground">
+            <span className="rounded-sm bg-green-500/20 px-1 text-green-300">trained</span>
+            <span className="rounded-sm bg-muted px-1">not trained</span>
+            <span className="rounded-sm px-1 line-through">truncated</span>
+          </div>
+          {inspection.rows.map((row, index) => (
+            <InspectedRowView key={index} row={row} index={index} maxLength={config.model.maxLength} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function InspectedRowView({ row, index, maxLength }: { row: InspectedRow; index: number; maxLength: number }) {
+  if (row.error) {
+    return (
+      <div className="rounded-lg border border-border p-2 text-xs">
+        <span className="text-muted-foreground">Row {index + 1}: </span>
+        <span className="text-red-400">skipped by the script ({row.error})</span>
+      </div>
+    );
+  }
+
+  const cut = row.total - row.kept;
+  const hidden = row.total - row.pieces.length;
+
+  return (
+    <div className="space-y-1.5 rounded-lg border border-border p-2">
+      <div className="flex items-center justify-between text-[10px] text-muted-foreground">
+        <span>Row {index + 1}</span>
+        <span className="font-mono">
+          {row.total} tokens · {row.trained} trained
+        </span>
+      </div>
+
+      {cut > 0 && (
+        <p className="text-xs text-yellow-400">
+          Truncated at {maxLength}: {cut} tokens cut
+          {row.trainedCut > 0 && `, ${row.trainedCut} of them trained`}
+        </p>
+      )}
+      {row.trained === 0 && (
+        <p className="text-xs text-yellow-400">No kept token is trained, so this row adds no signal.</p>
+      )}
+
+      <div className="max-h-48 overflow-auto whitespace-pre-wrap break-all rounded bg-muted/30 p-1.5 font-mono text-[11px] leading-5">
+        {row.pieces.map((piece, i) => (
+          <span
+            key={i}
+            title={`#${i} · weight ${row.weights[i]}`}
+            className={[
+              "rounded-sm",
+              row.weights[i] !== 0
+                ? i % 2 ? "bg-green-500/30 text-green-200" : "bg-green-500/20 text-green-300"
+                : i % 2 ? "bg-muted text-muted-foreground" : "text-muted-foreground",
+              i >= row.kept ? "line-through opacity-50" : "",
+            ].join(" ")}
+          >
+            {piece}
+          </span>
+        ))}
+        {hidden > 0 && <span className="text-muted-foreground"> … {hidden} more tokens</span>}
+      </div>
+    </div>
+  );
+}
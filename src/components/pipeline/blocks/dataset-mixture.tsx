@@ -0,0 +1,156 @@
+"use client";
+
+import { useStudioStore } from "@/lib/store";
+import { MixtureSource } from "@/lib/types";
+import { getDatasetSource, getMixtureSources } from "@/lib/dataset-source";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { HelpCircle, Plus, X } from "lucide-react";
+
+export function DatasetMixture() {
+  const { config, setDataset } = useStudioStore();
+
+  const sources = getMixtureSources(config.dataset);
+  const mixed = sources.length > 1;
+  const totalWeight = sources.reduce((sum, source) => sum + (source.weight > 0 ? source.weight : 0), 0);
+
+  const update = (next: MixtureSource[]) => {
+    const [primary, ...rest] = next;
+    // A lone source is just the dataset above, so its weight and cap are dropped
+    setDataset(
+      rest.length > 0
+        ? { weight: primary.weight, maxExamples: primary.maxExamples, mixture: rest }
+        : { weight: undefined, maxExamples: undefined, mixture: undefined }
+    );
+  };
+
+  const updateSource = (index: number, changes: Partial<MixtureSource>) =>
+    update(sources.map((source, i) => (i === index ? { ...source, ...changes } : source)));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1.5">
+          <Label className="text-xs">Mixture</Label>
+          <Tooltip>
+            <TooltipTrigger>
+              <HelpCircle className="h-3 w-3 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-[280px]">
+              <p className="text-xs">
+                Interleave other Hugging Face datasets with this one, sampling
+                each by its weight until one runs out. Sources are shuffled with
+                a fixed seed, cut to the columns they share, and capped at their
+                max examples. The script logs the realized mix.
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => update([...sources, { preset: "", weight: 1 }])}
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add source
+        </Button>
+      </div>
+
+      {mixed &&
+        sources.map((source, index) => (
+          <div key={index} className="space-y-1.5 rounded-lg border border-border p-2">
+            <div className="flex items-center gap-2">
+              {index === 0 ? (
+                // The first source is the dataset selected above
+                <div className="flex h-8 min-w-0 flex-1 items-center truncate rounded-md border border-border px-3 font-mono text-xs text-muted-foreground">
+                  {source.preset === "custom" ? "Custom dataset" : source.preset || "This dataset"}
+                </div>
+              ) : (
+                <Input
+                  type="text"
+                  value={source.preset}
+                  onChange={(e) => updateSource(index, { preset: e.target.value.trim() })}
+                  placeholder="organization/dataset"
+                  className="h-8 flex-1 font-mono text-xs"
+                />
+              )}
+              <span className="w-10 shrink-0 text-right text-[10px] text-muted-foreground">
+                {totalWeight > 0 && source.weight > 0
+                  ? `${Math.round((source.weight / totalWeight) * 100)}%`
+                  : "-"}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon-sm"
+                onClick={() => update(sources.filter((_, i) => i !== index))}
+                disabled={index === 0}
+                className="shrink-0"
+              >
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+
+            <div className={`grid gap-2 ${index === 0 ? "grid-cols-2" : "grid-cols-4"}`}>
+              {index > 0 && (
+                <>
+                  <div className="space-y-1">
+                    <Label className="text-[10px] text-muted-foreground">Subset</Label>
+                    <Input
+                      type="text"
+                      value={source.subset ?? ""}
+                      onChange={(e) => updateSource(index, { subset: e.target.value || undefined })}
+                      placeholder="default"
+                      className="h-8 font-mono text-xs"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label className="text-[10px] text-muted-foreground">Split</Label>
+                    <Input
+                      type="text"
+                      value={source.split ?? ""}
+                      onChange={(e) => updateSource(index, { split: e.target.value || undefined })}
+                      placeholder={getDatasetSource({ preset: source.preset }).split}
+                      className="h-8 font-mono text-xs"
+                    />
+                  </div>
+                </>
+              )}
+              <div className="space-y-1">
+                <Label className="text-[10px] text-muted-foreground">Weight</Label>
+                <Input
+                  type="number"
+                  value={source.weight}
+                  onChange={(e) => {
+                    const weight = parseFloat(e.target.value);
+                    updateSource(index, { weight: Number.isFinite(weight) ? weight : 0 });
+                  }}
+                  min={0}
+                  step={0.1}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label className="text-[10px] text-muted-foreground">Max Examples</Label>
+                <Input
+                  type="number"
+                  value={source.maxExamples ?? ""}
+                  onChange={(e) =>
+                    updateSource(index, { maxExamples: parseInt(e.target.value) || undefined })
+                  }
+                  min={1}
+                  placeholder="All"
+                  className="h-8 text-xs"
+                />
+              </div>
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useState } from "react";
+import { useStudioStore } from "@/lib/store";
+import { datasetSourceKey, firstDatasetRow } from "@/lib/dataset-source";
+import { Button } from "@/components/ui/button";
+import { Loader2, RefreshCw } from "lucide-react";
+
+/**
+ * Fetches the first rows of a hosted dataset into the store, where the column
+ * mapping and prompt template previews read them.
+ */
+export function DatasetSample() {
+  const { config, settings, datasetPreview, setDatasetPreview } = useStudioStore();
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  const row = firstDatasetRow(config.dataset, datasetPreview);
+
+  const handleLoad = async () => {
+    setLoading(true);
+    setLoadError(null);
+
+    try {
+      const response = await fetch("/api/datasets/rows", {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "x-api-key": settings.apiKey },
+        body: JSON.stringify({ dataset: config.dataset, count: 5 }),
+      });
+      const data = await response.json();
+
+      if (data.success && data.data.rows.length > 0) {
+        setDatasetPreview({ source: datasetSourceKey(config.dataset), rows: data.data.rows });
+      } else {
+        setLoadError(data.error || "The dataset returned no rows");
+      }
+    } catch {
+      setLoadError("Network error. Please check your connection.");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between gap-2">
+        <p className="min-w-0 text-[10px] text-muted-foreground font-mono break-words">
+          {row ? `Columns: ${Object.keys(row).join(", ")}` : "Load a sample row to see the columns."}
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleLoad}
+          disabled={loading || !config.dataset.preset.trim()}
+          className="shrink-0"
+        >
+          {loading ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" />
+          ) : (
+            <RefreshCw className="h-3.5 w-3.5" />
+          )}
+          {row ? "Reload" : "Load sample"}
+        </Button>
+      </div>
+      {loadError && <p className="text-xs text-red-400">{loadError}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,171 @@
+"use client";
+
+import { useState } from "react";
+import { useStudioStore } from "@/lib/store";
+import { PipelineBlock } from "./pipeline-block";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { Scale, HelpCircle } from "lucide-react";
+
+interface DPOConfigProps {
+  isLast?: boolean;
+}
+
+export function DPOConfig({ isLast }: DPOConfigProps) {
+  const [isExpanded, setIsExpanded] = useState(true);
+  const { config, checkpoints, setDPOConfig } = useStudioStore();
+
+  const dpo = config.dpo;
+  if (!dpo) return null;
+
+  const samplerCheckpoints = checkpoints.filter((c) => c.checkpointType === "sampler");
+
+  return (
+    <PipelineBlock
+      icon={Scale}
+      title="Preference Settings (DPO)"
+      subtitle={`β=${dpo.beta}, ${dpo.referenceModel === "base" ? "base model reference" : "checkpoint reference"}`}
+      isExpanded={isExpanded}
+      onToggle={() => setIsExpanded(!isExpanded)}
+      isLast={isLast}
+    >
+      <div className="space-y-4">
+        {/* Info Banner */}
+        <div className="rounded-lg bg-blue-500/10 border border-blue-500/20 p-3">
+          <p className="text-xs text-blue-400">
+            Using Direct Preference Optimization (DPO). The model learns to prefer
+            chosen over rejected responses while staying close to a frozen reference policy.
+          </p>
+        </div>
+
+        {/* Beta */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-1.5">
+              <Label className="text-xs">Beta</Label>
+              <Tooltip>
+                <TooltipTrigger>
+                  <HelpCircle className="h-3 w-3 text-muted-foreground" />
+                </TooltipTrigger>
+                <TooltipContent side="top" className="max-w-[250px]">
+                  <p className="text-xs">
+                    Strength of the implicit KL penalty to the reference model.
+                    Lower = follows preferences more aggressively.
+                    0.1 is the standard starting point.
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <span className="text-xs font-mono text-muted-foreground">{dpo.beta}</span>
+          </div>
+          <Slider
+            value={[dpo.beta]}
+            onValueChange={([v]) => setDPOConfig({ beta: v })}
+            min={0.01}
+            max={1}
+            step={0.01}
+            className="w-full"
+          />
+        </div>
+
+        {/* Reference Model */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-1.5">
+            <Label className="text-xs">Reference Model</Label>
+            <Tooltip>
+              <TooltipTrigger>
+                <HelpCircle className="h-3 w-3 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent side="top" className="max-w-[280px]">
+                <p className="text-xs">
+                  Frozen policy the log-ratios are measured against.
+                  <br />• Fresh run → Base model
+                  <br />• After SFT → the SFT sampler checkpoint
+                  <br />• Pipeline stage started from the previous one → that
+                  stage&apos;s result, unless a checkpoint is chosen
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Select
+            value={dpo.referenceModel}
+            onValueChange={(value) =>
+              setDPOConfig({ referenceModel: value as "base" | "checkpoint" })
+            }
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="base">
+                <div className="flex flex-col items-start">
+                  <span>Base Model</span>
+                  <span className="text-xs text-muted-foreground">
+                    Frozen copy of the selected base model
+                  </span>
+                </div>
+              </SelectItem>
+              <SelectItem value="checkpoint">
+                <div className="flex flex-col items-start">
+                  <span>Sampler Checkpoint</span>
+                  <span className="text-xs text-muted-foreground">
+                    A tinker:// sampler_weights path, e.g. from SFT
+                  </span>
+                </div>
+              </SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Reference Checkpoint Path */}
+        {dpo.referenceModel === "checkpoint" && (
+          <div className="space-y-2">
+            <Label className="text-xs">Reference Checkpoint</Label>
+            {samplerCheckpoints.length > 0 && (
+              <Select
+                value={dpo.referenceCheckpointPath ?? ""}
+                onValueChange={(value) => setDPOConfig({ referenceCheckpointPath: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a sampler checkpoint" />
+                </SelectTrigger>
+                <SelectContent>
+                  {samplerCheckpoints.map((checkpoint) => (
+                    <SelectItem key={checkpoint.path} value={checkpoint.path}>
+                      <div className="flex flex-col items-start">
+                        <span>{checkpoint.name}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {checkpoint.baseModel}
+                        </span>
+                      </div>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+            <Input
+              type="text"
+              value={dpo.referenceCheckpointPath ?? ""}
+              onChange={(e) => setDPOConfig({ referenceCheckpointPath: e.target.value })}
+              placeholder="tinker://.../sampler_weights/final"
+              className="h-9 font-mono text-xs"
+            />
+          </div>
+        )}
+      </div>
+    </PipelineBlock>
+  );
+}
@@ -0,0 +1,198 @@
+"use client";
+
+import { useState } from "react";
+import { useStudioStore } from "@/lib/store";
+import { PipelineBlock } from "./pipeline-block";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { ClipboardCheck, HelpCircle } from "lucide-react";
+
+interface EvalConfigProps {
+  isLast?: boolean;
+}
+
+export function EvalConfig({ isLast }: EvalConfigProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { config, setEvalConfig } = useStudioStore();
+
+  const evalConfig = config.eval;
+  const enabled = evalConfig?.enabled ?? false;
+
+  return (
+    <PipelineBlock
+      icon={ClipboardCheck}
+      title="Evaluation"
+      subtitle={
+        enabled && evalConfig
+          ? `${
+              evalConfig.source === "split"
+                ? `${evalConfig.splitFraction * 100}% held out`
+                : evalConfig.dataset?.split("/").pop() || "No dataset"
+            }, every ${evalConfig.everySteps} steps`
+          : "Off"
+      }
+      isExpanded={isExpanded}
+      onToggle={() => setIsExpanded(!isExpanded)}
+      isLast={isLast}
+    >
+      <div className="space-y-4">
+        {/* Enable */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-1.5">
+            <Label className="text-xs">Validation Loss</Label>
+            <Tooltip>
+              <TooltipTrigger>
+                <HelpCircle className="h-3 w-3 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent side="top" className="max-w-[250px]">
+                <p className="text-xs">
+                  Periodically compute loss on held-out data (forward pass only).
+                  Eval loss rising while training loss falls means overfitting.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Switch
+            checked={enabled}
+            onCheckedChange={(checked) => setEvalConfig({ enabled: checked })}
+          />
+        </div>
+
+        {enabled && evalConfig && (
+          <>
+            {/* Source */}
+            <div className="space-y-2">
+              <Label className="text-xs">Eval Data</Label>
+              <Select
+                value={evalConfig.source}
+                onValueChange={(value) => setEvalConfig({ source: value as "split" | "dataset" })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="split">
+                    <div className="flex flex-col items-start">
+                      <span>Held-out Split</span>
+                      <span className="text-xs text-muted-foreground">
+                        Set aside part of the training dataset
+                      </span>
+                    </div>
+                  </SelectItem>
+                  <SelectItem value="dataset">
+                    <div className="flex flex-col items-start">
+                      <span>Separate Dataset</span>
+                      <span className="text-xs text-muted-foreground">
+                        A HuggingFace dataset split, e.g. test
+                      </span>
+                    </div>
+                  </SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {evalConfig.source === "split" ? (
+              <div className="space-y-2">
+                <Label className="text-xs">Held-out Fraction</Label>
+                <Input
+                  type="number"
+                  value={evalConfig.splitFraction}
+                  onChange={(e) =>
+                    setEvalConfig({ splitFraction: parseFloat(e.target.value) || 0.05 })
+                  }
+                  min={0.01}
+                  max={0.5}
+                  step={0.01}
+                  className="h-9"
+                />
+              </div>
+            ) : (
+              <div className="grid grid-cols-[1fr_96px] gap-3">
+                <div className="space-y-2">
+                  <Label className="text-xs">Dataset</Label>
+                  <Input
+                    type="text"
+                    value={evalConfig.dataset ?? ""}
+                    onChange={(e) => setEvalConfig({ dataset: e.target.value })}
+                    placeholder="HuggingFaceH4/no_robots"
+                    className="h-9 font-mono text-xs"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs">Split</Label>
+                  <Input
+                    type="text"
+                    value={evalConfig.datasetSplit}
+                    onChange={(e) => setEvalConfig({ datasetSplit: e.target.value })}
+                    placeholder="test"
+                    className="h-9 font-mono text-xs"
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Frequency & Size */}
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label className="text-xs">Every N Steps</Label>
+                <Input
+                  type="number"
+                  value={evalConfig.everySteps}
+                  onChange={(e) => setEvalConfig({ everySteps: parseInt(e.target.value) || 25 })}
+                  min={1}
+                  className="h-9"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs">Batch Size</Label>
+                <Input
+                  type="number"
+                  value={evalConfig.batchSize}
+                  onChange={(e) => setEvalConfig({ batchSize: parseInt(e.target.value) || 32 })}
+                  min={1}
+                  className="h-9"
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center gap-1.5">
+                  <Label className="text-xs">Max Batches</Label>
+                  <Tooltip>
+                    <TooltipTrigger>
+                      <HelpCircle className="h-3 w-3 text-muted-foreground" />
+                    </TooltipTrigger>
+                    <TooltipContent side="top" className="max-w-[250px]">
+                      <p className="text-xs">
+                        Score the same fixed subset at every evaluation.
+                        0 evaluates the whole eval set.
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                </div>
+                <Input
+                  type="number"
+                  value={evalConfig.maxBatches}
+                  onChange={(e) => setEvalConfig({ maxBatches: Math.max(0, parseInt(e.target.value) || 0) })}
+                  min={0}
+                  className="h-9"
+                />
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </PipelineBlock>
+  );
+}
@@ -6,12 +6,25 @@ import { PipelineBlock } from "./pipeline-block";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import {
   Tooltip,
   TooltipContent,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { Settings2, HelpCircle } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer } from "recharts";
+import { LR_SCHEDULERS, LRScheduler } from "@/lib/types";
+import { estimateTotalSteps, getLRMultiplier } from "@/lib/lr-schedule";
+
+// Points drawn in the schedule preview, regardless of run length
+const PREVIEW_POINTS = 100;
 
 interface HyperparametersConfigProps {
   isLast?: boolean;
@@ -26,11 +39,22 @@ export function HyperparametersConfig({ isLast }: HyperparametersConfigProps) {
     return lr.toExponential(0);
   };
 
+  const hp = config.hyperparameters;
+
+  // Preview the schedule over the run's estimated length (or a nominal 100 steps)
+  const estimatedSteps = estimateTotalSteps(config);
+  const totalSteps = estimatedSteps && estimatedSteps > 0 ? estimatedSteps : 100;
+  const warmupSteps = Math.floor(totalSteps * hp.warmupRatio);
+  const schedulePreview = Array.from({ length: PREVIEW_POINTS + 1 }, (_, i) => {
+    const step = Math.round((i / PREVIEW_POINTS) * totalSteps);
+    return { step, lr: hp.learningRate * getLRMultiplier(step, totalSteps, warmupSteps, hp) };
+  });
+
   return (
     <PipelineBlock
       icon={Settings2}
       title="Hyperparameters"
-      subtitle={`LR: ${formatLR(config.hyperparameters.learningRate)}, Batch: ${config.hyperparameters.batchSize}`}
+      subtitle={`LR: ${formatLR(config.hyperparameters.learningRate)} (${hp.scheduler.replace("_", " ")}), Batch: ${config.hyperparameters.batchSize}`}
       isExpanded={isExpanded}
       onToggle={() => setIsExpanded(!isExpanded)}
       isLast={isLast}
@@ -164,6 +188,193 @@ export function HyperparametersConfig({ isLast }: HyperparametersConfigProps) {
           />
         </div>
 
+        {/* LR Schedule */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-1.5">
+            <Label className="text-xs">LR Schedule</Label>
+            <Tooltip>
+              <TooltipTrigger>
+                <HelpCircle className="h-3 w-3 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent side="top" className="max-w-[250px]">
+                <p className="text-xs">
+                  How the learning rate decays after warmup.
+                  Cosine is a robust default for fine-tuning.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Select
+            value={hp.scheduler}
+            onValueChange={(value) => setHyperparameters({ scheduler: value as LRScheduler })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LR_SCHEDULERS.map((scheduler) => (
+                <SelectItem key={scheduler.id} value={scheduler.id}>
+                  <div className="flex flex-col items-start">
+                    <span>{scheduler.name}</span>
+                    <span className="text-xs text-muted-foreground">{scheduler.description}</span>
+                  </div>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {hp.scheduler !== "constant" && (
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <div className="flex items-center gap-1.5">
+                <Label className="text-xs">Min LR Ratio</Label>
+                <Tooltip>
+                  <TooltipTrigger>
+                    <HelpCircle className="h-3 w-3 text-muted-foreground" />
+                  </TooltipTrigger>
+                  <TooltipContent side="top" className="max-w-[250px]">
+                    <p className="text-xs">
+                      Lowest learning rate the schedule decays to, as a fraction of the peak.
+                      0 decays all the way to zero.
+                    </p>
+                  </TooltipContent>
+                </Tooltip>
+              </div>
+              <Input
+                type="number"
+                value={hp.minLrRatio}
+                onChange={(e) => setHyperparameters({ minLrRatio: parseFloat(e.target.value) || 0 })}
+                min={0}
+                max={1}
+                step={0.05}
+                className="h-9"
+              />
+            </div>
+            {hp.scheduler === "cosine_restarts" && (
+              <div className="space-y-2">
+                <Label className="text-xs">Cycles</Label>
+                <Input
+                  type="number"
+                  value={hp.numCycles}
+                  onChange={(e) => setHyperparameters({ numCycles: parseInt(e.target.value) || 1 })}
+                  min={1}
+                  max={10}
+                  className="h-9"
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Schedule Preview */}
+        <div className="space-y-1">
+          <div className="h-20 rounded-md border border-border bg-muted/30 px-1 pt-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={schedulePreview} margin={{ top: 2, right: 4, left: 4, bottom: 2 }}>
+                <XAxis dataKey="step" hide />
+                <YAxis hide domain={[0, "dataMax"]} />
+                <Line type="monotone" dataKey="lr" stroke="#f59e0b" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="flex justify-between text-[10px] text-muted-foreground">
+            <span>0</span>
+            <span>{estimatedSteps ? `${totalSteps} steps` : "~100 steps (dataset size unknown)"}</span>
+          </div>
+        </div>
+
+        {/* Optimizer */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-1.5">
+            <Label className="text-xs">Adam Optimizer</Label>
+            <Tooltip>
+              <TooltipTrigger>
+                <HelpCircle className="h-3 w-3 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent side="top" className="max-w-[250px]">
+                <p className="text-xs">
+                  Moment decay rates (β1, β2), numerical epsilon and decoupled weight decay.
+                  The defaults suit most LoRA runs.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <div className="grid grid-cols-4 gap-2">
+            <div className="space-y-1">
+              <span className="text-[10px] text-muted-foreground">β1</span>
+              <Input
+                type="number"
+                value={hp.beta1}
+                onChange={(e) => setHyperparameters({ beta1: parseFloat(e.target.value) || 0 })}
+                min={0}
+                max={0.999}
+                step={0.01}
+                className="h-8 font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-[10px] text-muted-foreground">β2</span>
+              <Input
+                type="number"
+                value={hp.beta2}
+                onChange={(e) => setHyperparameters({ beta2: parseFloat(e.target.value) || 0 })}
+                min={0}
+                max={0.9999}
+                step={0.001}
+                className="h-8 font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-[10px] text-muted-foreground">ε</span>
+              <Input
+                type="number"
+                value={hp.eps}
+                onChange={(e) => setHyperparameters({ eps: parseFloat(e.target.value) || 1e-8 })}
+                step={1e-9}
+                className="h-8 font-mono text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <span className="text-[10px] text-muted-foreground">Weight decay</span>
+              <Input
+                type="number"
+                value={hp.weightDecay}
+                onChange={(e) => setHyperparameters({ weightDecay: parseFloat(e.target.value) || 0 })}
+                min={0}
+                step={0.01}
+                className="h-8 font-mono text-xs"
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Gradient Clipping */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-1.5">
+            <Label className="text-xs">Gradient Clipping (max norm)</Label>
+            <Tooltip>
+              <TooltipTrigger>
+                <HelpCircle className="h-3 w-3 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent side="top" className="max-w-[250px]">
+                <p className="text-xs">
+                  Rescale gradients whose global norm exceeds this value.
+                  1.0 is common; 0 disables clipping.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <Input
+            type="number"
+            value={hp.gradClipNorm}
+            onChange={(e) => setHyperparameters({ gradClipNorm: parseFloat(e.target.value) || 0 })}
+            min={0}
+            step={0.1}
+            className="h-9"
+          />
+        </div>
+
         {/* Gradient Accumulation */}
         <div className="space-y-2">
           <div className="flex items-center gap-1.5">
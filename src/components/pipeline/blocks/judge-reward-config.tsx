@@ -0,0 +1,154 @@
+"use client";
+
+import { useStudioStore } from "@/lib/store";
+import { DEFAULT_JUDGE_CONFIG } from "@/lib/rewards";
+import { PipelineConfig } from "@/lib/types";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { HelpCircle } from "lucide-react";
+
+type JudgeConfig = NonNullable<NonNullable<PipelineConfig["rl"]>["judge"]>;
+
+export function JudgeRewardConfig() {
+  const { config, checkpoints, setRLConfig } = useStudioStore();
+
+  const judge = config.rl?.judge ?? DEFAULT_JUDGE_CONFIG;
+  const samplerCheckpoints = checkpoints.filter((c) => c.checkpointType === "sampler");
+
+  const setJudge = (updates: Partial<JudgeConfig>) =>
+    setRLConfig({ judge: { ...judge, ...updates } });
+
+  return (
+    <div className="space-y-4">
+      {/* Judge Model */}
+      <div className="space-y-2">
+        <div className="flex items-center gap-1.5">
+          <Label className="text-xs">Judge Model</Label>
+          <Tooltip>
+            <TooltipTrigger>
+              <HelpCircle className="h-3 w-3 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-[280px]">
+              <p className="text-xs">
+                Model that rates each sampled response, prompted with its own
+                tokenizer and chat template. Identical responses to the same
+                prompt are only judged once.
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+        <Select
+          value={judge.model}
+          onValueChange={(value) => setJudge({ model: value as JudgeConfig["model"] })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="base">
+              <div className="flex flex-col items-start">
+                <span>Base Model</span>
+                <span className="text-xs text-muted-foreground">
+                  Frozen copy of the selected base model
+                </span>
+              </div>
+            </SelectItem>
+            <SelectItem value="checkpoint">
+              <div className="flex flex-col items-start">
+                <span>Sampler Checkpoint</span>
+                <span className="text-xs text-muted-foreground">
+                  A tinker:// sampler_weights path
+                </span>
+              </div>
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Judge Checkpoint Path */}
+      {judge.model === "checkpoint" && (
+        <div className="space-y-2">
+          <Label className="text-xs">Judge Checkpoint</Label>
+          {samplerCheckpoints.length > 0 && (
+            <Select
+              value={judge.checkpointPath ?? ""}
+              onValueChange={(value) => setJudge({ checkpointPath: value })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select a sampler checkpoint" />
+              </SelectTrigger>
+              <SelectContent>
+                {samplerCheckpoints.map((checkpoint) => (
+                  <SelectItem key={checkpoint.path} value={checkpoint.path}>
+                    <div className="flex flex-col items-start">
+                      <span>{checkpoint.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {checkpoint.baseModel}
+                      </span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Input
+            type="text"
+            value={judge.checkpointPath ?? ""}
+            onChange={(e) => setJudge({ checkpointPath: e.target.value })}
+            placeholder="tinker://.../sampler_weights/final"
+            className="h-9 font-mono text-xs"
+          />
+        </div>
+      )}
+
+      {/* Rubric */}
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-1.5">
+            <Label className="text-xs">Judge Rubric</Label>
+            <Tooltip>
+              <TooltipTrigger>
+                <HelpCircle className="h-3 w-3 text-muted-foreground" />
+              </TooltipTrigger>
+              <TooltipContent side="top" className="max-w-[280px]">
+                <p className="text-xs">
+                  Prompt sent to the judge. <code>{"{prompt}"}</code>,{" "}
+                  <code>{"{response}"}</code> and <code>{"{ground_truth}"}</code>{" "}
+                  are filled in; the first number in the reply is the score.
+                </p>
+              </TooltipContent>
+            </Tooltip>
+          </div>
+          <div className="flex items-center gap-1.5">
+            <Label className="text-xs text-muted-foreground">Max score</Label>
+            <Input
+              type="number"
+              value={judge.maxScore}
+              onChange={(e) => setJudge({ maxScore: parseFloat(e.target.value) || 10 })}
+              min={1}
+              className="h-7 w-16 text-xs"
+            />
+          </div>
+        </div>
+        <textarea
+          className="w-full h-40 rounded-md border border-border bg-background px-3 py-2 text-xs font-mono placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring resize-y"
+          value={judge.rubric}
+          onChange={(e) => setJudge({ rubric: e.target.value })}
+          spellCheck={false}
+        />
+      </div>
+    </div>
+  );
+}
@@ -3,7 +3,7 @@
 import { useStudioStore } from "@/lib/store";
 import { TrainingMode } from "@/lib/types";
 import { cn } from "@/lib/utils";
-import { GraduationCap, Gamepad2 } from "lucide-react";
+import { GraduationCap, Gamepad2, Scale } from "lucide-react";
 
 export function ModeSelector() {
   const { config, setMode } = useStudioStore();
@@ -17,7 +17,7 @@ export function ModeSelector() {
         </p>
       </div>
 
-      <div className="grid grid-cols-2 gap-2">
+      <div className="grid grid-cols-3 gap-2">
         <ModeCard
           mode="sft"
           currentMode={config.mode}
@@ -34,6 +34,14 @@ export function ModeSelector() {
           description="Learn from rewards"
           onClick={() => setMode("rl")}
         />
+        <ModeCard
+          mode="dpo"
+          currentMode={config.mode}
+          icon={Scale}
+          title="Preference (DPO)"
+          description="Learn from chosen/rejected pairs"
+          onClick={() => setMode("dpo")}
+        />
       </div>
     </div>
   );
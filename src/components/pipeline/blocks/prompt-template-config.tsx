@@ -0,0 +1,152 @@
+"use client";
+
+import { useStudioStore } from "@/lib/store";
+import {
+  defaultPromptConfig,
+  promptMessages,
+  renderPromptTemplate,
+  templateColumns,
+} from "@/lib/prompts";
+import { firstDatasetRow, getColumnMapping } from "@/lib/dataset-source";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { HelpCircle } from "lucide-react";
+
+const TEXTAREA_CLASS =
+  "w-full rounded-md border border-border bg-background px-3 py-2 text-xs font-mono placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring resize-y";
+
+export function PromptTemplateConfig() {
+  const { config, datasetPreview, setPromptConfig } = useStudioStore();
+
+  const prompt = config.prompt;
+  const enabled = prompt?.enabled ?? false;
+  const row = firstDatasetRow(config.dataset, datasetPreview);
+
+  const rendered = prompt && row ? renderPromptTemplate(prompt.template, row) : null;
+  const missingColumns = prompt && row ? templateColumns(prompt.template).filter((c) => !(c in row)) : [];
+
+  return (
+    <div className="space-y-3">
+      {/* Enable */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1.5">
+          <Label className="text-xs">Prompt Template</Label>
+          <Tooltip>
+            <TooltipTrigger>
+              <HelpCircle className="h-3 w-3 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-[280px]">
+              <p className="text-xs">
+                Build each prompt from the row&apos;s columns, e.g.{" "}
+                <code>{"{question}"}</code>. Off uses the built-in format for
+                the detected row shape. Chat rows (<code>messages</code>) are
+                used as-is apart from the system prompt.
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+        <Switch
+          checked={enabled}
+          onCheckedChange={(checked) =>
+            setPromptConfig(
+              prompt
+                ? { enabled: checked }
+                : defaultPromptConfig(config.mode, row ?? undefined, getColumnMapping(config.dataset)?.prompt)
+            )
+          }
+        />
+      </div>
+
+      {enabled && prompt && (
+        <>
+          {/* Template */}
+          <textarea
+            className={`${TEXTAREA_CLASS} h-24`}
+            value={prompt.template}
+            onChange={(e) => setPromptConfig({ template: e.target.value })}
+            placeholder={"Solve this problem step by step:\n\n{question}\n\nAnswer:"}
+            spellCheck={false}
+          />
+
+          {/* System Prompt */}
+          <div className="space-y-2">
+            <Label className="text-xs">System Prompt</Label>
+            <textarea
+              className={`${TEXTAREA_CLASS} h-16`}
+              value={prompt.systemPrompt ?? ""}
+              onChange={(e) => setPromptConfig({ systemPrompt: e.target.value })}
+              placeholder="Optional, e.g. You are a careful math tutor."
+            />
+          </div>
+
+          {/* Chat Template */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-1.5">
+              <Label className="text-xs">Use Chat Template</Label>
+              <Tooltip>
+                <TooltipTrigger>
+                  <HelpCircle className="h-3 w-3 text-muted-foreground" />
+                </TooltipTrigger>
+                <TooltipContent side="top" className="max-w-[250px]">
+                  <p className="text-xs">
+                    Wrap the prompt in the tokenizer&apos;s chat template as a
+                    user turn. Recommended for instruct models; base models
+                    usually do better with raw text.
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <Switch
+              checked={prompt.useChatTemplate}
+              onCheckedChange={(checked) => setPromptConfig({ useChatTemplate: checked })}
+            />
+          </div>
+
+          {/* Preview */}
+          <div className="space-y-2 rounded-lg border border-border p-3">
+            <div className="text-xs font-medium">Preview (first row)</div>
+
+            {rendered === null ? (
+              <p className="text-xs text-muted-foreground">
+                {config.dataset.preset === "custom"
+                  ? "Paste or upload data to preview the prompt."
+                  : "Load a sample of the dataset above to preview the prompt."}
+              </p>
+            ) : prompt.useChatTemplate ? (
+              <div className="space-y-1.5">
+                {promptMessages(prompt, rendered).map((message, i) => (
+                  <div key={i} className="rounded bg-muted/50 px-2 py-1.5">
+                    <div className="text-[10px] uppercase text-muted-foreground">{message.role}</div>
+                    <pre className="whitespace-pre-wrap break-words text-xs font-mono">
+                      {message.content}
+                    </pre>
+                  </div>
+                ))}
+                <p className="text-[10px] text-muted-foreground">
+                  The tokenizer&apos;s chat template adds the model&apos;s role markers
+                  around these turns.
+                </p>
+              </div>
+            ) : (
+              <pre className="max-h-48 overflow-auto whitespace-pre-wrap break-words rounded bg-muted/50 px-2 py-1.5 text-xs font-mono">
+                {prompt.systemPrompt?.trim() ? `${prompt.systemPrompt}\n\n${rendered}` : rendered}
+              </pre>
+            )}
+
+            {missingColumns.length > 0 && (
+              <p className="text-xs text-yellow-400">
+                No column named {missingColumns.map((c) => `{${c}}`).join(", ")} in this row;
+                it is left as written.
+              </p>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
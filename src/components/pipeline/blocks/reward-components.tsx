@@ -0,0 +1,147 @@
+"use client";
+
+import { useStudioStore } from "@/lib/store";
+import { RewardComponent, REWARD_FUNCTIONS, REWARD_SHAPING } from "@/lib/types";
+import { DEFAULT_CUSTOM_REWARD, DEFAULT_JUDGE_CONFIG, getRewardComponents } from "@/lib/rewards";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { HelpCircle, Plus, X } from "lucide-react";
+
+const REWARD_OPTIONS = [...REWARD_FUNCTIONS, ...REWARD_SHAPING];
+
+// Starting weights for newly added terms, e.g. a per-token length penalty
+const DEFAULT_WEIGHTS: Record<string, number> = {
+  format: 0.2,
+  length: -0.01,
+};
+
+export function RewardComponents() {
+  const { config, setRLConfig } = useStudioStore();
+
+  const rl = config.rl;
+  if (!rl) return null;
+
+  const components = getRewardComponents(rl);
+  const unused = REWARD_OPTIONS.filter((r) => !components.some((c) => c.fn === r.id));
+
+  const update = (next: RewardComponent[]) => {
+    const seedCustom = next.some((c) => c.fn === "custom") && !rl.customReward?.trim();
+    const seedJudge = next.some((c) => c.fn === "judge") && !rl.judge;
+    setRLConfig({
+      // A lone weight-1 term is the plain single reward function
+      rewardComponents: next.length === 1 && next[0].weight === 1 ? [] : next,
+      ...(seedCustom ? { customReward: DEFAULT_CUSTOM_REWARD } : {}),
+      ...(seedJudge ? { judge: DEFAULT_JUDGE_CONFIG } : {}),
+    });
+  };
+
+  const handleAdd = () => {
+    // Shaping terms are the usual additions, so offer them first
+    const option = unused.find((r) => REWARD_SHAPING.some((s) => s.id === r.id)) ?? unused[0];
+    if (!option) return;
+    update([...components, { fn: option.id, weight: DEFAULT_WEIGHTS[option.id] ?? 1 }]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1.5">
+          <Label className="text-xs">Reward Components</Label>
+          <Tooltip>
+            <TooltipTrigger>
+              <HelpCircle className="h-3 w-3 text-muted-foreground" />
+            </TooltipTrigger>
+            <TooltipContent side="top" className="max-w-[280px]">
+              <p className="text-xs">
+                The reward is the weighted sum of these terms, e.g. correctness
+                1.0 + format 0.2 + length -0.01 per token. Each term is charted
+                separately during training.
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleAdd}
+          disabled={unused.length === 0}
+        >
+          <Plus className="h-3.5 w-3.5" />
+          Add term
+        </Button>
+      </div>
+
+      {components.map((component, index) => (
+        <div key={component.fn} className="flex items-center gap-2">
+          {index === 0 ? (
+            // The first term is the reward function selected above
+            <div className="flex h-9 flex-1 items-center rounded-md border border-border px-3 text-sm text-muted-foreground">
+              {REWARD_OPTIONS.find((r) => r.id === component.fn)?.name ?? component.fn}
+            </div>
+          ) : (
+            <Select
+              value={component.fn}
+              onValueChange={(fn) =>
+                update(components.map((c, i) => (i === index ? { ...c, fn } : c)))
+              }
+            >
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REWARD_OPTIONS.filter(
+                  (r) => r.id === component.fn || unused.some((u) => u.id === r.id)
+                ).map((reward) => (
+                  <SelectItem key={reward.id} value={reward.id}>
+                    <div className="flex flex-col items-start">
+                      <span>{reward.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {reward.description}
+                      </span>
+                    </div>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <Input
+            type="number"
+            value={component.weight}
+            onChange={(e) => {
+              const weight = parseFloat(e.target.value);
+              update(
+                components.map((c, i) =>
+                  i === index ? { ...c, weight: Number.isFinite(weight) ? weight : 0 } : c
+                )
+              );
+            }}
+            step={0.01}
+            className="h-9 w-24"
+          />
+          <Button
+            variant="ghost"
+            size="icon-sm"
+            onClick={() => update(components.filter((_, i) => i !== index))}
+            disabled={index === 0}
+            className="shrink-0"
+          >
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
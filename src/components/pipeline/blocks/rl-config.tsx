@@ -3,7 +3,11 @@
 import { useState } from "react";
 import { useStudioStore } from "@/lib/store";
 import { REWARD_FUNCTIONS } from "@/lib/types";
+import { DEFAULT_CUSTOM_REWARD, DEFAULT_JUDGE_CONFIG, getRewardComponents, usesReward } from "@/lib/rewards";
 import { PipelineBlock } from "./pipeline-block";
+import { CustomRewardEditor } from "./custom-reward-editor";
+import { RewardComponents } from "./reward-components";
+import { JudgeRewardConfig } from "./judge-reward-config";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Slider } from "@/components/ui/slider";
@@ -33,12 +37,17 @@ export function RLConfig({ isLast }: RLConfigProps) {
   if (!rl) return null;
 
   const selectedReward = REWARD_FUNCTIONS.find((r) => r.id === rl.rewardFunction);
+  const extraTerms = getRewardComponents(rl).length - 1;
 
   return (
     <PipelineBlock
       icon={Gamepad2}
       title="RL Settings (GRPO)"
-      subtitle={selectedReward?.name ?? "Configure rewards"}
+      subtitle={
+        selectedReward
+          ? `${selectedReward.name}${extraTerms > 0 ? ` + ${extraTerms} more` : ""}`
+          : "Configure rewards"
+      }
       isExpanded={isExpanded}
       onToggle={() => setIsExpanded(!isExpanded)}
       isLast={isLast}
@@ -66,13 +75,25 @@ export function RLConfig({ isLast }: RLConfigProps) {
                   <br />• Math tasks → Math Equivalence
                   <br />• Exact answers → Exact Match
                   <br />• Code tasks → Code Execution
+                  <br />• Structured output → Regex, Answer Tags or JSON Schema
+                  <br />• Open-ended tasks → LLM Judge
+                  <br />• Anything else → Custom Python
                 </p>
               </TooltipContent>
             </Tooltip>
           </div>
           <Select
             value={rl.rewardFunction}
-            onValueChange={(value) => setRLConfig({ rewardFunction: value })}
+            onValueChange={(value) =>
+              setRLConfig({
+                rewardFunction: value,
+                // Seed the editor the first time the custom reward is picked
+                ...(value === "custom" && !rl.customReward?.trim()
+                  ? { customReward: DEFAULT_CUSTOM_REWARD }
+                  : {}),
+                ...(value === "judge" && !rl.judge ? { judge: DEFAULT_JUDGE_CONFIG } : {}),
+              })
+            }
           >
             <SelectTrigger>
               <SelectValue />
@@ -92,6 +113,65 @@ export function RLConfig({ isLast }: RLConfigProps) {
           </Select>
         </div>
 
+        <RewardComponents />
+
+        {usesReward(rl, "regex_match") && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-1.5">
+              <Label className="text-xs">Reward Pattern</Label>
+              <Tooltip>
+                <TooltipTrigger>
+                  <HelpCircle className="h-3 w-3 text-muted-foreground" />
+                </TooltipTrigger>
+                <TooltipContent side="top" className="max-w-[280px]">
+                  <p className="text-xs">
+                    Python regular expression searched in each response. Without
+                    a group any match scores 1; with one, group 1 must equal the
+                    dataset answer, e.g. <code>#### (\S+)</code>.
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <Input
+              value={rl.rewardRegex ?? ""}
+              onChange={(e) => setRLConfig({ rewardRegex: e.target.value })}
+              placeholder="Answer: (.+)"
+              className="h-9 font-mono text-xs"
+            />
+          </div>
+        )}
+
+        {usesReward(rl, "json_schema") && (
+          <div className="space-y-2">
+            <div className="flex items-center gap-1.5">
+              <Label className="text-xs">JSON Schema</Label>
+              <Tooltip>
+                <TooltipTrigger>
+                  <HelpCircle className="h-3 w-3 text-muted-foreground" />
+                </TooltipTrigger>
+                <TooltipContent side="top" className="max-w-[280px]">
+                  <p className="text-xs">
+                    Responses score 1 when they are JSON (optionally in a code
+                    fence) that validates against this schema. The training
+                    script needs the <code>jsonschema</code> package.
+                  </p>
+                </TooltipContent>
+              </Tooltip>
+            </div>
+            <textarea
+              className="w-full h-32 rounded-md border border-border bg-background px-3 py-2 text-xs font-mono placeholder:text-muted-foreground focus:outline-none focus:ring-2 focus:ring-ring resize-y"
+              value={rl.rewardJsonSchema ?? ""}
+              onChange={(e) => setRLConfig({ rewardJsonSchema: e.target.value })}
+              placeholder={'{\n  "type": "object",\n  "properties": {"name": {"type": "string"}},\n  "required": ["name"]\n}'}
+              spellCheck={false}
+            />
+          </div>
+        )}
+
+        {usesReward(rl, "judge") && <JudgeRewardConfig />}
+
+        {usesReward(rl, "custom") && <CustomRewardEditor />}
+
         {/* Group Size */}
         <div className="space-y-2">
           <div className="flex items-center justify-between">
@@ -164,7 +244,8 @@ export function RLConfig({ isLast }: RLConfigProps) {
                 </TooltipTrigger>
                 <TooltipContent side="top" className="max-w-[250px]">
                   <p className="text-xs">
-                    Penalty for deviating from base model.
+                    Penalty for deviating from base model (or from the
+                    previous stage&apos;s result in a pipeline).
                     Higher = more conservative updates.
                     0.1 is a good starting point.
                   </p>
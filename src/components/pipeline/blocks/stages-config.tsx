@@ -0,0 +1,254 @@
+"use client";
+
+import { useState } from "react";
+import { useStudioStore } from "@/lib/store";
+import { PipelineBlock } from "./pipeline-block";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Tooltip,
+  TooltipContent,
+  TooltipTrigger,
+} from "@/components/ui/tooltip";
+import { Layers, HelpCircle, Plus, X } from "lucide-react";
+import { DATASET_PRESETS, REWARD_FUNCTIONS, TrainingMode } from "@/lib/types";
+import { CONFIGURED_REWARDS } from "@/lib/rewards";
+
+interface StagesConfigProps {
+  isLast?: boolean;
+}
+
+const MODE_LABELS: Record<TrainingMode, string> = {
+  sft: "Supervised (SFT)",
+  rl: "Reinforcement (RL)",
+  dpo: "Preference (DPO)",
+};
+
+export function StagesConfig({ isLast }: StagesConfigProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+  const { config, addStage, updateStage, removeStage } = useStudioStore();
+
+  const stages = config.stages ?? [];
+  const modes = [config.mode, ...stages.map((stage) => stage.mode)];
+
+  return (
+    <PipelineBlock
+      icon={Layers}
+      title="Pipeline Stages"
+      subtitle={
+        stages.length > 0
+          ? modes.map((mode) => mode.toUpperCase()).join(" → ")
+          : "Single stage"
+      }
+      isExpanded={isExpanded}
+      onToggle={() => setIsExpanded(!isExpanded)}
+      isLast={isLast}
+    >
+      <div className="space-y-4">
+        <p className="text-xs text-muted-foreground">
+          Chain follow-up stages after the configuration above (stage 1). Stages run in order
+          as one job and share the model and checkpointing settings.
+        </p>
+
+        {stages.map((stage, index) => {
+          // Custom data has no editor per stage, so only hosted presets are offered
+          const presets = DATASET_PRESETS[stage.mode].filter((preset) => preset.id !== "custom");
+
+          return (
+            <div
+              key={index}
+              className="space-y-3 rounded-lg border border-border bg-muted/30 p-3"
+            >
+              <div className="flex items-center justify-between">
+                <span className="text-xs font-medium">Stage {index + 2}</span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeStage(index)}
+                  className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground"
+                >
+                  <X className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+
+              {/* Mode */}
+              <div className="space-y-2">
+                <Label className="text-xs">Training Mode</Label>
+                <Select
+                  value={stage.mode}
+                  onValueChange={(value) => updateStage(index, { mode: value as TrainingMode })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(MODE_LABELS) as TrainingMode[]).map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {MODE_LABELS[mode]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Dataset */}
+              <div className="space-y-2">
+                <Label className="text-xs">Dataset</Label>
+                <Select
+                  value={stage.dataset.preset}
+                  onValueChange={(value) => updateStage(index, { dataset: { preset: value } })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {presets.map((preset) => (
+                      <SelectItem key={preset.id} value={preset.id}>
+                        <div className="flex flex-col items-start">
+                          <span>{preset.name}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {preset.description}
+                          </span>
+                        </div>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {/* Learning Rate & Epochs */}
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-2">
+                  <Label className="text-xs">Learning Rate</Label>
+                  <Input
+                    type="number"
+                    value={stage.hyperparameters.learningRate}
+                    onChange={(e) =>
+                      updateStage(index, {
+                        hyperparameters: {
+                          ...stage.hyperparameters,
+                          learningRate: parseFloat(e.target.value) || 1e-4,
+                        },
+                      })
+                    }
+                    step={1e-5}
+                    className="h-9 font-mono text-xs"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="text-xs">Epochs</Label>
+                  <Input
+                    type="number"
+                    value={stage.hyperparameters.epochs}
+                    onChange={(e) =>
+                      updateStage(index, {
+                        hyperparameters: {
+                          ...stage.hyperparameters,
+                          epochs: parseInt(e.target.value) || 1,
+                        },
+                      })
+                    }
+                    min={1}
+                    max={10}
+                    className="h-9"
+                  />
+                </div>
+              </div>
+
+              {/* Mode-specific essentials; the rest keeps its defaults */}
+              {stage.mode === "rl" && stage.rl && (
+                <div className="space-y-2">
+                  <Label className="text-xs">Reward Function</Label>
+                  <Select
+                    value={stage.rl.rewardFunction}
+                    onValueChange={(value) =>
+                      updateStage(index, { rl: { ...stage.rl!, rewardFunction: value } })
+                    }
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {/* Rewards with their own settings are only configurable on the first stage */}
+                      {REWARD_FUNCTIONS.filter((fn) => !CONFIGURED_REWARDS.includes(fn.id)).map((fn) => (
+                        <SelectItem key={fn.id} value={fn.id}>
+                          {fn.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              {stage.mode === "dpo" && stage.dpo && (
+                <div className="space-y-2">
+                  <Label className="text-xs">Beta</Label>
+                  <Input
+                    type="number"
+                    value={stage.dpo.beta}
+                    onChange={(e) =>
+                      updateStage(index, {
+                        dpo: { ...stage.dpo!, beta: parseFloat(e.target.value) || 0.1 },
+                      })
+                    }
+                    min={0.01}
+                    max={1}
+                    step={0.01}
+                    className="h-9"
+                  />
+                </div>
+              )}
+
+              {/* Initialize from previous stage */}
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-1.5">
+                  <Label className="text-xs">Start from previous stage</Label>
+                  <Tooltip>
+                    <TooltipTrigger>
+                      <HelpCircle className="h-3 w-3 text-muted-foreground" />
+                    </TooltipTrigger>
+                    <TooltipContent side="top" className="max-w-[250px]">
+                      <p className="text-xs">
+                        Load the final weights of stage {index + 1} before training.
+                        Turn off to train this stage from the base model.
+                      </p>
+                    </TooltipContent>
+                  </Tooltip>
+                </div>
+                <Switch
+                  checked={stage.initFromPrevious}
+                  onCheckedChange={(checked) => updateStage(index, { initFromPrevious: checked })}
+                />
+              </div>
+            </div>
+          );
+        })}
+
+        {/* Add Stage */}
+        <div className="flex items-center gap-2">
+          {(Object.keys(MODE_LABELS) as TrainingMode[]).map((mode) => (
+            <Button
+              key={mode}
+              variant="outline"
+              size="sm"
+              onClick={() => addStage(mode)}
+              className="h-7 flex-1 text-xs"
+            >
+              <Plus className="h-3 w-3 mr-1" />
+              {mode.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+    </PipelineBlock>
+  );
+}
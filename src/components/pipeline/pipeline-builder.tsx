@@ -6,7 +6,10 @@ import { ModelConfig } from "./blocks/model-config";
 import { DatasetConfig } from "./blocks/dataset-config";
 import { HyperparametersConfig } from "./blocks/hyperparameters-config";
 import { RLConfig } from "./blocks/rl-config";
+import { DPOConfig } from "./blocks/dpo-config";
+import { EvalConfig } from "./blocks/eval-config";
 import { CheckpointingConfig } from "./blocks/checkpointing-config";
+import { StagesConfig } from "./blocks/stages-config";
 import { ValidationWarnings } from "./validation-warnings";
 import { ResumeIndicator } from "./blocks/resume-indicator";
 
@@ -18,7 +21,10 @@ export function PipelineBuilder() {
     { id: "dataset", component: DatasetConfig },
     { id: "hyperparameters", component: HyperparametersConfig },
     ...(config.mode === "rl" ? [{ id: "rl", component: RLConfig }] : []),
+    ...(config.mode === "dpo" ? [{ id: "dpo", component: DPOConfig }] : []),
+    ...(config.mode === "sft" ? [{ id: "eval", component: EvalConfig }] : []),
     { id: "checkpointing", component: CheckpointingConfig },
+    { id: "stages", component: StagesConfig },
   ];
 
   return (
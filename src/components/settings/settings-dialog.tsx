@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -11,7 +11,15 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useStudioStore } from "@/lib/store";
+import { DEFAULT_PROFILE_ID } from "@/lib/types";
 import {
   Settings,
   Key,
@@ -23,17 +31,145 @@ import {
   ExternalLink,
   Trash2,
   AlertTriangle,
+  Server,
+  Monitor,
+  Plus,
+  UserCircle,
 } from "lucide-react";
 import { toast } from "sonner";
 
+// Server-side key vault status from GET /api/vault
+interface VaultStatus {
+  enabled: boolean;
+  stored: boolean;
+  hint: string | null;
+}
+
 export function SettingsDialog() {
-  const { settings, settingsOpen, setSettingsOpen, setApiKey, setApiKeyValidated, fetchCheckpoints } =
-    useStudioStore();
+  const {
+    settings,
+    settingsOpen,
+    setSettingsOpen,
+    setApiKey,
+    setApiKeyValidated,
+    setServerApiKey,
+    fetchCheckpoints,
+    hasApiKey,
+    getActiveProfile,
+    addProfile,
+    updateProfile,
+    removeProfile,
+    switchProfile,
+    models,
+    execution,
+  } = useStudioStore();
 
   const [showKey, setShowKey] = useState(false);
   const [keyInput, setKeyInput] = useState(settings.apiKey);
   const [isValidating, setIsValidating] = useState(false);
   const [isCleaningUp, setIsCleaningUp] = useState(false);
+  const [vault, setVault] = useState<VaultStatus | null>(null);
+  const [isMovingKey, setIsMovingKey] = useState(false);
+
+  const isServerKey = settings.apiKeyStorage === "server";
+  const activeProfile = getActiveProfile();
+  const isRunning = execution.status === "running";
+
+  // Show the newly active profile's key after switching profiles
+  const [keyProfileId, setKeyProfileId] = useState(settings.activeProfileId);
+  if (keyProfileId !== settings.activeProfileId) {
+    setKeyProfileId(settings.activeProfileId);
+    setKeyInput(settings.apiKey);
+  }
+
+  // Check the vault each time the dialog opens or the profile changes; the server may have lost the session
+  useEffect(() => {
+    if (!settingsOpen) return;
+
+    fetch("/api/vault")
+      .then((response) => response.json())
+      .then((data) => {
+        if (!data.success) return;
+        setVault(data.data);
+        const { settings, setServerApiKey } = useStudioStore.getState();
+        if (settings.apiKeyStorage === "server" && !data.data.stored) {
+          setServerApiKey(null);
+          toast.warning("The API key stored on the server is no longer available. Please enter it again.");
+        }
+      })
+      .catch(() => setVault(null));
+  }, [settingsOpen, settings.activeProfileId]);
+
+  const handleNewProfile = () => {
+    const id = addProfile(`Profile ${settings.profiles.length + 1}`);
+    switchProfile(id);
+  };
+
+  const handleDeleteProfile = async () => {
+    const confirmed = window.confirm(
+      `Delete the profile "${activeProfile.name}"? Its training history stays but is no longer shown under any profile.`
+    );
+    if (!confirmed) return;
+
+    // The vault acts on the active profile, so forget its key before switching away
+    if (isServerKey) {
+      await fetch("/api/vault", { method: "DELETE" }).catch(() => undefined);
+    }
+    const id = activeProfile.id;
+    switchProfile(DEFAULT_PROFILE_ID);
+    removeProfile(id);
+    toast.success("Profile deleted");
+  };
+
+  // Encrypt a validated key into the server's vault and drop it from the browser
+  const storeKeyOnServer = async (apiKey: string): Promise<boolean> => {
+    const response = await fetch("/api/vault", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      // Storing starts a new session; the other profiles' keys move into it
+      body: JSON.stringify({ apiKey, profiles: settings.profiles.map((profile) => profile.id) }),
+    });
+    const data = await response.json();
+
+    if (!data.success) {
+      toast.error(data.error || "Failed to store API key on the server");
+      return false;
+    }
+
+    setServerApiKey(data.data.hint);
+    setKeyInput("");
+    setVault((current) => current && { ...current, stored: true, hint: data.data.hint });
+    return true;
+  };
+
+  const handleMoveToServer = async () => {
+    setIsMovingKey(true);
+    try {
+      if (await storeKeyOnServer(settings.apiKey)) {
+        toast.success("API key moved to the server. This browser no longer stores it.");
+      }
+    } catch {
+      toast.error("Failed to store API key on the server. Check your connection.");
+    } finally {
+      setIsMovingKey(false);
+    }
+  };
+
+  const handleForgetServerKey = async () => {
+    setIsMovingKey(true);
+    try {
+      await fetch("/api/vault", { method: "DELETE" });
+      setServerApiKey(null);
+      setVault((current) => current && { ...current, stored: false, hint: null });
+      toast.success("API key removed from the server");
+    } catch {
+      toast.error("Failed to remove API key. Check your connection.");
+    } finally {
+      setIsMovingKey(false);
+    }
+  };
 
   const handleValidateKey = async () => {
     if (!keyInput.trim()) {
@@ -55,17 +191,24 @@ export function SettingsDialog() {
       const data = await response.json();
 
       if (data.success) {
+        // A new key replaces the stored one when keys are kept server-side
+        if (isServerKey) {
+          if (await storeKeyOnServer(keyInput)) {
+            toast.success("API key validated and stored on the server!");
+          }
+          return;
+        }
         setApiKey(keyInput);
         setApiKeyValidated(true);
         toast.success("API key validated successfully!");
         // Fetch checkpoints after successful validation
         await fetchCheckpoints();
       } else {
-        setApiKeyValidated(false);
+        if (!isServerKey) setApiKeyValidated(false);
         toast.error(data.error || "Invalid API key");
       }
     } catch  {
-      setApiKeyValidated(false);
+      if (!isServerKey) setApiKeyValidated(false);
       toast.error("Failed to validate API key. Check your connection.");
     } finally {
       setIsValidating(false);
@@ -73,9 +216,12 @@ export function SettingsDialog() {
   };
 
   const handleSave = () => {
-    setApiKey(keyInput);
-    if (!keyInput.trim()) {
-      setApiKeyValidated(false);
+    // A server-side key only changes through Validate or Forget
+    if (!isServerKey) {
+      setApiKey(keyInput);
+      if (!keyInput.trim()) {
+        setApiKeyValidated(false);
+      }
     }
     setSettingsOpen(false);
     toast.success("Settings saved");
@@ -86,7 +232,7 @@ export function SettingsDialog() {
     : "";
 
   const handleCleanup = async () => {
-    if (!settings.apiKey) {
+    if (!hasApiKey()) {
       toast.error("API key required for cleanup");
       return;
     }
@@ -138,6 +284,108 @@ export function SettingsDialog() {
         </DialogHeader>
 
         <div className="space-y-6 py-4">
+          {/* Profile Section */}
+          <div className="space-y-3">
+            <Label className="text-sm font-medium text-zinc-300 flex items-center gap-2">
+              <UserCircle className="h-4 w-4" />
+              Profile
+            </Label>
+
+            <div className="flex gap-2">
+              <Select value={settings.activeProfileId} onValueChange={switchProfile} disabled={isRunning}>
+                <SelectTrigger className="flex-1 bg-zinc-800 border-zinc-700 text-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {settings.profiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id}>
+                      {profile.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={handleNewProfile}
+                disabled={isRunning}
+                variant="outline"
+                className="bg-zinc-800 border-zinc-700 text-white hover:bg-zinc-700"
+                title="New profile"
+              >
+                <Plus className="h-4 w-4" />
+              </Button>
+              {activeProfile.id !== DEFAULT_PROFILE_ID && (
+                <Button
+                  onClick={handleDeleteProfile}
+                  disabled={isRunning}
+                  variant="outline"
+                  className="bg-zinc-800 border-zinc-700 text-red-400 hover:bg-zinc-700"
+                  title="Delete profile"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+            {isRunning && (
+              <p className="text-xs text-zinc-500">Profiles can&apos;t be switched while training is running.</p>
+            )}
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="profileName" className="text-xs text-zinc-400">Name</Label>
+                <Input
+                  id="profileName"
+                  value={activeProfile.name}
+                  onChange={(e) => updateProfile(activeProfile.id, { name: e.target.value })}
+                  className="h-9 bg-zinc-800 border-zinc-700 text-white"
+                />
+              </div>
+              <div className="space-y-1.5">
+                <Label className="text-xs text-zinc-400">Default Model</Label>
+                <Select
+                  value={activeProfile.defaultModel ?? "none"}
+                  onValueChange={(value) =>
+                    updateProfile(activeProfile.id, { defaultModel: value === "none" ? undefined : value })
+                  }
+                >
+                  <SelectTrigger className="h-9 bg-zinc-800 border-zinc-700 text-white text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none" className="text-xs">Keep current selection</SelectItem>
+                    {activeProfile.defaultModel && !models.some((m) => m.id === activeProfile.defaultModel) && (
+                      <SelectItem value={activeProfile.defaultModel} className="text-xs">
+                        {activeProfile.defaultModel}
+                      </SelectItem>
+                    )}
+                    {models.map((model) => (
+                      <SelectItem key={model.id} value={model.id} className="text-xs">
+                        {model.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-1.5">
+              <Label htmlFor="profileApiBase" className="text-xs text-zinc-400">
+                Inference API Base (optional)
+              </Label>
+              <Input
+                id="profileApiBase"
+                value={activeProfile.apiBase ?? ""}
+                onChange={(e) =>
+                  updateProfile(activeProfile.id, { apiBase: e.target.value.trim() || undefined })
+                }
+                placeholder="Server default (TINKER_API_BASE)"
+                className="h-9 bg-zinc-800 border-zinc-700 text-white placeholder:text-zinc-500 font-mono text-xs"
+              />
+              <p className="text-xs text-zinc-500">
+                Must be listed in the server&apos;s TINKER_STUDIO_API_BASES.
+              </p>
+            </div>
+          </div>
+
           {/* API Key Section */}
           <div className="space-y-4">
             <div className="flex items-center justify-between">
@@ -163,9 +411,13 @@ export function SettingsDialog() {
                   value={keyInput}
                   onChange={(e) => {
                     setKeyInput(e.target.value);
-                    setApiKeyValidated(false);
+                    if (!isServerKey) setApiKeyValidated(false);
                   }}
-                  placeholder="Enter your Tinker API key"
+                  placeholder={
+                    isServerKey
+                      ? `Stored on server (••••${settings.apiKeyHint ?? ""}). Enter a new key to replace it`
+                      : "Enter your Tinker API key"
+                  }
                   className="pl-10 pr-10 bg-zinc-800 border-zinc-700 text-white placeholder:text-zinc-500"
                 />
                 <button
@@ -192,7 +444,7 @@ export function SettingsDialog() {
             </div>
 
             {/* Validation Status */}
-            {settings.apiKey && (
+            {hasApiKey() && (
               <div
                 className={`flex items-center gap-2 text-sm ${settings.apiKeyValidated ? "text-green-400" : "text-zinc-500"
                   }`}
@@ -211,10 +463,41 @@ export function SettingsDialog() {
               </div>
             )}
 
-            {/* Security Note */}
-            <p className="text-xs text-zinc-500">
-              Your API key is stored locally in your browser. Never share it publicly.
-            </p>
+            {/* Key Storage */}
+            <div className="flex items-center justify-between gap-3 p-3 rounded-lg border border-zinc-800 bg-zinc-800/40">
+              <div className="flex items-start gap-2">
+                {isServerKey ? (
+                  <Server className="h-4 w-4 mt-0.5 text-blue-400" />
+                ) : (
+                  <Monitor className="h-4 w-4 mt-0.5 text-zinc-400" />
+                )}
+                <div>
+                  <p className="text-sm text-zinc-300">
+                    {isServerKey ? "Stored on the server" : "Stored in this browser"}
+                  </p>
+                  <p className="text-xs text-zinc-500 mt-0.5">
+                    {isServerKey
+                      ? "Encrypted at rest. This browser only keeps a session cookie."
+                      : vault?.enabled
+                        ? "Kept in local storage. Move it to the server on shared machines."
+                        : "Kept in local storage. Never share it publicly."}
+                  </p>
+                </div>
+              </div>
+              {vault?.enabled && (isServerKey || settings.apiKey) && (
+                <Button
+                  onClick={isServerKey ? handleForgetServerKey : handleMoveToServer}
+                  disabled={isMovingKey || (!isServerKey && !settings.apiKeyValidated)}
+                  variant="outline"
+                  size="sm"
+                  className="shrink-0 bg-zinc-800 border-zinc-700 text-white hover:bg-zinc-700"
+                  title={!isServerKey && !settings.apiKeyValidated ? "Validate the key first" : undefined}
+                >
+                  {isMovingKey && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+                  {isServerKey ? "Forget" : "Move to Server"}
+                </Button>
+              )}
+            </div>
           </div>
 
           {/* Danger Zone */}
@@ -234,7 +517,7 @@ export function SettingsDialog() {
                 </div>
                 <Button
                   onClick={handleCleanup}
-                  disabled={isCleaningUp || !settings.apiKey}
+                  disabled={isCleaningUp || !hasApiKey()}
                   variant="destructive"
                   size="sm"
                   className="bg-red-600 hover:bg-red-700"
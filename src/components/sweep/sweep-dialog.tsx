@@ -0,0 +1,473 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useStudioStore } from "@/lib/store";
+import { startSweep, refreshJobSummary } from "@/lib/training-client";
+import { countSweepRuns, getNumericField, listNumericFields, validateSweep } from "@/lib/sweep";
+import { SweepParameter, TrainingJob } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import { FlaskConical, Plus, X, Loader2, RotateCcw, Trophy } from "lucide-react";
+import { toast } from "sonner";
+
+// How often unfinished sweep runs are refreshed from the server
+const REFRESH_INTERVAL_MS = 5000;
+
+const isFinished = (job: TrainingJob) =>
+  job.status === "completed" || job.status === "failed" || job.status === "cancelled";
+
+// Comma-separated grid values; parsed on blur so partial input can be typed
+function GridValuesInput({
+  values,
+  onChange,
+}: {
+  values: number[];
+  onChange: (values: number[]) => void;
+}) {
+  const [text, setText] = useState(values.join(", "));
+
+  return (
+    <Input
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={() => {
+        const parsed = text
+          .split(",")
+          .map((value) => value.trim())
+          .filter(Boolean)
+          .map(Number);
+        onChange(parsed);
+        setText(parsed.join(", "));
+      }}
+      placeholder="1e-4, 2e-4, 5e-4"
+      className="h-8 font-mono text-xs"
+    />
+  );
+}
+
+export function SweepDialog() {
+  const {
+    config,
+    sweep,
+    setSweep,
+    sweepOpen,
+    setSweepOpen,
+    settings,
+    models,
+    trainingHistory,
+    loadConfig,
+    hasApiKey,
+    setSettingsOpen,
+  } = useStudioStore();
+
+  const [tab, setTab] = useState("define");
+  const [isStarting, setIsStarting] = useState(false);
+  const [selectedSweepId, setSelectedSweepId] = useState<string | null>(null);
+
+  const numericFields = listNumericFields(config);
+  const errors = validateSweep(config, sweep);
+  const runCount = countSweepRuns(sweep);
+
+  // Sweeps in history, newest first
+  const sweepIds = [...trainingHistory]
+    .filter((job) => job.sweepId)
+    .sort((a, b) => (b.startedAt || 0) - (a.startedAt || 0))
+    .map((job) => job.sweepId!)
+    .filter((id, index, ids) => ids.indexOf(id) === index);
+  const activeSweepId = selectedSweepId ?? sweepIds[0] ?? null;
+  const runs = trainingHistory.filter((job) => job.sweepId && job.sweepId === activeSweepId);
+
+  // Poll the server for unfinished runs while the results are visible
+  const unfinishedIds = runs.filter((job) => !isFinished(job)).map((job) => job.id).join(",");
+  useEffect(() => {
+    if (!sweepOpen || tab !== "results" || !unfinishedIds) return;
+
+    const refresh = () => unfinishedIds.split(",").forEach((id) => refreshJobSummary(id));
+    refresh();
+    const interval = setInterval(refresh, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [sweepOpen, tab, unfinishedIds]);
+
+  const updateParameter = (index: number, updates: Partial<SweepParameter>) => {
+    setSweep({
+      parameters: sweep.parameters.map((param, i) =>
+        i === index ? { ...param, ...updates } : param
+      ),
+    });
+  };
+
+  const addParameter = () => {
+    const used = new Set(sweep.parameters.map((param) => param.path));
+    const path = numericFields.find((field) => !used.has(field));
+    if (!path) return;
+    const current = getNumericField(config, path) ?? 1;
+    setSweep({
+      parameters: [
+        ...sweep.parameters,
+        { path, values: [current], min: current / 2, max: current * 2, scale: "linear" },
+      ],
+    });
+  };
+
+  const handleStart = async () => {
+    if (!hasApiKey()) {
+      toast.error("Please configure your Tinker API key first", {
+        action: {
+          label: "Settings",
+          onClick: () => setSettingsOpen(true),
+        },
+      });
+      return;
+    }
+
+    setIsStarting(true);
+    try {
+      const selectedModel = models.find((m) => m.id === config.model.baseModel);
+      const sweepId = await startSweep(config, sweep, settings.apiKey, selectedModel);
+      if (sweepId) {
+        toast.success(`Sweep started with ${runCount} runs`);
+        setSelectedSweepId(sweepId);
+        setTab("results");
+      }
+    } catch (error) {
+      toast.error("Failed to start sweep", {
+        description: error instanceof Error ? error.message : "Unknown error",
+      });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  // Rank by the chosen objective; runs without the metric yet go last
+  const objective = sweep.objective;
+  const score = (job: TrainingJob) => (objective === "loss" ? job.finalLoss : job.finalReward);
+  const rankedRuns = [...runs].sort((a, b) => {
+    const aScore = score(a);
+    const bScore = score(b);
+    if (aScore === undefined) return bScore === undefined ? 0 : 1;
+    if (bScore === undefined) return -1;
+    return objective === "loss" ? aScore - bScore : bScore - aScore;
+  });
+  const sweptPaths = Object.keys(runs[0]?.sweepParams ?? {});
+
+  return (
+    <Dialog open={sweepOpen} onOpenChange={setSweepOpen}>
+      <DialogContent className="sm:max-w-2xl bg-zinc-900 border-zinc-800">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5 text-blue-400" />
+            Hyperparameter Sweep
+          </DialogTitle>
+          <DialogDescription>
+            Launch one training job per variant of the current configuration
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={tab} onValueChange={setTab}>
+          <TabsList>
+            <TabsTrigger value="define">Define</TabsTrigger>
+            <TabsTrigger value="results">Results</TabsTrigger>
+          </TabsList>
+
+          {/* Define */}
+          <TabsContent value="define" className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="space-y-2">
+                <Label className="text-xs">Strategy</Label>
+                <Select
+                  value={sweep.strategy}
+                  onValueChange={(value) => setSweep({ strategy: value as "grid" | "random" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="grid">Grid search</SelectItem>
+                    <SelectItem value="random">Random search</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-xs">Rank by</Label>
+                <Select
+                  value={sweep.objective}
+                  onValueChange={(value) => setSweep({ objective: value as "loss" | "reward" })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="loss">Lowest final loss</SelectItem>
+                    <SelectItem value="reward">Highest final reward</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {sweep.strategy === "random" && (
+                <div className="grid grid-cols-2 gap-2">
+                  <div className="space-y-2">
+                    <Label className="text-xs">Samples</Label>
+                    <Input
+                      type="number"
+                      value={sweep.numSamples}
+                      onChange={(e) => setSweep({ numSamples: parseInt(e.target.value) || 1 })}
+                      min={1}
+                      className="h-9"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label className="text-xs">Seed</Label>
+                    <Input
+                      type="number"
+                      value={sweep.seed}
+                      onChange={(e) => setSweep({ seed: parseInt(e.target.value) || 0 })}
+                      className="h-9"
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            {/* Parameters */}
+            <ScrollArea className="h-56">
+              <div className="space-y-2 pr-4">
+                {sweep.parameters.map((param, index) => (
+                  <div
+                    key={index}
+                    className="flex items-center gap-2 p-2 rounded-lg bg-zinc-800/50 border border-zinc-800"
+                  >
+                    <Select
+                      value={param.path}
+                      onValueChange={(value) => updateParameter(index, { path: value })}
+                    >
+                      <SelectTrigger className="w-56 font-mono text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {numericFields.map((field) => (
+                          <SelectItem key={field} value={field} className="font-mono text-xs">
+                            {field}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+
+                    {sweep.strategy === "grid" ? (
+                      <div className="flex-1">
+                        <GridValuesInput
+                          key={param.path}
+                          values={param.values}
+                          onChange={(values) => updateParameter(index, { values })}
+                        />
+                      </div>
+                    ) : (
+                      <div className="flex flex-1 items-center gap-2">
+                        <Input
+                          type="number"
+                          value={param.min}
+                          onChange={(e) => updateParameter(index, { min: parseFloat(e.target.value) || 0 })}
+                          className="h-8 font-mono text-xs"
+                        />
+                        <span className="text-xs text-zinc-500">to</span>
+                        <Input
+                          type="number"
+                          value={param.max}
+                          onChange={(e) => updateParameter(index, { max: parseFloat(e.target.value) || 0 })}
+                          className="h-8 font-mono text-xs"
+                        />
+                        <Select
+                          value={param.scale}
+                          onValueChange={(value) =>
+                            updateParameter(index, { scale: value as "linear" | "log" })
+                          }
+                        >
+                          <SelectTrigger className="w-24 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="linear">Linear</SelectItem>
+                            <SelectItem value="log">Log</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
+
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        setSweep({ parameters: sweep.parameters.filter((_, i) => i !== index) })
+                      }
+                      className="h-6 w-6 p-0 text-muted-foreground hover:text-foreground"
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  </div>
+                ))}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={addParameter}
+                  disabled={sweep.parameters.length >= numericFields.length}
+                  className="h-7 w-full text-xs"
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  Add parameter
+                </Button>
+              </div>
+            </ScrollArea>
+
+            {errors.length > 0 && (
+              <div className="space-y-1">
+                {errors.map((error) => (
+                  <p key={error} className="text-xs text-red-400">
+                    {error}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Badge variant="outline" className="text-zinc-400 border-zinc-700">
+                {runCount} {runCount === 1 ? "run" : "runs"}
+              </Badge>
+              <Button
+                size="sm"
+                onClick={handleStart}
+                disabled={errors.length > 0 || isStarting}
+                className="h-8 gap-1.5 bg-blue-600 hover:bg-blue-700"
+              >
+                {isStarting ? (
+                  <Loader2 className="h-3.5 w-3.5 animate-spin" />
+                ) : (
+                  <FlaskConical className="h-3.5 w-3.5" />
+                )}
+                Start sweep
+              </Button>
+            </div>
+          </TabsContent>
+
+          {/* Results */}
+          <TabsContent value="results" className="space-y-4">
+            {sweepIds.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-48 text-center">
+                <FlaskConical className="h-8 w-8 text-zinc-600 mb-3" />
+                <p className="text-sm text-zinc-400">No sweeps yet</p>
+                <p className="text-xs text-zinc-600 mt-1">
+                  Define a sweep to compare runs here
+                </p>
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-3">
+                  <Select value={activeSweepId ?? undefined} onValueChange={setSelectedSweepId}>
+                    <SelectTrigger className="w-72 font-mono text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {sweepIds.map((id) => (
+                        <SelectItem key={id} value={id} className="font-mono text-xs">
+                          {id}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Badge variant="outline" className="text-green-400 border-green-400/30">
+                    {runs.filter((job) => job.status === "completed").length}/{runs.length} completed
+                  </Badge>
+                </div>
+
+                <ScrollArea className="h-72">
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-zinc-500 border-b border-zinc-800">
+                        <th className="py-2 pr-2 font-medium">#</th>
+                        {sweptPaths.map((path) => (
+                          <th key={path} className="py-2 pr-2 font-medium font-mono">
+                            {path.split(".").pop()}
+                          </th>
+                        ))}
+                        <th className="py-2 pr-2 font-medium">Status</th>
+                        <th className="py-2 pr-2 font-medium">Loss</th>
+                        <th className="py-2 pr-2 font-medium">Reward</th>
+                        <th className="py-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {rankedRuns.map((job, rank) => (
+                        <tr key={job.id} className="border-b border-zinc-800/50">
+                          <td className="py-2 pr-2 text-zinc-400">
+                            {rank === 0 && score(job) !== undefined ? (
+                              <Trophy className="h-3.5 w-3.5 text-amber-400" />
+                            ) : (
+                              rank + 1
+                            )}
+                          </td>
+                          {sweptPaths.map((path) => (
+                            <td key={path} className="py-2 pr-2 font-mono">
+                              {job.sweepParams?.[path]}
+                            </td>
+                          ))}
+                          <td className="py-2 pr-2 text-zinc-400">
+                            {job.status}
+                            {!isFinished(job) && job.totalSteps > 0 && (
+                              <span className="text-zinc-600">
+                                {" "}
+                                {job.currentStep}/{job.totalSteps}
+                              </span>
+                            )}
+                          </td>
+                          <td className="py-2 pr-2 font-mono">
+                            {job.finalLoss !== undefined ? job.finalLoss.toFixed(4) : "-"}
+                          </td>
+                          <td className="py-2 pr-2 font-mono">
+                            {job.finalReward !== undefined ? job.finalReward.toFixed(4) : "-"}
+                          </td>
+                          <td className="py-2 text-right">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                loadConfig({ ...job.config, resumeFrom: undefined });
+                                toast.success("Configuration loaded", {
+                                  description: `Loaded config from ${job.id}`,
+                                });
+                                setSweepOpen(false);
+                              }}
+                              className="h-7 px-2 text-xs text-zinc-400 hover:text-white"
+                            >
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Load
+                            </Button>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </ScrollArea>
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,11 @@
+/**
+ * Runs once when the server boots.
+ * Jobs persisted as `running` or `pending` by a previous server process can no longer be
+ * streamed or stopped, so they are marked failed before any request is served.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { reconcileJobs } = await import("./lib/training-store");
+    reconcileJobs();
+  }
+}
@@ -1,4 +1,24 @@
-import { PipelineConfig, DATASET_PRESETS, Model } from "./types";
+import { PipelineConfig, DATASET_PRESETS, LR_SCHEDULERS, Model, REWARD_FUNCTIONS, TrainingMode } from "./types";
+import {
+  checkCustomRewardCode,
+  checkRewardComponents,
+  getRewardComponents,
+  isCompositeReward,
+  isKnownReward,
+  checkRewardRegex,
+  checkRewardJsonSchema,
+  checkJudgeConfig,
+  usesReward,
+} from "./rewards";
+import {
+  checkColumnMapping,
+  checkDatasetMixture,
+  getColumnMapping,
+  getDatasetSource,
+  getMixtureSources,
+  isDatasetMixture,
+} from "./dataset-source";
+import { INTEGER_FIELDS } from "./sweep";
 
 function escapePythonString(str: string): string {
   return str
@@ -10,6 +30,11 @@ function escapePythonString(str: string): string {
     .replace(/\t/g, "\\t");
 }
 
+// A Python string literal, or None for an unset value
+function pythonStringOrNone(value: string | undefined): string {
+  return value ? `"${escapePythonString(value)}"` : "None";
+}
+
 function validateSafeIdentifier(str: string, fieldName: string): void {
   if (!str || str.trim().length === 0) {
     throw new Error(`${fieldName} cannot be empty`);
@@ -50,7 +75,116 @@ function validateSafeIdentifier(str: string, fieldName: string): void {
   }
 }
 
-export function generateCode(config: PipelineConfig, model?: Model): string {
+function validateTinkerPath(str: string, fieldName: string): void {
+  if (!str.startsWith("tinker://")) {
+    throw new Error(`${fieldName} must be a tinker:// path`);
+  }
+  validateSafeIdentifier(str.substring("tinker://".length), fieldName);
+}
+
+/**
+ * What load_state() should resume from: the checkpoint's training state path when
+ * known, otherwise its label (history entries that only recorded sampler paths).
+ */
+function getResumeCheckpoint(resumeFrom: NonNullable<PipelineConfig["resumeFrom"]>): string {
+  if (resumeFrom.checkpointPath.startsWith("tinker://") && resumeFrom.checkpointPath.includes("/weights/")) {
+    validateTinkerPath(resumeFrom.checkpointPath, "Resume checkpoint");
+    return resumeFrom.checkpointPath;
+  }
+  validateSafeIdentifier(resumeFrom.checkpointLabel, "Resume checkpoint label");
+  return resumeFrom.checkpointLabel;
+}
+
+// Position of a generated script within a multi-stage pipeline
+interface StageContext {
+  index: number; // 1-based
+  total: number;
+  initFromPrevious: boolean;
+}
+
+export interface PipelineScript {
+  stage: number; // 1-based
+  mode: TrainingMode;
+  filename: string;
+  initFromPrevious: boolean;
+  code: string;
+}
+
+/**
+ * Flatten a config with follow-up stages into one standalone config per stage.
+ * Later stages inherit model and checkpointing settings, never resumeFrom.
+ */
+export function expandPipelineStages(config: PipelineConfig): PipelineConfig[] {
+  const { stages, ...first } = config;
+  const followUps = (stages ?? []).map(
+    (stage): PipelineConfig => ({
+      mode: stage.mode,
+      model: first.model,
+      dataset: stage.dataset,
+      prompt: stage.prompt,
+      hyperparameters: stage.hyperparameters,
+      rl: stage.rl,
+      dpo: stage.dpo,
+      checkpointing: first.checkpointing,
+    })
+  );
+  return [first, ...followUps];
+}
+
+export function getScriptFilename(mode: TrainingMode, stage?: number): string {
+  return stage ? `tinker_stage${stage}_${mode}_training.py` : `tinker_${mode}_training.py`;
+}
+
+/**
+ * Generate one script per pipeline stage. Stages run in order; a stage that
+ * initializes from the previous one reads its final state from INIT_FROM_STATE.
+ */
+export function generatePipelineScripts(config: PipelineConfig, model?: Model): PipelineScript[] {
+  const stageConfigs = expandPipelineStages(config);
+  return stageConfigs.map((stageConfig, i) =>
+    buildStageScript(config, stageConfig, i, stageConfigs.length, model)
+  );
+}
+
+/**
+ * Regenerate one stage's script so it resumes from a checkpoint that stage saved.
+ * Used to relaunch a crashed stage without repeating finished steps.
+ */
+export function generateResumedStageScript(
+  config: PipelineConfig,
+  stageIndex: number, // 0-based
+  resumeFrom: NonNullable<PipelineConfig["resumeFrom"]>,
+  model?: Model
+): PipelineScript {
+  const stageConfigs = expandPipelineStages(config);
+  return buildStageScript(
+    config,
+    { ...stageConfigs[stageIndex], resumeFrom },
+    stageIndex,
+    stageConfigs.length,
+    model
+  );
+}
+
+function buildStageScript(
+  config: PipelineConfig,
+  stageConfig: PipelineConfig,
+  i: number,
+  total: number,
+  model?: Model
+): PipelineScript {
+  const initFromPrevious = i > 0 && (config.stages?.[i - 1]?.initFromPrevious ?? false);
+  const stage = total > 1 ? { index: i + 1, total, initFromPrevious } : undefined;
+  return {
+    stage: i + 1,
+    mode: stageConfig.mode,
+    filename: getScriptFilename(stageConfig.mode, stage?.index),
+    initFromPrevious,
+    code: generateCode(stageConfig, model, stage),
+  };
+}
+
+export function generateCode(config: PipelineConfig, model?: Model, stage?: StageContext): string {
   // Return placeholder if baseModel is not selected yet
   if (!config.model.baseModel || config.model.baseModel.trim().length === 0) {
     return `# Please select a base model to generate training code
@@ -64,10 +198,157 @@ export function generateCode(config: PipelineConfig, model?: Model): string {
   }
 
   if (config.mode === "sft") {
-    return generateSFTCode(config, model);
+    return generateSFTCode(config, model, stage);
+  } else if (config.mode === "dpo") {
+    return generateDPOCode(config, model, stage);
+  } else {
+    return generateRLCode(config, model, stage);
+  }
+}
+
+function generateOptimizerConfigCode(config: PipelineConfig): string {
+  const hp = config.hyperparameters;
+  return `
+# Optimizer & learning rate schedule
+LR_SCHEDULER = "${hp.scheduler}"
+MIN_LR_RATIO = ${hp.minLrRatio}${hp.scheduler === "cosine_restarts" ? `
+LR_NUM_CYCLES = ${hp.numCycles}` : ""}
+ADAM_BETA1 = ${hp.beta1}
+ADAM_BETA2 = ${hp.beta2}
+ADAM_EPS = ${hp.eps}
+WEIGHT_DECAY = ${hp.weightDecay}
+GRAD_CLIP_NORM = ${hp.gradClipNorm}  # 0 = no clipping
+`;
+}
+
+function generateLRScheduleCode(config: PipelineConfig): string {
+  const { scheduler } = config.hyperparameters;
+  const scheduleName = LR_SCHEDULERS.find((s) => s.id === scheduler)?.name.toLowerCase() ?? scheduler;
+
+  let body: string;
+  if (scheduler === "constant") {
+    body = `    return 1.0`;
   } else {
-    return generateRLCode(config, model);
+    const decay = {
+      linear: `    progress = min(1.0, (step - warmup_steps) / max(1, total_steps - warmup_steps))
+    decay = 1.0 - progress`,
+      cosine: `    progress = min(1.0, (step - warmup_steps) / max(1, total_steps - warmup_steps))
+    decay = 0.5 * (1.0 + math.cos(math.pi * progress))`,
+      cosine_restarts: `    progress = min(1.0, (step - warmup_steps) / max(1, total_steps - warmup_steps))
+    if progress >= 1.0:
+        decay = 0.0
+    else:
+        # Restart from the peak at the start of each cycle
+        decay = 0.5 * (1.0 + math.cos(math.pi * ((progress * LR_NUM_CYCLES) % 1.0)))`,
+      inverse_sqrt: `    decay = math.sqrt(max(1, warmup_steps) / max(1, step))`,
+    }[scheduler];
+    body = `${decay}
+    return MIN_LR_RATIO + (1.0 - MIN_LR_RATIO) * decay`;
+  }
+
+  return `# =============================================================================
+# Learning Rate Schedule
+# =============================================================================
+
+def get_lr_multiplier(step: int, total_steps: int, warmup_steps: int) -> float:
+    """Multiplier on LEARNING_RATE: linear warmup, then ${scheduleName}${scheduler === "constant" ? "" : " decay to MIN_LR_RATIO"}."""
+    if step < warmup_steps:
+        return step / warmup_steps
+${body}
+
+
+`;
+}
+
+function generateGracefulStopCode(): string {
+  return `# =============================================================================
+# Graceful Stop
+# =============================================================================
+
+class GracefulStop:
+    """Turns SIGTERM into a flag the training loop checks after each optimizer step."""
+
+    def __init__(self):
+        self.requested = False
+        signal.signal(signal.SIGTERM, self._handle)
+
+    def _handle(self, signum, frame):
+        self.requested = True
+        logger.info("Stop requested, finishing the current step...")
+
+
+def save_interrupted_checkpoint(training_client, completed_steps: int) -> None:
+    """Save state and sampler weights for a stopped run and report them."""
+    checkpoint_label = f"interrupted-{completed_steps}"
+    logger.info(f"Saving checkpoint: {checkpoint_label}")
+    state_path = training_client.save_state(checkpoint_label).result().path
+    sampler_path = training_client.save_weights_for_sampler(name=checkpoint_label).result().path
+
+    print(f"CHECKPOINT_INTERRUPTED::{json.dumps({
+        'step': completed_steps,
+        'checkpoint_label': checkpoint_label,
+        'state_path': state_path,
+        'sampler_path': sampler_path
+    })}")
+    sys.stdout.flush()
+
+
+`;
+}
+
+function generateStopCheckCode(): string {
+  return `            # Stopped (SIGTERM): save progress and exit cleanly, skipping the final save
+            if graceful_stop.requested:
+                save_interrupted_checkpoint(training_client, global_step + 1)
+                return
+`;
+}
+
+function generateStageHeader(mode: TrainingMode, stage?: StageContext): string {
+  if (!stage) {
+    return `Usage:
+  export TINKER_API_KEY="your-api-key"
+  python ${getScriptFilename(mode)}`;
+  }
+
+  const filename = getScriptFilename(mode, stage.index);
+  if (!stage.initFromPrevious) {
+    return `Pipeline stage ${stage.index} of ${stage.total}
+
+Usage:
+  export TINKER_API_KEY="your-api-key"
+  python ${filename}`;
   }
+
+  return `Pipeline stage ${stage.index} of ${stage.total} (initialized from stage ${stage.index - 1})
+
+Usage:
+  export TINKER_API_KEY="your-api-key"
+  export INIT_FROM_STATE="tinker://..."  # state_path reported by stage ${stage.index - 1}${mode === "sft" ? "" : `
+  export INIT_FROM_SAMPLER="tinker://..."  # sampler_path reported by stage ${stage.index - 1}`}
+  python ${filename}`;
+}
+
+function generateStageInitCode(stage?: StageContext): string {
+  if (!stage?.initFromPrevious) return "";
+
+  return `    # Initialize from the previous pipeline stage's final weights
+    if INIT_FROM_STATE and not RESUME_FROM_CHECKPOINT:
+        logger.info(f"Initializing from previous stage: {INIT_FROM_STATE}")
+        training_client.load_state(INIT_FROM_STATE).result()
+    elif not RESUME_FROM_CHECKPOINT:
+        logger.warning("INIT_FROM_STATE is not set; starting from the base model")
+
+`;
+}
+
+function generateStageCompleteCode(): string {
+  return `    # Report final weights so a following pipeline stage can start from them
+    print(f"STAGE_COMPLETE::{json.dumps({
+        'state_path': final_state_path,
+        'sampler_path': weights_path
+    })}")
+    sys.stdout.flush()`;
 }
 
 function generateTokenizerCode(model?: Model): string {
@@ -135,9 +416,8 @@ function generateDatasetLoadingCode(config: PipelineConfig): string {
     logger.info(f"Dataset size: {len(train_dataset)} examples")`;
   } else {
     return `    # Load dataset from HuggingFace
-    logger.info(f"Loading dataset: {DATASET}...")
-    dataset = datasets.load_dataset(DATASET)
-    train_dataset = dataset["train"]
+    logger.info(f"Loading dataset: {DATASET} ({DATASET_SPLIT})...")
+    train_dataset = datasets.load_dataset(DATASET, DATASET_SUBSET, split=DATASET_SPLIT, revision=DATASET_REVISION)
     logger.info(f"Dataset size: {len(train_dataset)} examples")`;
   }
 }
@@ -177,9 +457,8 @@ function generateRLDatasetLoadingCode(config: PipelineConfig): string {
     logger.info(f"Dataset size: {len(train_dataset)} examples")`;
   } else {
     return `    # Load dataset from HuggingFace
-    logger.info(f"Loading dataset: {DATASET}...")
-    dataset = datasets.load_dataset(DATASET, "main")
-    train_dataset = dataset["train"]
+    logger.info(f"Loading dataset: {DATASET} ({DATASET_SPLIT})...")
+    train_dataset = datasets.load_dataset(DATASET, DATASET_SUBSET, split=DATASET_SPLIT, revision=DATASET_REVISION)
     logger.info(f"Dataset size: {len(train_dataset)} examples")`;
   }
 }
@@ -210,10 +489,377 @@ def load_custom_dataset():
   }
 }
 
-function generateSFTCode(config: PipelineConfig, model?: Model): string {
+function generateDatasetSourceCode(config: PipelineConfig): string {
+  if (config.dataset.preset === "custom" && config.dataset.customData) return "";
+
+  const { subset, split, revision } = getDatasetSource(config.dataset);
+  if (subset) validateSafeIdentifier(subset, "Dataset subset");
+  validateSafeIdentifier(split, "Dataset split");
+  if (revision) validateSafeIdentifier(revision, "Dataset revision");
+
+  return `DATASET_SUBSET = ${pythonStringOrNone(subset)}
+DATASET_SPLIT = ${pythonStringOrNone(split)}
+DATASET_REVISION = ${pythonStringOrNone(revision)}
+`;
+}
+
+function generateColumnMappingCode(config: PipelineConfig): string {
+  const columns = getColumnMapping(config.dataset);
+  if (!columns) return "";
+
+  const lines =
+    config.mode === "sft"
+      ? columns.messages
+        ? [`MESSAGES_COLUMN = ${pythonStringOrNone(columns.messages)}`]
+        : [
+            `PROMPT_COLUMN = ${pythonStringOrNone(columns.prompt)}`,
+            `RESPONSE_COLUMN = ${pythonStringOrNone(columns.response)}`,
+          ]
+      : [
+          `PROMPT_COLUMN = ${pythonStringOrNone(columns.prompt)}`,
+          `GROUND_TRUTH_COLUMN = ${pythonStringOrNone(columns.groundTruth)}`,
+        ];
+
+  return `
+# Column mapping (rows are read from these columns instead of detecting the format)
+${lines.join("\n")}
+`;
+}
+
+function generateMixtureConfigCode(config: PipelineConfig): string {
+  if (!isDatasetMixture(config.dataset)) return "";
+
+  const sources = getMixtureSources(config.dataset);
+  const extraSources = sources.slice(1).map((source) => {
+    validateSafeIdentifier(source.preset, "Mixture dataset");
+    const { subset, split, revision } = getDatasetSource(source);
+    if (subset) validateSafeIdentifier(subset, "Mixture subset");
+    validateSafeIdentifier(split, "Mixture split");
+    if (revision) validateSafeIdentifier(revision, "Mixture revision");
+    return `    ("${escapePythonString(source.preset)}", ${pythonStringOrNone(subset)}, ${pythonStringOrNone(split)}, ${pythonStringOrNone(revision)}),`;
+  });
+
+  return `
+# Dataset mixture (DATASET is the first source; (dataset, subset, split, revision) for the rest)
+MIXTURE_SOURCES = [
+${extraSources.join("\n")}
+]
+MIXTURE_WEIGHTS = [${sources.map((source) => source.weight).join(", ")}]  # Sampling weights, normalized
+MIXTURE_MAX_EXAMPLES = [${sources.map((source) => source.maxExamples ?? "None").join(", ")}]  # None = all rows
+MIXTURE_SEED = 42
+`;
+}
+
+function generateMixtureFunctionCode(config: PipelineConfig): string {
+  if (!isDatasetMixture(config.dataset)) return "";
+
+  return `def mix_datasets(sources: list[datasets.Dataset], names: list[str]) -> datasets.Dataset:
+    """
+    Interleave the sources by MIXTURE_WEIGHTS until one runs out.
+
+    Sources are cut to the columns they share, shuffled with a fixed seed and
+    capped at MIXTURE_MAX_EXAMPLES, so the same config always gives the same mix.
+    """
+    shared = [c for c in sources[0].column_names if all(c in s.column_names for s in sources[1:])]
+    if not shared:
+        raise ValueError(f"Mixture sources have no columns in common: {names}")
+    features = sources[0].select_columns(shared).features
+
+    prepared = []
+    for index, (source, max_examples) in enumerate(zip(sources, MIXTURE_MAX_EXAMPLES)):
+        source = source.select_columns(shared).cast(features).shuffle(seed=MIXTURE_SEED)
+        if max_examples is not None:
+            source = source.select(range(min(len(source), max_examples)))
+        prepared.append(source.add_column("mixture_source", [index] * len(source)))
+
+    total_weight = sum(MIXTURE_WEIGHTS)
+    mixed = datasets.interleave_datasets(
+        prepared,
+        probabilities=[weight / total_weight for weight in MIXTURE_WEIGHTS],
+        seed=MIXTURE_SEED,
+        stopping_strategy="first_exhausted",
+    )
+
+    # Log the realized mixture next to the target weights
+    source_ids = list(mixed["mixture_source"])
+    logger.info(f"Dataset mixture: {len(mixed)} examples")
+    for index, name in enumerate(names):
+        count = source_ids.count(index)
+        logger.info(
+            f"  {name}: {count} ({count / max(len(mixed), 1):.1%}, target {MIXTURE_WEIGHTS[index] / total_weight:.1%})"
+        )
+    return mixed.remove_columns("mixture_source")
+`;
+}
+
+function generateMixtureLoadingCode(config: PipelineConfig): string {
+  if (!isDatasetMixture(config.dataset)) return "";
+
+  return `
+
+    # Mix in the other sources
+    mixture = [train_dataset]
+    for name, subset, split, revision in MIXTURE_SOURCES:
+        logger.info(f"Loading mixture source: {name} ({split})...")
+        mixture.append(datasets.load_dataset(name, subset, split=split, revision=revision))
+    train_dataset = mix_datasets(mixture, [DATASET] + [source[0] for source in MIXTURE_SOURCES])`;
+}
+
+function generateEvalConfigCode(config: PipelineConfig): string {
+  const evalConfig = config.eval;
+  if (!evalConfig?.enabled) return "";
+
+  const source =
+    evalConfig.source === "split"
+      ? `EVAL_SPLIT_FRACTION = ${evalConfig.splitFraction}`
+      : `EVAL_DATASET = "${escapePythonString(evalConfig.dataset ?? "")}"
+EVAL_DATASET_SPLIT = "${escapePythonString(evalConfig.datasetSplit)}"`;
+
+  return `
+# Held-out evaluation
+${source}
+EVAL_EVERY = ${evalConfig.everySteps}
+EVAL_BATCH_SIZE = ${evalConfig.batchSize}
+EVAL_MAX_BATCHES = ${evalConfig.maxBatches}  # 0 = evaluate the whole held-out set
+`;
+}
+
+function generateEvalFunctionCode(config: PipelineConfig): string {
+  if (!config.eval?.enabled) return "";
+
+  return `
+
+
+def compute_eval_loss(training_client, eval_batches: list[list[tinker.Datum]]) -> float:
+    """Compute validation NLL on the held-out set (forward only, no gradient update)."""
+    futures = [(training_client.forward(batch, loss_fn="cross_entropy"), batch) for batch in eval_batches]
+
+    all_logprobs = []
+    all_weights = []
+    for forward_future, batch in futures:
+        forward_result = forward_future.result()
+        all_logprobs.extend([x["logprobs"] for x in forward_result.loss_fn_outputs])
+        all_weights.extend([d.loss_fn_inputs["weights"] for d in batch])
+
+    return compute_mean_nll(all_logprobs, all_weights)`;
+}
+
+function generateEvalSetupCode(config: PipelineConfig): string {
+  if (!config.eval?.enabled) return "";
+
+  const load =
+    config.eval.source === "split"
+      ? `    # Hold out a validation split (fixed seed so resumed runs see the same split)
+    split = train_dataset.train_test_split(test_size=EVAL_SPLIT_FRACTION, seed=42)
+    train_dataset, eval_dataset = split["train"], split["test"]`
+      : `    # Load the validation dataset
+    logger.info(f"Loading eval dataset: {EVAL_DATASET} ({EVAL_DATASET_SPLIT})...")
+    eval_dataset = datasets.load_dataset(EVAL_DATASET, split=EVAL_DATASET_SPLIT)`;
+
+  return `
+
+${load}
+    if EVAL_MAX_BATCHES > 0:
+        eval_dataset = eval_dataset.select(range(min(len(eval_dataset), EVAL_MAX_BATCHES * EVAL_BATCH_SIZE)))
+
+    # Tokenize once; the same batches are scored at every evaluation
+    eval_data: list[tinker.Datum] = []
+    for row in eval_dataset:
+        try:
+            eval_data.append(row_to_datum(row, tokenizer))
+        except Exception as e:
+            logger.warning(f"Skipping eval example: {e}")
+    eval_batches = [eval_data[i:i + EVAL_BATCH_SIZE] for i in range(0, len(eval_data), EVAL_BATCH_SIZE)]
+    logger.info(f"Eval set: {len(eval_data)} examples, evaluating every {EVAL_EVERY} steps")`;
+}
+
+function generatePromptConfigCode(config: PipelineConfig): string {
+  const prompt = config.prompt;
+  if (!prompt?.enabled) return "";
+
+  return `
+# Prompt template ({column} placeholders are filled from each dataset row)
+PROMPT_TEMPLATE = "${escapePythonString(prompt.template)}"
+SYSTEM_PROMPT = ${prompt.systemPrompt?.trim() ? `"${escapePythonString(prompt.systemPrompt)}"` : "None"}
+USE_CHAT_TEMPLATE = ${prompt.useChatTemplate ? "True" : "False"}
+`;
+}
+
+function generatePromptFunctionCode(config: PipelineConfig): string {
+  if (!config.prompt?.enabled) return "";
+
+  return `
+
+
+def render_prompt(row: dict) -> str:
+    """Fill PROMPT_TEMPLATE's {column} placeholders from a dataset row."""
+    def column_value(match: re.Match) -> str:
+        if match.group(1) not in row:
+            return match.group(0)  # Not a column; keep the text as written
+        value = row[match.group(1)]
+        return value if isinstance(value, str) else json.dumps(value, ensure_ascii=False, separators=(",", ":"))
+
+    return re.sub(r"\\{(\\w+)\\}", column_value, PROMPT_TEMPLATE)
+
+
+def prompt_messages(prompt: str) -> list[dict]:
+    """Chat messages for a rendered prompt, led by the system prompt if set."""
+    messages = [{"role": "system", "content": SYSTEM_PROMPT}] if SYSTEM_PROMPT else []
+    return messages + [{"role": "user", "content": prompt}]
+
+
+def encode_prompt(prompt: str, tokenizer) -> list[int]:
+    """Tokenize a rendered prompt, wrapped in the chat template when enabled."""
+    if USE_CHAT_TEMPLATE:
+        text = tokenizer.apply_chat_template(prompt_messages(prompt), tokenize=False, add_generation_prompt=True)
+        return tokenizer.encode(text, add_special_tokens=False)
+    if SYSTEM_PROMPT:
+        prompt = f"{SYSTEM_PROMPT}\\n\\n{prompt}"
+    return tokenizer.encode(prompt, add_special_tokens=True)`;
+}
+
+// format_conversation() and format_input_output(), shared with the dataset inspector
+function generateSFTFormatCode(): string {
+  return `def format_conversation(messages: list[dict], tokenizer) -> tuple[list[int], list[float]]:
+    """
+    Format a conversation into tokens and loss weights.
+
+    Returns:
+        Tuple of (tokens, weights) where weights=1.0 for assistant tokens
+    """
+    # Apply chat template to get full text
+    text = tokenizer.apply_chat_template(messages, tokenize=False, add_generation_prompt=False)
+
+    # Tokenize full conversation
+    tokens = tokenizer.encode(text, add_special_tokens=False)
+
+    # For simplicity, train on entire sequence
+    # In production, you'd mask user/system tokens with 0.0 weights
+    weights = [1.0] * len(tokens)
+
+    return tokens, weights
+
+
+def format_input_output(input_text: str, output_text: str, tokenizer) -> tuple[list[int], list[float]]:
+    """
+    Format input/output pair into tokens and loss weights (Tinker docs style).
+    Only trains on the output portion.
+
+    Returns:
+        Tuple of (tokens, weights) where weights=1.0 for output tokens only
+    """
+    # Format: "Input: {input}\\nOutput: {output}\\n\\n"
+    prompt = f"Input: {input_text}\\nOutput:"
+    completion = f" {output_text}\\n\\n"
+
+    prompt_tokens = tokenizer.encode(prompt, add_special_tokens=True)
+    prompt_weights = [0.0] * len(prompt_tokens)
+
+    completion_tokens = tokenizer.encode(completion, add_special_tokens=False)
+    completion_weights = [1.0] * len(completion_tokens)
+
+    tokens = prompt_tokens + completion_tokens
+    weights = prompt_weights + completion_weights
+
+    return tokens, weights`;
+}
+
+function generateRowToDatumCode(config: PipelineConfig): string {
+  const templated = config.prompt?.enabled;
+  const columns = getColumnMapping(config.dataset);
+
+  if (!templated && !columns) {
+    return `def row_to_datum(row: dict, tokenizer) -> tinker.Datum:
+    """Detect a dataset row's format and convert it into a training Datum."""
+    if "input" in row and "output" in row:
+        # Input/Output format (Tinker docs style)
+        tokens, weights = format_input_output(row["input"], row["output"], tokenizer)
+    elif "messages" in row and row["messages"]:
+        # Chat format
+        tokens, weights = format_conversation(row["messages"], tokenizer)
+    else:
+        # Handle instruction/response format
+        instruction = row.get("instruction", row.get("prompt", ""))
+        response = row.get("response", row.get("completion", ""))
+        messages = [
+            {"role": "user", "content": instruction},
+            {"role": "assistant", "content": response},
+        ]
+        tokens, weights = format_conversation(messages, tokenizer)
+
+    return create_datum(tokens, weights, MAX_LENGTH)`;
+  }
+
+  let body: string;
+  if (columns?.messages) {
+    body = `    tokens, weights = format_conversation(${templated ? "with_system_prompt(row[MESSAGES_COLUMN])" : "row[MESSAGES_COLUMN]"}, tokenizer)`;
+  } else if (columns && templated) {
+    body = `    tokens, weights = format_prompt_completion(render_prompt(row), str(row[RESPONSE_COLUMN]), tokenizer)`;
+  } else if (columns) {
+    body = `    messages = [
+        {"role": "user", "content": str(row[PROMPT_COLUMN])},
+        {"role": "assistant", "content": str(row[RESPONSE_COLUMN])},
+    ]
+    tokens, weights = format_conversation(messages, tokenizer)`;
+  } else {
+    body = `    if "messages" in row and row["messages"]:
+        # Chat rows are already conversations; only the system prompt applies
+        tokens, weights = format_conversation(with_system_prompt(row["messages"]), tokenizer)
+    else:
+        completion = row.get("output", row.get("response", row.get("completion", row.get("answer", ""))))
+        tokens, weights = format_prompt_completion(render_prompt(row), str(completion), tokenizer)`;
+  }
+
+  const helpers = templated
+    ? `def with_system_prompt(messages: list[dict]) -> list[dict]:
+    """Lead a conversation with SYSTEM_PROMPT unless it has its own system turn."""
+    if SYSTEM_PROMPT and messages and messages[0].get("role") != "system":
+        return [{"role": "system", "content": SYSTEM_PROMPT}] + messages
+    return messages
+
+
+def format_prompt_completion(prompt: str, completion: str, tokenizer) -> tuple[list[int], list[float]]:
+    """
+    Format a rendered prompt and its completion into tokens and loss weights.
+    Only trains on the completion.
+
+    Returns:
+        Tuple of (tokens, weights) where weights=1.0 for completion tokens only
+    """
+    prompt_tokens = encode_prompt(prompt, tokenizer)
+
+    if USE_CHAT_TEMPLATE:
+        # Render the whole exchange so the completion ends with the template's end-of-turn tokens
+        messages = prompt_messages(prompt) + [{"role": "assistant", "content": completion}]
+        full_text = tokenizer.apply_chat_template(messages, tokenize=False, add_generation_prompt=False)
+        completion_tokens = tokenizer.encode(full_text, add_special_tokens=False)[len(prompt_tokens):]
+    else:
+        completion_tokens = tokenizer.encode(f" {completion}\\n\\n", add_special_tokens=False)
+
+    tokens = prompt_tokens + completion_tokens
+    weights = [0.0] * len(prompt_tokens) + [1.0] * len(completion_tokens)
+
+    return tokens, weights
+
+
+`
+    : "";
+
+  return `${helpers}def row_to_datum(row: dict, tokenizer) -> tinker.Datum:
+    """Convert a dataset row into a training Datum using the ${columns ? "mapped columns" : "prompt template"}."""
+${body}
+
+    return create_datum(tokens, weights, MAX_LENGTH)`;
+}
+
+function generateSFTCode(config: PipelineConfig, model?: Model, stage?: StageContext): string {
   validateSafeIdentifier(config.model.baseModel, "Base model");
   validateSafeIdentifier(config.dataset.preset, "Dataset preset");
   validateSafeIdentifier(config.checkpointing.outputDir, "Output directory");
+  if (config.eval?.enabled && config.eval.source === "dataset") {
+    validateSafeIdentifier(config.eval.dataset ?? "", "Eval dataset");
+    validateSafeIdentifier(config.eval.datasetSplit, "Eval dataset split");
+  }
 
   const datasetInfo = DATASET_PRESETS.sft.find((d) => d.id === config.dataset.preset);
   const datasetName =
@@ -234,15 +880,16 @@ Generated by Tinker Studio
 Requirements:
   pip install tinker datasets transformers torch
 
-Usage:
-  export TINKER_API_KEY="your-api-key"
-  python tinker_sft_training.py
+${generateStageHeader(config.mode, stage)}
 """
 
 import os
 import sys
 import json
 import logging
+import math
+import re
+import signal
 import time
 from functools import cache
 from typing import Any
@@ -264,25 +911,28 @@ LORA_RANK = ${config.model.loraRank}
 MAX_LENGTH = ${config.model.maxLength}
 
 DATASET = "${escapePythonString(config.dataset.preset)}"
-
+${generateDatasetSourceCode(config)}${generateMixtureConfigCode(config)}${generateColumnMappingCode(config)}${generatePromptConfigCode(config)}
 BATCH_SIZE = ${config.hyperparameters.batchSize}
 LEARNING_RATE = ${config.hyperparameters.learningRate}
 EPOCHS = ${config.hyperparameters.epochs}
 WARMUP_RATIO = ${config.hyperparameters.warmupRatio}
 GRADIENT_ACCUMULATION_STEPS = ${config.hyperparameters.gradientAccumulation}
-
+${generateOptimizerConfigCode(config)}
 SAVE_EVERY = ${config.checkpointing.saveEvery}
 OUTPUT_DIR = "${escapePythonString(config.checkpointing.outputDir)}"
 
 # Resume configuration
-RESUME_FROM_CHECKPOINT = ${config.resumeFrom ? `"${config.resumeFrom.checkpointLabel}"` : "None"}
+RESUME_FROM_CHECKPOINT = ${config.resumeFrom ? `"${getResumeCheckpoint(config.resumeFrom)}"` : "None"}
 RESUME_FROM_STEP = ${config.resumeFrom?.fromStep ?? 0}
-
+${generateEvalConfigCode(config)}${stage?.initFromPrevious ? `
+# Pipeline stage configuration (final state of the previous stage)
+INIT_FROM_STATE = os.environ.get("INIT_FROM_STATE")
+` : ""}
 # =============================================================================
 # Tokenizer Utils
 # =============================================================================
 
-${generateTokenizerCode(model)}
+${generateTokenizerCode(model)}${generatePromptFunctionCode(config)}
 
 # =============================================================================
 # Datum Creation
@@ -333,89 +983,565 @@ def create_datum(
     )
 
 
-def format_conversation(messages: list[dict], tokenizer) -> tuple[list[int], list[float]]:
-    """
-    Format a conversation into tokens and loss weights.
-
-    Returns:
-        Tuple of (tokens, weights) where weights=1.0 for assistant tokens
-    """
-    # Apply chat template to get full text
-    text = tokenizer.apply_chat_template(messages, tokenize=False, add_generation_prompt=False)
+${generateSFTFormatCode()}
 
-    # Tokenize full conversation
-    tokens = tokenizer.encode(text, add_special_tokens=False)
 
-    # For simplicity, train on entire sequence
-    # In production, you'd mask user/system tokens with 0.0 weights
-    weights = [1.0] * len(tokens)
+${generateRowToDatumCode(config)}
 
-    return tokens, weights
 
+def compute_mean_nll(
+    logprobs_list: list[tinker.TensorData],
+    weights_list: list[tinker.TensorData],
+) -> float:
+    """Compute weighted mean negative log likelihood from forward/backward outputs."""
+    total_weighted_logprobs = 0.0
+    total_weights = 0.0
 
-def format_input_output(input_text: str, output_text: str, tokenizer) -> tuple[list[int], list[float]]:
-    """
-    Format input/output pair into tokens and loss weights (Tinker docs style).
-    Only trains on the output portion.
+    for logprobs, weights in zip(logprobs_list, weights_list, strict=True):
+        logprobs_torch = logprobs.to_torch()
+        weights_torch = weights.to_torch()
+        total_weighted_logprobs += logprobs_torch.dot(weights_torch)
+        total_weights += weights_torch.sum()
 
-    Returns:
-        Tuple of (tokens, weights) where weights=1.0 for output tokens only
-    """
-    # Format: "Input: {input}\\nOutput: {output}\\n\\n"
-    prompt = f"Input: {input_text}\\nOutput:"
-    completion = f" {output_text}\\n\\n"
+    if total_weights == 0:
+        return float("nan")
 
-    prompt_tokens = tokenizer.encode(prompt, add_special_tokens=True)
-    prompt_weights = [0.0] * len(prompt_tokens)
+    return float(-total_weighted_logprobs / total_weights)${generateEvalFunctionCode(config)}
 
-    completion_tokens = tokenizer.encode(completion, add_special_tokens=False)
-    completion_weights = [1.0] * len(completion_tokens)
 
-    tokens = prompt_tokens + completion_tokens
-    weights = prompt_weights + completion_weights
+# =============================================================================
+# Dataset Loading Utils
+# =============================================================================
 
-    return tokens, weights
+${generateDatasetModuleCode(config)}${generateMixtureFunctionCode(config)}
 
+${generateLRScheduleCode(config)}${generateGracefulStopCode()}# =============================================================================
+# Training
+# =============================================================================
 
-def compute_mean_nll(
-    logprobs_list: list[tinker.TensorData],
-    weights_list: list[tinker.TensorData],
-) -> float:
-    """Compute weighted mean negative log likelihood from forward/backward outputs."""
-    total_weighted_logprobs = 0.0
-    total_weights = 0.0
+def main():
+    """Main training loop."""
+    print(f"{'='*60}")
+    print(f"Tinker Studio - Supervised Fine-Tuning")
+    print(f"{'='*60}")
+    print(f"Model: {MODEL}")
+    print(f"Dataset: {DATASET}")
+    print(f"LoRA Rank: {LORA_RANK}")
+    print(f"Batch Size: {BATCH_SIZE}")
+    print(f"Learning Rate: {LEARNING_RATE}")
+    print(f"Epochs: {EPOCHS}")
+    print(f"{'='*60}\\n")
+
+    # Check for API key
+    if not os.environ.get("TINKER_API_KEY"):
+        print("Error: TINKER_API_KEY environment variable not set")
+        print("Get your API key from: https://tinker-console.thinkingmachines.ai")
+        sys.exit(1)
+
+    # Setup
+    logger.info("Loading tokenizer...")
+    tokenizer = get_tokenizer(MODEL)
+
+    ${generateDatasetLoadingCode(config)}${generateMixtureLoadingCode(config)}${generateEvalSetupCode(config)}
+
+    # Initialize Tinker client
+    logger.info("Initializing Tinker client...")
+    service_client = tinker.ServiceClient()
+
+    # Note: Tinker API handles LoRA alpha scaling internally.
+    # The effective scaling is applied automatically based on the rank.
+    training_client = service_client.create_lora_training_client(
+        base_model=MODEL,
+        rank=LORA_RANK,
+    )
+    logger.info("Training client ready")
+
+    # Effective batch size with gradient accumulation
+    effective_batch_size = BATCH_SIZE * GRADIENT_ACCUMULATION_STEPS
+    logger.info(f"Effective batch size: {effective_batch_size} (batch_size={BATCH_SIZE} x accumulation_steps={GRADIENT_ACCUMULATION_STEPS})")
+
+${generateStageInitCode(stage)}    # Resume from checkpoint if specified
+    if RESUME_FROM_CHECKPOINT:
+        logger.info(f"Resuming from checkpoint: {RESUME_FROM_CHECKPOINT}")
+        training_client.load_state(RESUME_FROM_CHECKPOINT).result()
+        logger.info(f"Checkpoint loaded, resuming from step {RESUME_FROM_STEP}")
+
+    # Calculate training steps (accounting for gradient accumulation)
+    n_train_batches = len(train_dataset) // BATCH_SIZE
+    n_optimizer_steps_per_epoch = n_train_batches // GRADIENT_ACCUMULATION_STEPS
+    total_steps = n_optimizer_steps_per_epoch * EPOCHS
+    warmup_steps = int(total_steps * WARMUP_RATIO)
+
+    logger.info(f"Training for {total_steps} optimizer steps ({warmup_steps} warmup)")
+    logger.info(f"  {n_train_batches} batches/epoch, {GRADIENT_ACCUMULATION_STEPS} accumulation steps")
+    if RESUME_FROM_CHECKPOINT:
+        logger.info(f"Resuming from step {RESUME_FROM_STEP} of {total_steps}")
+    print(f"{'='*60}\\n")
+
+    # Training loop
+    global_step = RESUME_FROM_STEP  # Start from resume step or 0
+    graceful_stop = GracefulStop()
+    total_elapsed_time = 0.0
+
+    # Sample prompt for checkpoint inference
+${config.prompt?.enabled ? `    SAMPLE_PROMPT = render_prompt(train_dataset[0])` : `    SAMPLE_PROMPT = "Explain what machine learning is in simple terms."`}
+
+    for epoch in range(EPOCHS):
+        logger.info(f"Epoch {epoch + 1}/{EPOCHS}")
+
+        # Shuffle dataset each epoch
+        shuffled = train_dataset.shuffle(seed=42 + epoch)
+
+        # Process batches with gradient accumulation
+        batch_idx = 0
+        while batch_idx < n_train_batches:
+            # Skip already completed steps when resuming
+            current_optimizer_step = epoch * n_optimizer_steps_per_epoch + (batch_idx // GRADIENT_ACCUMULATION_STEPS)
+            if current_optimizer_step < RESUME_FROM_STEP:
+                batch_idx += GRADIENT_ACCUMULATION_STEPS
+                continue
+
+            start_time = time.time()
+
+            # Accumulate gradients over multiple mini-batches
+            accumulated_losses = []
+            accumulated_tokens = 0
+            fwd_bwd_results = []
+            accumulated_batches = []
+
+            for accum_step in range(GRADIENT_ACCUMULATION_STEPS):
+                if batch_idx + accum_step >= n_train_batches:
+                    break
+
+                # Get mini-batch data
+                mini_batch_start = (batch_idx + accum_step) * BATCH_SIZE
+                mini_batch_end = min((batch_idx + accum_step + 1) * BATCH_SIZE, len(shuffled))
+                batch_rows = shuffled.select(range(mini_batch_start, mini_batch_end))
+
+                # Convert to Datums
+                batch: list[tinker.Datum] = []
+                for row in batch_rows:
+                    try:
+                        batch.append(row_to_datum(row, tokenizer))
+                    except Exception as e:
+                        logger.warning(f"Skipping example: {e}")
+                        continue
+
+                if not batch:
+                    continue
+
+                accumulated_batches.append(batch)
+                accumulated_tokens += sum(d.model_input.length for d in batch)
+
+                # Forward-backward pass (accumulates gradients)
+                fwd_bwd_future = training_client.forward_backward(batch, loss_fn="cross_entropy")
+                fwd_bwd_results.append((fwd_bwd_future, batch))
+
+            # Skip if no valid batches in this accumulation window
+            if not fwd_bwd_results:
+                batch_idx += GRADIENT_ACCUMULATION_STEPS
+                continue
+
+            # Learning rate schedule
+            current_lr = LEARNING_RATE * get_lr_multiplier(global_step, total_steps, warmup_steps)
+
+            adam_params = tinker.AdamParams(
+                learning_rate=current_lr,
+                beta1=ADAM_BETA1,
+                beta2=ADAM_BETA2,
+                eps=ADAM_EPS,
+                weight_decay=WEIGHT_DECAY,
+                grad_clip_norm=GRAD_CLIP_NORM,
+            )
+
+            # Optimizer step (applies accumulated gradients)
+            optim_step_future = training_client.optim_step(adam_params)
+
+            # Collect all forward-backward results and compute average loss
+            all_logprobs = []
+            all_weights = []
+            for fwd_bwd_future, batch in fwd_bwd_results:
+                fwd_bwd_result = fwd_bwd_future.result()
+                all_logprobs.extend([x["logprobs"] for x in fwd_bwd_result.loss_fn_outputs])
+                all_weights.extend([d.loss_fn_inputs["weights"] for d in batch])
+
+            _optim_result = optim_step_future.result()
+
+            # Compute metrics
+            elapsed = time.time() - start_time
+            total_elapsed_time += elapsed
+
+            # Compute average loss across accumulated batches
+            train_loss = compute_mean_nll(all_logprobs, all_weights)
+${config.eval?.enabled ? `
+            # Held-out evaluation (after the optimizer step, so it scores the updated weights)
+            eval_loss = None
+            if eval_batches and (global_step % EVAL_EVERY == 0 or global_step == total_steps - 1):
+                eval_loss = compute_eval_loss(training_client, eval_batches)
+                logger.info(f"Step {global_step}: eval_loss={eval_loss:.4f}")
+` : ""}
+            # Calculate derived metrics
+            tokens_per_second = accumulated_tokens / elapsed if elapsed > 0 else 0
+            avg_step_time = total_elapsed_time / (global_step + 1)
+            remaining_steps = total_steps - global_step - 1
+            eta_seconds = avg_step_time * remaining_steps if remaining_steps > 0 else 0
+
+            # Output structured metrics (every optimizer step)
+            print(f"METRIC::{json.dumps({
+                'step': global_step,
+                'total_steps': total_steps,
+                'loss': round(float(train_loss), 6),${config.eval?.enabled ? `
+                **({'eval_loss': round(float(eval_loss), 6)} if eval_loss is not None else {}),` : ""}
+                'lr': current_lr,
+                'tokens': accumulated_tokens,
+                'tokens_per_second': round(tokens_per_second, 2),
+                'wall_clock_time_ms': round(elapsed * 1000, 2),
+                'eta_seconds': round(eta_seconds, 2)
+            })}")
+            sys.stdout.flush()
+
+            # Checkpointing
+            if SAVE_EVERY > 0 and global_step > 0 and global_step % SAVE_EVERY == 0:
+                checkpoint_label = f"checkpoint-{global_step}"
+                logger.info(f"Saving checkpoint: {checkpoint_label}")
+
+                # Save training state (for resuming training)
+                state_path = training_client.save_state(checkpoint_label).result().path
+
+                # Save sampler weights (for inference via OpenAI-compatible endpoint)
+                sampler_path = training_client.save_weights_for_sampler(
+                    name=checkpoint_label
+                ).result().path
+                logger.info(f"Sampler weights saved: {sampler_path}")
+
+                # Quick inference sample to show progress
+                try:
+                    sampling_client = service_client.create_sampling_client(model_path=sampler_path)
+
+                    prompt_tokens = ${config.prompt?.enabled ? "encode_prompt(SAMPLE_PROMPT, tokenizer)" : "tokenizer.encode(SAMPLE_PROMPT, add_special_tokens=True)"}
+
+                    sample_result = sampling_client.sample(
+                        prompt=tinker.ModelInput(chunks=[tinker.types.EncodedTextChunk(tokens=prompt_tokens)]),
+                        num_samples=1,
+                        sampling_params=tinker.types.SamplingParams(max_tokens=128, temperature=0.7),
+                    ).result()
+
+                    sample_text = tokenizer.decode(list(sample_result.sequences[0].tokens), skip_special_tokens=True)
+
+                    print(f"CHECKPOINT_SAMPLE::{json.dumps({
+                        'step': global_step,
+                        'checkpoint_label': checkpoint_label,
+                        'state_path': state_path,
+                        'sampler_path': sampler_path,
+                        'prompt': SAMPLE_PROMPT,
+                        'response': sample_text
+                    })}")
+                    sys.stdout.flush()
+                except Exception as e:
+                    logger.warning(f"Checkpoint sampling failed: {e}")
+
+${generateStopCheckCode()}
+            global_step += 1
+            batch_idx += GRADIENT_ACCUMULATION_STEPS
+
+    # Save final model
+    print(f"\\n{'='*60}")
+    print("Training complete!")
+    print(f"{'='*60}")
+
+    final_label = "final"
+    logger.info(f"Saving final model: {final_label}")
+    final_state_path = training_client.save_state(final_label).result().path
+
+    # Create sampling client for inference
+    logger.info("Creating sampling client for inference...")
+    weights_path = training_client.save_weights_for_sampler(name="final").result().path
+    sampling_client = service_client.create_sampling_client(model_path=weights_path)
+
+${generateStageCompleteCode()}
+
+    logger.info("Model ready for inference!")
+    logger.info(f"Use sampling_client.sample() to generate text")
+
+    return sampling_client
+
+
+if __name__ == "__main__":
+    main()
+`;
+}
+
+function generateDPODatasetLoadingCode(config: PipelineConfig): string {
+  if (config.dataset.preset === "custom" && config.dataset.customData) {
+    return `    # Load dataset
+    logger.info("Loading custom preference dataset...")
+    raw_data = load_custom_dataset()
+    train_dataset = datasets.Dataset.from_list(raw_data)
+    logger.info(f"Dataset size: {len(train_dataset)} pairs")`;
+  } else {
+    return `    # Load dataset from HuggingFace
+    logger.info(f"Loading dataset: {DATASET} ({DATASET_SPLIT})...")
+    train_dataset = datasets.load_dataset(DATASET, DATASET_SUBSET, split=DATASET_SPLIT, revision=DATASET_REVISION)
+    logger.info(f"Dataset size: {len(train_dataset)} pairs")`;
+  }
+}
+
+function generateDPOCode(config: PipelineConfig, model?: Model, stage?: StageContext): string {
+  validateSafeIdentifier(config.model.baseModel, "Base model");
+  validateSafeIdentifier(config.dataset.preset, "Dataset preset");
+  validateSafeIdentifier(config.checkpointing.outputDir, "Output directory");
+
+  const datasetInfo = DATASET_PRESETS.dpo.find((d) => d.id === config.dataset.preset);
+  const datasetName =
+    config.dataset.preset === "custom"
+      ? "Custom Dataset"
+      : datasetInfo?.name ?? config.dataset.preset;
+  const dpo = config.dpo!;
+
+  const referenceCheckpoint =
+    dpo.referenceModel === "checkpoint" ? dpo.referenceCheckpointPath ?? "" : "";
+  if (referenceCheckpoint) {
+    validateTinkerPath(referenceCheckpoint, "Reference checkpoint");
+  }
+
+  return `#!/usr/bin/env python3
+"""
+Direct Preference Optimization (DPO) with Tinker API
+====================================================
+Dataset: ${escapePythonString(datasetName)}
+Model: ${escapePythonString(config.model.baseModel)}
+Beta: ${dpo.beta}
+LoRA Rank: ${config.model.loraRank}
+
+Generated by Tinker Studio
+
+This implements Direct Preference Optimization (DPO):
+1. Tokenize each chosen/rejected pair, weighting only the final assistant turn
+2. Score both completions under the frozen reference policy
+3. Score both completions under the policy being trained
+4. Minimize -log(sigmoid(beta * (chosen_logratio - rejected_logratio)))
+
+Requirements:
+  pip install tinker datasets transformers torch
+
+${generateStageHeader(config.mode, stage)}
+"""
+
+import os
+import sys
+import json
+import logging
+import math
+import signal
+import time
+from functools import cache
+from typing import Any
+
+import datasets
+import tinker
+import torch
+import torch.nn.functional as F
+from transformers import AutoTokenizer
+
+logger = logging.getLogger(__name__)
+logging.basicConfig(level=logging.INFO, format="%(asctime)s - %(levelname)s - %(message)s", stream=sys.stdout)
+
+# =============================================================================
+# Configuration
+# =============================================================================
+
+MODEL = "${escapePythonString(config.model.baseModel)}"
+LORA_RANK = ${config.model.loraRank}
+MAX_LENGTH = ${config.model.maxLength}
+
+DATASET = "${escapePythonString(config.dataset.preset)}"
+${generateDatasetSourceCode(config)}${generateMixtureConfigCode(config)}
+BATCH_SIZE = ${config.hyperparameters.batchSize}  # Preference pairs per batch
+LEARNING_RATE = ${config.hyperparameters.learningRate}
+EPOCHS = ${config.hyperparameters.epochs}
+WARMUP_RATIO = ${config.hyperparameters.warmupRatio}
+GRADIENT_ACCUMULATION_STEPS = ${config.hyperparameters.gradientAccumulation}
+${generateOptimizerConfigCode(config)}
+DPO_BETA = ${dpo.beta}
+# None = score against the frozen base model
+REFERENCE_CHECKPOINT = ${referenceCheckpoint ? `"${escapePythonString(referenceCheckpoint)}"` : "None"}
+
+SAVE_EVERY = ${config.checkpointing.saveEvery}
+OUTPUT_DIR = "${escapePythonString(config.checkpointing.outputDir)}"
+
+# Resume configuration
+RESUME_FROM_CHECKPOINT = ${config.resumeFrom ? `"${getResumeCheckpoint(config.resumeFrom)}"` : "None"}
+RESUME_FROM_STEP = ${config.resumeFrom?.fromStep ?? 0}
+${stage?.initFromPrevious ? `
+# Pipeline stage configuration (final state of the previous stage)
+INIT_FROM_STATE = os.environ.get("INIT_FROM_STATE")
+INIT_FROM_SAMPLER = os.environ.get("INIT_FROM_SAMPLER")
+# Without a reference checkpoint, stay close to the previous stage's result
+REFERENCE_CHECKPOINT = REFERENCE_CHECKPOINT or INIT_FROM_SAMPLER
+` : ""}
+# =============================================================================
+# Tokenizer Utils
+# =============================================================================
+
+${generateTokenizerCode(model)}
+
+# =============================================================================
+# Datum Creation
+# =============================================================================
+
+def create_datum(
+    input_tokens: list[int],
+    weights: list[float],
+    max_length: int | None = None,
+) -> tinker.Datum:
+    """
+    Create a training Datum for the Tinker API.
+
+    Args:
+        input_tokens: Full token sequence
+        weights: Loss weights per token (1.0 for completion tokens, 0.0 for the prompt)
+        max_length: Optional truncation length
+    """
+    # Truncate if needed
+    if max_length and len(input_tokens) > max_length:
+        input_tokens = input_tokens[:max_length]
+        weights = weights[:max_length]
+
+    if len(input_tokens) < 2:
+        raise ValueError("Need at least 2 tokens for input/target split")
+
+    # Create input (all but last token) and target (all but first token)
+    input_seq = input_tokens[:-1]
+    target_seq = input_tokens[1:]
+    loss_weights = weights[1:]  # Weights align with targets
+
+    return tinker.Datum(
+        model_input=tinker.ModelInput(
+            chunks=[tinker.types.EncodedTextChunk(tokens=input_seq)]
+        ),
+        loss_fn_inputs={
+            "weights": tinker.TensorData(
+                data=loss_weights,
+                dtype="float32",
+                shape=[len(loss_weights)],
+            ),
+            "target_tokens": tinker.TensorData(
+                data=target_seq,
+                dtype="int64",
+                shape=[len(target_seq)],
+            ),
+        },
+    )
+
+
+def build_preference_pair(row: dict) -> tuple[list[dict], list[dict]] | None:
+    """
+    Extract (chosen, rejected) conversations from a preference row.
+
+    Supports chosen/rejected as message lists (UltraFeedback style) or as
+    plain strings next to a prompt/input/question column (Orca pairs style).
+    """
+    chosen = row.get("chosen")
+    rejected = row.get("rejected")
+    if not chosen or not rejected:
+        return None
+
+    if isinstance(chosen, list) and isinstance(rejected, list):
+        return chosen, rejected
+
+    prompt = row.get("prompt", row.get("input", row.get("question", "")))
+    messages = []
+    if row.get("system"):
+        messages.append({"role": "system", "content": row["system"]})
+    messages.append({"role": "user", "content": prompt})
+
+    return (
+        messages + [{"role": "assistant", "content": str(chosen)}],
+        messages + [{"role": "assistant", "content": str(rejected)}],
+    )
+
+
+def format_preference_completion(messages: list[dict], tokenizer) -> tuple[list[int], list[float]]:
+    """
+    Format a conversation into tokens and loss weights.
+
+    Returns:
+        Tuple of (tokens, weights) where weights=1.0 for the final assistant turn only
+    """
+    prompt_text = tokenizer.apply_chat_template(messages[:-1], tokenize=False, add_generation_prompt=True)
+    full_text = tokenizer.apply_chat_template(messages, tokenize=False, add_generation_prompt=False)
+
+    prompt_tokens = tokenizer.encode(prompt_text, add_special_tokens=False)
+    tokens = tokenizer.encode(full_text, add_special_tokens=False)
+
+    n_prompt = min(len(prompt_tokens), len(tokens))
+    weights = [0.0] * n_prompt + [1.0] * (len(tokens) - n_prompt)
+
+    return tokens, weights
+
+
+def compute_reference_logprobs(reference_client, datum: tinker.Datum) -> torch.Tensor:
+    """Per-target-token logprobs of a datum under the frozen reference policy."""
+    target_tokens = datum.loss_fn_inputs["target_tokens"].to_torch()
+    full_sequence = datum.model_input.append_int(int(target_tokens[-1]))
+    logprobs = reference_client.compute_logprobs(full_sequence).result()
+    # The first token has no preceding context, so it carries no logprob
+    return torch.tensor([lp if lp is not None else 0.0 for lp in logprobs[1:]], dtype=torch.float32)
+
+
+def make_dpo_loss_fn(reference_logprobs: list[torch.Tensor]):
+    """
+    Build a DPO loss over datums laid out as [chosen_0, rejected_0, chosen_1, ...].
+    """
+    def dpo_loss_fn(data: list[tinker.Datum], logprobs_list: list[torch.Tensor]):
+        chosen_logratios = []
+        rejected_logratios = []
+
+        for i in range(0, len(data), 2):
+            chosen_weights = data[i].loss_fn_inputs["weights"].to_torch().float()
+            rejected_weights = data[i + 1].loss_fn_inputs["weights"].to_torch().float()
 
-    for logprobs, weights in zip(logprobs_list, weights_list, strict=True):
-        logprobs_torch = logprobs.to_torch()
-        weights_torch = weights.to_torch()
-        total_weighted_logprobs += logprobs_torch.dot(weights_torch)
-        total_weights += weights_torch.sum()
+            chosen_policy = torch.dot(logprobs_list[i].float(), chosen_weights)
+            rejected_policy = torch.dot(logprobs_list[i + 1].float(), rejected_weights)
+            chosen_reference = torch.dot(reference_logprobs[i], chosen_weights)
+            rejected_reference = torch.dot(reference_logprobs[i + 1], rejected_weights)
 
-    if total_weights == 0:
-        return float("nan")
+            chosen_logratios.append(chosen_policy - chosen_reference)
+            rejected_logratios.append(rejected_policy - rejected_reference)
+
+        margins = DPO_BETA * (torch.stack(chosen_logratios) - torch.stack(rejected_logratios))
+        loss = -F.logsigmoid(margins).mean()
 
-    return float(-total_weighted_logprobs / total_weights)
+        return loss, {
+            "dpo_loss": loss.item(),
+            "accuracy": (margins > 0).float().mean().item(),
+            "reward_margin": margins.mean().item(),
+        }
+
+    return dpo_loss_fn
 
 
 # =============================================================================
 # Dataset Loading Utils
 # =============================================================================
 
-${generateDatasetModuleCode(config)}
+${generateDatasetModuleCode(config)}${generateMixtureFunctionCode(config)}
 
-# =============================================================================
+${generateLRScheduleCode(config)}${generateGracefulStopCode()}# =============================================================================
 # Training
 # =============================================================================
 
 def main():
-    """Main training loop."""
+    """Main DPO training loop."""
     print(f"{'='*60}")
-    print(f"Tinker Studio - Supervised Fine-Tuning")
+    print(f"Tinker Studio - Direct Preference Optimization")
     print(f"{'='*60}")
     print(f"Model: {MODEL}")
     print(f"Dataset: {DATASET}")
     print(f"LoRA Rank: {LORA_RANK}")
-    print(f"Batch Size: {BATCH_SIZE}")
+    print(f"Beta: {DPO_BETA}")
+    print(f"Reference: {REFERENCE_CHECKPOINT or 'base model'}")
+    print(f"Batch Size: {BATCH_SIZE} pairs")
     print(f"Learning Rate: {LEARNING_RATE}")
     print(f"Epochs: {EPOCHS}")
     print(f"{'='*60}\\n")
@@ -430,10 +1556,10 @@ def main():
     logger.info("Loading tokenizer...")
     tokenizer = get_tokenizer(MODEL)
 
-    ${generateDatasetLoadingCode(config)}
+    ${generateDPODatasetLoadingCode(config)}${generateMixtureLoadingCode(config)}
 
-    # Initialize Tinker client
-    logger.info("Initializing Tinker client...")
+    # Initialize Tinker clients
+    logger.info("Initializing Tinker clients...")
     service_client = tinker.ServiceClient()
 
     # Note: Tinker API handles LoRA alpha scaling internally.
@@ -442,13 +1568,19 @@ def main():
         base_model=MODEL,
         rank=LORA_RANK,
     )
-    logger.info("Training client ready")
+
+    # Reference policy stays frozen for the whole run
+    if REFERENCE_CHECKPOINT:
+        reference_client = service_client.create_sampling_client(model_path=REFERENCE_CHECKPOINT)
+    else:
+        reference_client = service_client.create_sampling_client(base_model=MODEL)
+    logger.info("Clients ready")
 
     # Effective batch size with gradient accumulation
     effective_batch_size = BATCH_SIZE * GRADIENT_ACCUMULATION_STEPS
-    logger.info(f"Effective batch size: {effective_batch_size} (batch_size={BATCH_SIZE} x accumulation_steps={GRADIENT_ACCUMULATION_STEPS})")
+    logger.info(f"Effective batch size: {effective_batch_size} pairs (batch_size={BATCH_SIZE} x accumulation_steps={GRADIENT_ACCUMULATION_STEPS})")
 
-    # Resume from checkpoint if specified
+${generateStageInitCode(stage)}    # Resume from checkpoint if specified
     if RESUME_FROM_CHECKPOINT:
         logger.info(f"Resuming from checkpoint: {RESUME_FROM_CHECKPOINT}")
         training_client.load_state(RESUME_FROM_CHECKPOINT).result()
@@ -468,6 +1600,7 @@ def main():
 
     # Training loop
     global_step = RESUME_FROM_STEP  # Start from resume step or 0
+    graceful_stop = GracefulStop()
     total_elapsed_time = 0.0
 
     # Sample prompt for checkpoint inference
@@ -490,11 +1623,8 @@ def main():
 
             start_time = time.time()
 
-            # Accumulate gradients over multiple mini-batches
-            accumulated_losses = []
             accumulated_tokens = 0
-            fwd_bwd_results = []
-            accumulated_batches = []
+            fwd_bwd_futures = []
 
             for accum_step in range(GRADIENT_ACCUMULATION_STEPS):
                 if batch_idx + accum_step >= n_train_batches:
@@ -505,82 +1635,66 @@ def main():
                 mini_batch_end = min((batch_idx + accum_step + 1) * BATCH_SIZE, len(shuffled))
                 batch_rows = shuffled.select(range(mini_batch_start, mini_batch_end))
 
-                # Convert to Datums
+                # Convert pairs to interleaved [chosen, rejected] Datums
                 batch: list[tinker.Datum] = []
                 for row in batch_rows:
                     try:
-                        # Detect format and process accordingly
-                        if "input" in row and "output" in row:
-                            # Input/Output format (Tinker docs style)
-                            tokens, weights = format_input_output(row["input"], row["output"], tokenizer)
-                        elif "messages" in row and row["messages"]:
-                            # Chat format
-                            tokens, weights = format_conversation(row["messages"], tokenizer)
-                        else:
-                            # Handle instruction/response format
-                            instruction = row.get("instruction", row.get("prompt", ""))
-                            response = row.get("response", row.get("completion", ""))
-                            messages = [
-                                {"role": "user", "content": instruction},
-                                {"role": "assistant", "content": response},
-                            ]
-                            tokens, weights = format_conversation(messages, tokenizer)
-
-                        datum = create_datum(tokens, weights, MAX_LENGTH)
-                        batch.append(datum)
+                        pair = build_preference_pair(row)
+                        if pair is None:
+                            continue
+                        chosen_messages, rejected_messages = pair
+                        chosen_tokens, chosen_weights = format_preference_completion(chosen_messages, tokenizer)
+                        rejected_tokens, rejected_weights = format_preference_completion(rejected_messages, tokenizer)
+                        chosen_datum = create_datum(chosen_tokens, chosen_weights, MAX_LENGTH)
+                        rejected_datum = create_datum(rejected_tokens, rejected_weights, MAX_LENGTH)
+                        batch.extend([chosen_datum, rejected_datum])
                     except Exception as e:
-                        logger.warning(f"Skipping example: {e}")
+                        logger.warning(f"Skipping pair: {e}")
                         continue
 
                 if not batch:
                     continue
 
-                accumulated_batches.append(batch)
                 accumulated_tokens += sum(d.model_input.length for d in batch)
 
-                # Forward-backward pass (accumulates gradients)
-                fwd_bwd_future = training_client.forward_backward(batch, loss_fn="cross_entropy")
-                fwd_bwd_results.append((fwd_bwd_future, batch))
+                # Score the batch under the frozen reference policy
+                reference_logprobs = [compute_reference_logprobs(reference_client, d) for d in batch]
+
+                # Forward-backward pass with the DPO loss (accumulates gradients)
+                fwd_bwd_future = training_client.forward_backward_custom(batch, make_dpo_loss_fn(reference_logprobs))
+                fwd_bwd_futures.append(fwd_bwd_future)
 
             # Skip if no valid batches in this accumulation window
-            if not fwd_bwd_results:
+            if not fwd_bwd_futures:
                 batch_idx += GRADIENT_ACCUMULATION_STEPS
                 continue
 
-            # Calculate learning rate with linear warmup and decay
-            if global_step < warmup_steps:
-                lr_mult = global_step / warmup_steps
-            else:
-                lr_mult = max(0.0, 1.0 - (global_step - warmup_steps) / (total_steps - warmup_steps))
-
-            current_lr = LEARNING_RATE * lr_mult
+            # Learning rate schedule
+            current_lr = LEARNING_RATE * get_lr_multiplier(global_step, total_steps, warmup_steps)
 
             adam_params = tinker.AdamParams(
                 learning_rate=current_lr,
-                beta1=0.9,
-                beta2=0.95,
-                eps=1e-8,
+                beta1=ADAM_BETA1,
+                beta2=ADAM_BETA2,
+                eps=ADAM_EPS,
+                weight_decay=WEIGHT_DECAY,
+                grad_clip_norm=GRAD_CLIP_NORM,
             )
 
             # Optimizer step (applies accumulated gradients)
             optim_step_future = training_client.optim_step(adam_params)
 
-            # Collect all forward-backward results and compute average loss
-            all_logprobs = []
-            all_weights = []
-            for fwd_bwd_future, batch in fwd_bwd_results:
-                fwd_bwd_result = fwd_bwd_future.result()
-                all_logprobs.extend([x["logprobs"] for x in fwd_bwd_result.loss_fn_outputs])
-                all_weights.extend([d.loss_fn_inputs["weights"] for d in batch])
-
+            # Collect DPO metrics across accumulated batches
+            step_metrics = [f.result().metrics for f in fwd_bwd_futures]
             _optim_result = optim_step_future.result()
 
             # Compute metrics
             elapsed = time.time() - start_time
             total_elapsed_time += elapsed
 
-            # Compute average loss across accumulated batches
-            train_loss = compute_mean_nll(all_logprobs, all_weights)
+            train_loss = sum(m["dpo_loss"] for m in step_metrics) / len(step_metrics)
+            accuracy = sum(m["accuracy"] for m in step_metrics) / len(step_metrics)
+            reward_margin = sum(m["reward_margin"] for m in step_metrics) / len(step_metrics)
 
             # Calculate derived metrics
             tokens_per_second = accumulated_tokens / elapsed if elapsed > 0 else 0
@@ -588,11 +1702,14 @@ def main():
             remaining_steps = total_steps - global_step - 1
             eta_seconds = avg_step_time * remaining_steps if remaining_steps > 0 else 0
 
+            logger.info(f"Preference accuracy: {accuracy:.2%}")
+
             # Output structured metrics (every optimizer step)
             print(f"METRIC::{json.dumps({
                 'step': global_step,
                 'total_steps': total_steps,
                 'loss': round(float(train_loss), 6),
+                'reward': round(float(reward_margin), 4),
                 'lr': current_lr,
                 'tokens': accumulated_tokens,
                 'tokens_per_second': round(tokens_per_second, 2),
@@ -607,7 +1724,7 @@ def main():
                 logger.info(f"Saving checkpoint: {checkpoint_label}")
 
                 # Save training state (for resuming training)
-                training_client.save_state(checkpoint_label).result()
+                state_path = training_client.save_state(checkpoint_label).result().path
 
                 # Save sampler weights (for inference via OpenAI-compatible endpoint)
                 sampler_path = training_client.save_weights_for_sampler(
@@ -632,6 +1749,7 @@ def main():
                     print(f"CHECKPOINT_SAMPLE::{json.dumps({
                         'step': global_step,
                         'checkpoint_label': checkpoint_label,
+                        'state_path': state_path,
                         'sampler_path': sampler_path,
                         'prompt': SAMPLE_PROMPT,
                         'response': sample_text
@@ -640,6 +1758,7 @@ def main():
                 except Exception as e:
                     logger.warning(f"Checkpoint sampling failed: {e}")
 
+${generateStopCheckCode()}
             global_step += 1
             batch_idx += GRADIENT_ACCUMULATION_STEPS
 
@@ -650,15 +1769,16 @@ def main():
 
     final_label = "final"
     logger.info(f"Saving final model: {final_label}")
-    training_client.save_state(final_label).result()
+    final_state_path = training_client.save_state(final_label).result().path
 
     # Create sampling client for inference
     logger.info("Creating sampling client for inference...")
     weights_path = training_client.save_weights_for_sampler(name="final").result().path
     sampling_client = service_client.create_sampling_client(model_path=weights_path)
 
+${generateStageCompleteCode()}
+
     logger.info("Model ready for inference!")
-    logger.info(f"Use sampling_client.sample() to generate text")
 
     return sampling_client
 
@@ -668,7 +1788,41 @@ if __name__ == "__main__":
 `;
 }
 
-function generateRLCode(config: PipelineConfig, model?: Model): string {
+function generateRLRowPromptCode(config: PipelineConfig): string {
+  const templated = config.prompt?.enabled;
+
+  if (getColumnMapping(config.dataset)) {
+    return templated
+      ? `                    # Fill the prompt template; the answer comes from the mapped column
+                    question = render_prompt(row)
+                    ground_truth = str(row[GROUND_TRUTH_COLUMN])`
+      : `                    # Read the mapped prompt and answer columns
+                    question = str(row[PROMPT_COLUMN])
+                    ground_truth = str(row[GROUND_TRUTH_COLUMN])
+                    prompt_text = f"Solve this problem step by step:\\n\\n{question}\\n\\nAnswer:"`;
+  }
+
+  if (!templated) {
+    return `                    # Support both question/answer and input/output formats
+                    if "input" in row:
+                        question = row["input"]
+                        ground_truth = str(row.get("output", ""))
+                        prompt_text = f"Input: {question}\\nOutput:"
+                    else:
+                        question = row["question"]
+                        ground_truth = str(row.get("answer", row.get("solution", "")))
+                        prompt_text = f"Solve this problem step by step:\\n\\n{question}\\n\\nAnswer:"`;
+  }
+
+  return `                    # Fill the prompt template from the row's columns
+                    question = render_prompt(row)
+                    if "input" in row:
+                        ground_truth = str(row.get("output", ""))
+                    else:
+                        ground_truth = str(row.get("answer", row.get("solution", "")))`;
+}
+
+function generateRLCode(config: PipelineConfig, model?: Model, stage?: StageContext): string {
   validateSafeIdentifier(config.model.baseModel, "Base model");
   validateSafeIdentifier(config.dataset.preset, "Dataset preset");
   validateSafeIdentifier(config.checkpointing.outputDir, "Output directory");
@@ -680,10 +1834,12 @@ function generateRLCode(config: PipelineConfig, model?: Model): string {
       : datasetInfo?.name ?? config.dataset.preset;
   const rl = config.rl!;
 
-  const allowedRewardFunctions = ["exact_match", "math_equivalence", "code_execution", "custom"];
-  if (!allowedRewardFunctions.includes(rl.rewardFunction)) {
+  if (!REWARD_FUNCTIONS.some((r) => r.id === rl.rewardFunction)) {
     throw new Error(`Invalid reward function: ${rl.rewardFunction}`);
   }
+  if (usesReward(rl, "judge") && rl.judge?.model === "checkpoint" && rl.judge.checkpointPath) {
+    validateTinkerPath(rl.judge.checkpointPath, "Judge checkpoint");
+  }
 
   return `#!/usr/bin/env python3
 """
@@ -691,7 +1847,7 @@ Reinforcement Learning (GRPO) with Tinker API
 ==============================================
 Dataset: ${escapePythonString(datasetName)}
 Model: ${escapePythonString(config.model.baseModel)}
-Reward: ${escapePythonString(rl.rewardFunction)}
+Reward: ${escapePythonString(describeReward(rl))}
 LoRA Rank: ${config.model.loraRank}
 
 Generated by Tinker Studio
@@ -700,14 +1856,13 @@ This implements Group Relative Policy Optimization (GRPO):
 1. Generate multiple responses per prompt
 2. Compute rewards for each response
 3. Calculate advantages (reward - mean_reward per group)
-4. Train on weighted log-probs with importance sampling
+4. Penalize per-token KL divergence from the frozen base policy
+5. Train on weighted log-probs with importance sampling
 
 Requirements:
-  pip install tinker datasets transformers torch
+  pip install tinker datasets transformers torch${usesReward(rl, "json_schema") ? " jsonschema" : ""}
 
-Usage:
-  export TINKER_API_KEY="your-api-key"
-  python tinker_rl_training.py
+${generateStageHeader(config.mode, stage)}
 """
 
 import os
@@ -715,6 +1870,8 @@ import sys
 import re
 import json
 import logging
+import math
+import signal
 import time
 from functools import cache
 from typing import Any
@@ -737,13 +1894,13 @@ LORA_RANK = ${config.model.loraRank}
 MAX_LENGTH = ${config.model.maxLength}
 
 DATASET = "${escapePythonString(config.dataset.preset)}"
-
+${generateDatasetSourceCode(config)}${generateMixtureConfigCode(config)}${generateColumnMappingCode(config)}${generatePromptConfigCode(config)}
 BATCH_SIZE = ${config.hyperparameters.batchSize}
 LEARNING_RATE = ${config.hyperparameters.learningRate}
 EPOCHS = ${config.hyperparameters.epochs}
 WARMUP_RATIO = ${config.hyperparameters.warmupRatio}
 GRADIENT_ACCUMULATION_STEPS = ${config.hyperparameters.gradientAccumulation}
-
+${generateOptimizerConfigCode(config)}
 GROUP_SIZE = ${rl.groupSize}
 KL_COEFFICIENT = ${rl.klCoefficient}
 TEMPERATURE = ${rl.temperature}
@@ -753,20 +1910,24 @@ SAVE_EVERY = ${config.checkpointing.saveEvery}
 OUTPUT_DIR = "${escapePythonString(config.checkpointing.outputDir)}"
 
 # Resume configuration
-RESUME_FROM_CHECKPOINT = ${config.resumeFrom ? `"${config.resumeFrom.checkpointLabel}"` : "None"}
+RESUME_FROM_CHECKPOINT = ${config.resumeFrom ? `"${getResumeCheckpoint(config.resumeFrom)}"` : "None"}
 RESUME_FROM_STEP = ${config.resumeFrom?.fromStep ?? 0}
-
+${stage?.initFromPrevious ? `
+# Pipeline stage configuration (final state of the previous stage)
+INIT_FROM_STATE = os.environ.get("INIT_FROM_STATE")
+INIT_FROM_SAMPLER = os.environ.get("INIT_FROM_SAMPLER")  # KL reference
+` : ""}
 # =============================================================================
 # Tokenizer Utils
 # =============================================================================
 
-${generateTokenizerCode(model)}
+${generateTokenizerCode(model)}${generatePromptFunctionCode(config)}
 
 # =============================================================================
 # Reward Functions
 # =============================================================================
 
-${generateRewardFunction(rl.rewardFunction)}
+${generateRewardCode(rl)}
 
 
 def compute_advantages(rewards: list[float]) -> list[float]:
@@ -776,13 +1937,23 @@ def compute_advantages(rewards: list[float]) -> list[float]:
     mean_reward = sum(rewards) / len(rewards)
     return [r - mean_reward for r in rewards]
 
+
+def compute_token_kl(sampled_logprobs: list[float], reference_logprobs: list[float]) -> list[float]:
+    """
+    Per-token KL estimate between the sampling policy and the reference policy.
+
+    Uses log(pi(a|s)) - log(pi_ref(a|s)) for each sampled token, whose expectation
+    under the sampling policy is KL(pi || pi_ref).
+    """
+    return [lp - ref_lp for lp, ref_lp in zip(sampled_logprobs, reference_logprobs)]
+
 # =============================================================================
 # Dataset Loading Utils
 # =============================================================================
 
-${generateRLDatasetModuleCode(config)}
+${generateRLDatasetModuleCode(config)}${generateMixtureFunctionCode(config)}
 
-# =============================================================================
+${generateLRScheduleCode(config)}${generateGracefulStopCode()}# =============================================================================
 # Training
 # =============================================================================
 
@@ -793,7 +1964,7 @@ def main():
     print(f"{'='*60}")
     print(f"Model: {MODEL}")
     print(f"Dataset: {DATASET}")
-    print(f"Reward Function: ${escapePythonString(rl.rewardFunction)}")
+    print(f"Reward Function: ${escapePythonString(describeReward(rl))}")
     print(f"LoRA Rank: {LORA_RANK}")
     print(f"Group Size: {GROUP_SIZE} samples/prompt")
     print(f"KL Coefficient: {KL_COEFFICIENT}")
@@ -807,7 +1978,7 @@ def main():
     # Setup
     tokenizer = get_tokenizer(MODEL)
 
-    ${generateRLDatasetLoadingCode(config)}
+    ${generateRLDatasetLoadingCode(config)}${generateMixtureLoadingCode(config)}
 
     # Initialize clients
     logger.info("Initializing Tinker clients...")
@@ -819,13 +1990,24 @@ def main():
         base_model=MODEL,
         rank=LORA_RANK,
     )
-    logger.info("Clients ready")
+
+${stage?.initFromPrevious ? `    # Frozen KL reference: the previous stage's result, so the policy isn't pulled back to the base
+    if KL_COEFFICIENT <= 0:
+        reference_client = None
+    elif INIT_FROM_SAMPLER:
+        reference_client = service_client.create_sampling_client(model_path=INIT_FROM_SAMPLER)
+    else:
+        logger.warning("INIT_FROM_SAMPLER is not set; using the base model as the KL reference")
+        reference_client = service_client.create_sampling_client(base_model=MODEL)
+` : `    # Frozen base policy used as the KL reference
+    reference_client = service_client.create_sampling_client(base_model=MODEL) if KL_COEFFICIENT > 0 else None
+`}    logger.info("Clients ready")
 
     # Effective batch size with gradient accumulation
     effective_batch_size = BATCH_SIZE * GRADIENT_ACCUMULATION_STEPS
     logger.info(f"Effective batch size: {effective_batch_size} (batch_size={BATCH_SIZE} x accumulation_steps={GRADIENT_ACCUMULATION_STEPS})")
 
-    # Resume from checkpoint if specified
+${generateStageInitCode(stage)}    # Resume from checkpoint if specified
     if RESUME_FROM_CHECKPOINT:
         logger.info(f"Resuming from checkpoint: {RESUME_FROM_CHECKPOINT}")
         training_client.load_state(RESUME_FROM_CHECKPOINT).result()
@@ -845,12 +2027,14 @@ def main():
 
     # Training loop
     global_step = RESUME_FROM_STEP  # Start from resume step or 0
+    graceful_stop = GracefulStop()
     total_elapsed_time = 0.0
     total_reward = 0.0
     reward_count = 0
+    reward_component_totals: dict[str, float] = {}
 
     # Sample prompt for checkpoint inference
-    SAMPLE_PROMPT = "What is 15 + 27?"
+${config.prompt?.enabled ? `    SAMPLE_PROMPT = render_prompt(train_dataset[0])` : `    SAMPLE_PROMPT = "What is 15 + 27?"`}
 
     for epoch in range(EPOCHS):
         logger.info(f"Epoch {epoch + 1}/{EPOCHS}")
@@ -876,6 +2060,8 @@ def main():
             # Accumulate datums and forward-backward calls
             accumulated_datums: list[types.Datum] = []
             accumulated_rewards: list[float] = []
+            accumulated_reward_parts: list[dict[str, float]] = []
+            accumulated_kl: list[float] = []
             fwd_bwd_futures = []
 
             for accum_step in range(GRADIENT_ACCUMULATION_STEPS):
@@ -889,19 +2075,16 @@ def main():
 
                 datums: list[types.Datum] = []
                 rewards_all: list[float] = []
+                reward_parts_all: list[dict[str, float]] = []
 
                 # Process each question/input
                 for row in batch_rows:
-                    # Support both question/answer and input/output formats
-                    if "input" in row:
-                        question = row["input"]
-                        ground_truth = str(row.get("output", ""))
-                        prompt_text = f"Input: {question}\\nOutput:"
-                    else:
-                        question = row["question"]
-                        ground_truth = str(row.get("answer", row.get("solution", "")))
-                        prompt_text = f"Solve this problem step by step:\\n\\n{question}\\n\\nAnswer:"
-                    prompt_tokens = tokenizer.encode(prompt_text, add_special_tokens=True)
+${generateRLRowPromptCode(config)}
+                    # Coding rows carry test cases instead of an answer; code_execution runs them
+                    tests = row.get("tests") or row.get("test_list")
+                    if tests:
+                        ground_truth = json.dumps(tests if isinstance(tests, list) else [tests])
+                    prompt_tokens = ${config.prompt?.enabled ? "encode_prompt(question, tokenizer)" : "tokenizer.encode(prompt_text, add_special_tokens=True)"}
                     prompt_input = types.ModelInput(
                         chunks=[types.EncodedTextChunk(tokens=prompt_tokens)]
                     )
@@ -920,11 +2103,19 @@ def main():
                         sampling_params=sampling_params,
                     ).result()
 
-                    # Compute rewards
+                    # Score all completions under the reference policy in parallel
+                    reference_futures = []
+                    if reference_client is not None:
+                        for sequence in sample_result.sequences:
+                            reference_futures.append(reference_client.compute_logprobs(
+                                types.ModelInput(chunks=[types.EncodedTextChunk(tokens=prompt_tokens + list(sequence.tokens))])
+                            ))
+
+                    # Compute rewards and per-token KL
                     group_rewards: list[float] = []
-                    group_data: list[tuple] = []  # (tokens, logprobs, reward)
+                    group_data: list[tuple] = []  # (tokens, logprobs, reward, reward_parts, token_kl)
 
-                    for sequence in sample_result.sequences:
+                    for seq_idx, sequence in enumerate(sample_result.sequences):
                         sampled_tokens = list(sequence.tokens)
                         # logprobs should always be returned for sampled tokens
                         if sequence.logprobs is None:
@@ -932,9 +2123,19 @@ def main():
                             continue
                         sampled_logprobs = list(sequence.logprobs)
                         response_text = tokenizer.decode(sampled_tokens, skip_special_tokens=True)
-                        reward = compute_reward(response_text, ground_truth)
+                        reward_parts = compute_reward_components(question, response_text, ground_truth, len(sampled_tokens))
+                        reward = sum(reward_parts.values())
+
+                        if reference_futures:
+                            # Reference logprobs are returned for every input token; keep the completion
+                            reference_logprobs = reference_futures[seq_idx].result()[prompt_len:]
+                            reference_logprobs = [lp if lp is not None else 0.0 for lp in reference_logprobs]
+                            token_kl = compute_token_kl(sampled_logprobs, reference_logprobs)
+                        else:
+                            token_kl = [0.0] * len(sampled_tokens)
+
                         group_rewards.append(reward)
-                        group_data.append((sampled_tokens, sampled_logprobs, reward))
+                        group_data.append((sampled_tokens, sampled_logprobs, reward, reward_parts, token_kl))
 
                     # Skip if no valid samples in group
                     if not group_rewards:
@@ -948,15 +2149,18 @@ def main():
                         continue
 
                     # Create training data
-                    for (sampled_tokens, logprobs, reward), advantage in zip(group_data, advantages):
+                    for (sampled_tokens, logprobs, reward, reward_parts, token_kl), advantage in zip(group_data, advantages):
                         # Full sequence: prompt + completion (minus last token for input)
                         full_tokens = prompt_tokens + sampled_tokens
                         input_tokens = full_tokens[:-1]
                         target_tokens = full_tokens[1:]
 
+                        # Fold the KL penalty into the per-token advantages
+                        token_advantages = [advantage - KL_COEFFICIENT * kl for kl in token_kl]
+
                         # Pad logprobs for prompt tokens
                         padded_logprobs = [0.0] * (prompt_len - 1) + logprobs
-                        padded_advantages = [0.0] * (prompt_len - 1) + [advantage] * len(sampled_tokens)
+                        padded_advantages = [0.0] * (prompt_len - 1) + token_advantages
 
                         datum = types.Datum(
                             model_input=types.ModelInput(
@@ -982,6 +2186,8 @@ def main():
                         )
                         datums.append(datum)
                         rewards_all.append(reward)
+                        reward_parts_all.append(reward_parts)
+                        accumulated_kl.extend(token_kl)
 
                 if datums:
                     # Forward-backward pass (accumulates gradients)
@@ -992,6 +2198,7 @@ def main():
                     fwd_bwd_futures.append(fwd_bwd_future)
                     accumulated_datums.extend(datums)
                     accumulated_rewards.extend(rewards_all)
+                    accumulated_reward_parts.extend(reward_parts_all)
 
             # Skip if no valid datums in this accumulation window
             if not fwd_bwd_futures:
@@ -1001,20 +2208,20 @@ def main():
             # Track rewards
             total_reward += sum(accumulated_rewards)
             reward_count += len(accumulated_rewards)
+            for reward_parts in accumulated_reward_parts:
+                for name, value in reward_parts.items():
+                    reward_component_totals[name] = reward_component_totals.get(name, 0.0) + value
 
-            # Learning rate
-            if global_step < warmup_steps:
-                lr_mult = global_step / warmup_steps
-            else:
-                lr_mult = max(0.0, 1.0 - (global_step - warmup_steps) / (total_steps - warmup_steps))
-
-            current_lr = LEARNING_RATE * lr_mult
+            # Learning rate schedule
+            current_lr = LEARNING_RATE * get_lr_multiplier(global_step, total_steps, warmup_steps)
 
             adam_params = tinker.AdamParams(
                 learning_rate=current_lr,
-                beta1=0.9,
-                beta2=0.95,
-                eps=1e-8,
+                beta1=ADAM_BETA1,
+                beta2=ADAM_BETA2,
+                eps=ADAM_EPS,
+                weight_decay=WEIGHT_DECAY,
+                grad_clip_norm=GRAD_CLIP_NORM,
             )
 
             # Optimizer step (applies accumulated gradients)
@@ -1029,6 +2236,12 @@ def main():
             elapsed = time.time() - start_time
             total_elapsed_time += elapsed
             avg_reward = total_reward / reward_count if reward_count > 0 else 0
+            avg_reward_components = {
+                name: round(total / reward_count, 4) for name, total in reward_component_totals.items()
+            } if reward_count > 0 else {}
+            mean_kl = sum(accumulated_kl) / len(accumulated_kl) if accumulated_kl else 0.0${usesReward(rl, "judge") ? `
+            judge_latency_ms = round(1000 * sum(judge_latencies) / len(judge_latencies), 1) if judge_latencies else 0.0
+            judge_latencies.clear()` : ""}
 
             # Calculate derived metrics
             avg_step_time = total_elapsed_time / (global_step + 1)
@@ -1040,7 +2253,10 @@ def main():
                 'step': global_step,
                 'total_steps': total_steps,
                 'loss': 0.0,
-                'reward': round(avg_reward, 4),
+                'reward': round(avg_reward, 4),${isCompositeReward(rl) ? `
+                'reward_components': avg_reward_components,` : ""}${usesReward(rl, "judge") ? `
+                'judge_latency_ms': judge_latency_ms,` : ""}
+                'kl': round(mean_kl, 6),
                 'lr': current_lr,
                 'tokens': len(accumulated_datums),
                 'tokens_per_second': round(len(accumulated_datums) / elapsed, 2) if elapsed > 0 else 0,
@@ -1053,6 +2269,7 @@ def main():
             if global_step % 10 == 0:
                 total_reward = 0.0
                 reward_count = 0
+                reward_component_totals = {}
 
             # Checkpointing
             if SAVE_EVERY > 0 and global_step > 0 and global_step % SAVE_EVERY == 0:
@@ -1060,7 +2277,7 @@ def main():
                 logger.info(f"Saving checkpoint: {checkpoint_label}")
 
                 # Save training state (for resuming training)
-                training_client.save_state(checkpoint_label).result()
+                state_path = training_client.save_state(checkpoint_label).result().path
 
                 # Save sampler weights (for inference via OpenAI-compatible endpoint)
                 sampler_path = training_client.save_weights_for_sampler(
@@ -1072,8 +2289,8 @@ def main():
                 try:
                     checkpoint_sampling_client = service_client.create_sampling_client(model_path=sampler_path)
 
-                    prompt_text = f"Solve this problem step by step:\\n\\n{SAMPLE_PROMPT}\\n\\nAnswer:"
-                    prompt_tokens = tokenizer.encode(prompt_text, add_special_tokens=True)
+${config.prompt?.enabled ? `                    prompt_tokens = encode_prompt(SAMPLE_PROMPT, tokenizer)` : `                    prompt_text = f"Solve this problem step by step:\\n\\n{SAMPLE_PROMPT}\\n\\nAnswer:"
+                    prompt_tokens = tokenizer.encode(prompt_text, add_special_tokens=True)`}
                     prompt_input = types.ModelInput(
                         chunks=[types.EncodedTextChunk(tokens=prompt_tokens)]
                     )
@@ -1089,6 +2306,7 @@ def main():
                     print(f"CHECKPOINT_SAMPLE::{json.dumps({
                         'step': global_step,
                         'checkpoint_label': checkpoint_label,
+                        'state_path': state_path,
                         'sampler_path': sampler_path,
                         'prompt': SAMPLE_PROMPT,
                         'response': sample_text
@@ -1097,6 +2315,7 @@ def main():
                 except Exception as e:
                     logger.warning(f"Checkpoint sampling failed: {e}")
 
+${generateStopCheckCode()}
             global_step += 1
             batch_idx += GRADIENT_ACCUMULATION_STEPS
 
@@ -1107,7 +2326,10 @@ def main():
 
     final_label = "final"
     logger.info(f"Saving final model: {final_label}")
-    training_client.save_state(final_label).result()
+    final_state_path = training_client.save_state(final_label).result().path
+    weights_path = training_client.save_weights_for_sampler(name="final").result().path
+
+${generateStageCompleteCode()}
 
     logger.info("Model ready for inference!")
 
@@ -1117,7 +2339,89 @@ if __name__ == "__main__":
 `;
 }
 
-function generateRewardFunction(rewardType: string): string {
+/**
+ * Reward code for an RL script: the component functions plus
+ * compute_reward_components(), which returns each weighted term. The training
+ * loop sums the terms into the reward and reports their averages separately.
+ */
+function generateRewardCode(rl: NonNullable<PipelineConfig["rl"]>): string {
+  // Unknown ids are rejected by validation; skip them so they never become identifiers
+  const components = getRewardComponents(rl).filter(({ fn }) => isKnownReward(fn));
+
+  if (!isCompositeReward(rl) || components.length === 0) {
+    return `${generateRewardFunction(rl.rewardFunction, rl)}
+
+
+def compute_reward_components(prompt: str, response: str, ground_truth: str, num_tokens: int) -> dict[str, float]:
+    """Single reward function, reported as one component."""
+    return {"${escapePythonString(rl.rewardFunction)}": compute_reward(${rewardCallArgs(rl.rewardFunction)})}`;
+  }
+
+  const functions = components.map(({ fn }) => {
+    switch (fn) {
+      case "format":
+        return `def reward_format(response: str, ground_truth: str) -> float:
+    """Format reward: 1.0 if the response marks its final answer."""
+    marked = re.search(r"\\\\boxed\\{[^}]+\\}|(?:answer|result)\\s*(?:is|=|:)\\s*\\S", response, re.IGNORECASE)
+    return 1.0 if marked else 0.0`;
+      case "length":
+        return `def reward_length(response: str, ground_truth: str, num_tokens: int) -> float:
+    """Length term: number of generated tokens (use a negative weight to penalize)."""
+    return float(num_tokens)`;
+      case "custom":
+        // Kept verbatim so the user's code can still call its own compute_reward
+        return `${generateRewardFunction(fn, rl)}
+
+
+reward_custom = compute_reward`;
+      default:
+        return generateRewardFunction(fn, rl).replace(/^def compute_reward\(/m, `def reward_${fn}(`);
+    }
+  });
+
+  const weights = components
+    .map(({ fn, weight }) => `    "${escapePythonString(fn)}": ${Number.isFinite(weight) ? weight : 0},`)
+    .join("\n");
+  const terms = components
+    .map(({ fn }) => {
+      return `        "${escapePythonString(fn)}": REWARD_WEIGHTS["${escapePythonString(fn)}"] * reward_${fn}(${rewardCallArgs(fn)}),`;
+    })
+    .join("\n");
+
+  return `${functions.join("\n\n\n")}
+
+
+# Weight of each reward component; the reward is the weighted sum
+REWARD_WEIGHTS = {
+${weights}
+}
+
+
+def compute_reward_components(prompt: str, response: str, ground_truth: str, num_tokens: int) -> dict[str, float]:
+    """Weighted value of each reward component for one response."""
+    return {
+${terms}
+    }`;
+}
+
+// Arguments a reward function takes inside compute_reward_components()
+function rewardCallArgs(fn: string): string {
+  if (fn === "length") return "response, ground_truth, num_tokens";
+  if (fn === "judge") return "response, ground_truth, prompt";
+  return "response, ground_truth";
+}
+
+// Human-readable reward, e.g. "1 * math_equivalence + 0.2 * format"
+function describeReward(rl: NonNullable<PipelineConfig["rl"]>): string {
+  if (!isCompositeReward(rl)) return rl.rewardFunction;
+  return getRewardComponents(rl)
+    .map(({ fn, weight }) => `${weight} * ${fn}`)
+    .join(" + ");
+}
+
+function generateRewardFunction(rewardType: string, rl: NonNullable<PipelineConfig["rl"]>): string {
+  const customReward = rl.customReward;
+
   switch (rewardType) {
     case "exact_match":
       return `def extract_answer(response: str) -> str:
@@ -1180,7 +2484,29 @@ def compute_reward(response: str, ground_truth: str) -> float:
     return 1.0 if relative_error < 1e-6 else 0.0`;
 
     case "code_execution":
-      return `def extract_code(response: str) -> str | None:
+      return `import resource
+import secrets
+import subprocess
+import tempfile
+import textwrap
+
+# Sandbox limits for running generated code
+CODE_TIMEOUT_SECONDS = 10
+CODE_MEMORY_BYTES = 512 * 1024 * 1024
+CODE_MAX_FILE_BYTES = 1024 * 1024
+
+# Prepended to every program so sockets can't connect even without a network
+# namespace. The class stays in place so modules that subclass it (ssl, asyncio) import.
+SANDBOX_PRELUDE = """import socket as _socket
+def _network_disabled(*args, **kwargs):
+    raise OSError("network access is disabled in the reward sandbox")
+for _name in ("connect", "connect_ex", "bind", "sendto"):
+    setattr(_socket.socket, _name, _network_disabled)
+_socket.create_connection = _socket.getaddrinfo = _network_disabled
+del _socket, _network_disabled, _name
+"""
+
+def extract_code(response: str) -> str | None:
     """Extract Python code from a response."""
     code_match = re.search(r"\`\`\`(?:python)?\\n([\\s\\S]*?)\`\`\`", response)
     if code_match:
@@ -1189,35 +2515,246 @@ def compute_reward(response: str, ground_truth: str) -> float:
     lines = response.split("\\n")
     code_lines = [l for l in lines if l.startswith("    ") or l.startswith("\\t")]
     if code_lines:
-        return "\\n".join(l.lstrip() for l in code_lines)
+        return textwrap.dedent("\\n".join(code_lines))
+    return None
+
+
+@cache
+def network_isolation() -> list[str]:
+    """Command prefix that runs programs in an empty network namespace, if the host allows it."""
+    try:
+        probe = subprocess.run(["unshare", "--user", "--net", "true"], capture_output=True, timeout=5)
+        return ["unshare", "--user", "--net"] if probe.returncode == 0 else []
+    except (OSError, subprocess.TimeoutExpired):
+        logger.warning("unshare unavailable; code rewards rely on the socket guard for network isolation")
+        return []
+
+
+def limit_resources():
+    """Applied in the child before exec: CPU time, address space and file size."""
+    resource.setrlimit(resource.RLIMIT_CPU, (CODE_TIMEOUT_SECONDS, CODE_TIMEOUT_SECONDS))
+    resource.setrlimit(resource.RLIMIT_AS, (CODE_MEMORY_BYTES, CODE_MEMORY_BYTES))
+    resource.setrlimit(resource.RLIMIT_FSIZE, (CODE_MAX_FILE_BYTES, CODE_MAX_FILE_BYTES))
+
+
+def run_sandboxed(source: str, stdin: str = "") -> subprocess.CompletedProcess | None:
+    """Run Python source in an isolated interpreter with no secrets in its environment.
+    Returns None if it could not run or timed out."""
+    with tempfile.TemporaryDirectory() as workdir:
+        path = os.path.join(workdir, "program.py")
+        with open(path, "w") as f:
+            f.write(SANDBOX_PRELUDE + source)
+        try:
+            return subprocess.run(
+                network_isolation() + [sys.executable, "-I", path],
+                input=stdin,
+                capture_output=True,
+                text=True,
+                cwd=workdir,
+                env={"PATH": os.environ.get("PATH", ""), "LANG": "C.UTF-8"},
+                preexec_fn=limit_resources,
+                timeout=CODE_TIMEOUT_SECONDS,
+            )
+        except (OSError, subprocess.TimeoutExpired):
+            return None
+
+
+def parse_tests(ground_truth: str) -> list | None:
+    """Test cases of a coding row (serialized into ground_truth), or None for a plain answer."""
+    try:
+        tests = json.loads(ground_truth)
+    except ValueError:
+        return None
+    if isinstance(tests, list) and tests and all(isinstance(t, (str, dict)) for t in tests):
+        return normalize_tests(tests)
     return None
 
 
+def normalize_tests(tests: list) -> list:
+    """Split dict-of-lists test sets ({"inputs": [...], "outputs": [...]}, as many
+    Hugging Face coding datasets store them) into one {"input", "output"} test per pair."""
+    normalized = []
+    for test in tests:
+        if isinstance(test, dict) and isinstance(test.get("inputs"), list) and isinstance(test.get("outputs"), list):
+            normalized.extend({"input": i, "output": o} for i, o in zip(test["inputs"], test["outputs"]))
+        else:
+            normalized.append(test)
+    return normalized
+
+
+def count_passed_io_tests(code: str, tests: list[dict]) -> int:
+    """Run the program once per test with its input on stdin and compare stdout."""
+    passed = 0
+    for test in tests:
+        result = run_sandboxed(code, str(test.get("input", "")))
+        if result and result.returncode == 0 and result.stdout.strip() == str(test.get("output", "")).strip():
+            passed += 1
+    return passed
+
+
+def count_passed_assert_tests(code: str, tests: list[str]) -> int:
+    """Run the solution with each assert block in its own sandboxed process. A test
+    passes only if the process exits with the code raised after the test, which is
+    random per run, so a solution that exits early or disables the asserts fails."""
+    passed = 0
+    for test in tests:
+        exit_code = 3 + secrets.randbelow(120)
+        # Not run as __main__, so the solution's own entry point doesn't wait for input
+        program = f'__name__ = "solution"\\n{code}\\n\\n{test}\\n\\nraise SystemExit({exit_code})\\n'
+        result = run_sandboxed(program)
+        if result and result.returncode == exit_code:
+            passed += 1
+    return passed
+
+
 def compute_reward(response: str, ground_truth: str) -> float:
-    """Code execution reward: 1.0 if correct output, 0.5 if runs, 0.0 otherwise."""
-    import subprocess
-    import tempfile
+    """
+    Code execution reward, run in a sandbox (CPU/memory/time limits, no network).
 
+    Rows with test cases score the fraction of tests that pass: {"input", "output"}
+    tests feed stdin and compare stdout, string tests are assert blocks run after the
+    solution. Rows with a plain answer score 1.0 if stdout matches it, 0.5 if the code
+    only runs.
+    """
     code = extract_code(response)
     if not code:
         return 0.0
 
+    tests = parse_tests(ground_truth)
+    if tests is None:
+        result = run_sandboxed(code)
+        if result is None or result.returncode != 0:
+            return 0.0
+        return 1.0 if result.stdout.strip() == ground_truth.strip() else 0.5
+
+    io_tests = [t for t in tests if isinstance(t, dict)]
+    assert_tests = [t for t in tests if isinstance(t, str)]
+    passed = 0
+    if io_tests:
+        passed += count_passed_io_tests(code, io_tests)
+    if assert_tests:
+        passed += count_passed_assert_tests(code, assert_tests)
+    return passed / len(tests)`;
+
+    case "regex_match":
+      return `REWARD_REGEX = re.compile("${escapePythonString(rl.rewardRegex ?? "")}")
+
+
+def compute_reward(response: str, ground_truth: str) -> float:
+    """Regex reward: 1.0 if the pattern matches; with a group, group 1 must equal the answer."""
+    match = REWARD_REGEX.search(response)
+    if not match:
+        return 0.0
+    if REWARD_REGEX.groups == 0:
+        return 1.0
+    return 1.0 if (match.group(1) or "").strip() == ground_truth.strip() else 0.0`;
+
+    case "answer_tags":
+      return `def compute_reward(response: str, ground_truth: str) -> float:
+    """Format reward: 1.0 if the response has exactly one non-empty <answer>...</answer> block."""
+    answers = re.findall(r"<answer>(.*?)</answer>", response, re.DOTALL)
+    return 1.0 if len(answers) == 1 and answers[0].strip() else 0.0`;
+
+    case "json_schema":
+      return `import jsonschema
+
+REWARD_JSON_SCHEMA = json.loads("${escapePythonString(rl.rewardJsonSchema ?? "{}")}")
+REWARD_JSON_VALIDATOR = jsonschema.validators.validator_for(REWARD_JSON_SCHEMA)(REWARD_JSON_SCHEMA)
+
+
+def extract_json(response: str) -> Any:
+    """Parse JSON from a response, preferring a fenced code block."""
+    fenced = re.search(r"\`\`\`(?:json)?\\s*\\n([\\s\\S]*?)\`\`\`", response)
+    return json.loads(fenced.group(1) if fenced else response.strip())
+
+
+def compute_reward(response: str, ground_truth: str) -> float:
+    """JSON schema reward: 1.0 if the response is JSON that satisfies the schema."""
     try:
-        with tempfile.NamedTemporaryFile(mode='w', suffix='.py', delete=False) as f:
-            f.write(code)
-            f.flush()
-            result = subprocess.run(
-                ['python', f.name],
-                capture_output=True, text=True, timeout=10,
-            )
-            if result.returncode != 0:
-                return 0.0
-            return 1.0 if result.stdout.strip() == ground_truth.strip() else 0.5
-    except:
-        return 0.0`;
+        instance = extract_json(response)
+    except ValueError:
+        return 0.0
+    return 1.0 if REWARD_JSON_VALIDATOR.is_valid(instance) else 0.0`;
+
+    case "judge": {
+      const judge = rl.judge;
+      const checkpoint = judge?.model === "checkpoint" ? judge.checkpointPath ?? "" : "";
+      return `from functools import lru_cache
+
+# LLM judge configuration
+JUDGE_CHECKPOINT = ${checkpoint ? `"${escapePythonString(checkpoint)}"` : "None"}  # None = frozen base model
+JUDGE_RUBRIC = "${escapePythonString(judge?.rubric ?? "")}"
+JUDGE_MAX_SCORE = ${judge?.maxScore ?? 10}
+JUDGE_MAX_TOKENS = 16
+
+# Seconds taken by each uncached judge call since the last metrics line
+judge_latencies: list[float] = []
+
+
+@cache
+def get_judge_client():
+    """Sampling client for the judge: a sampler checkpoint or the frozen base model."""
+    service_client = tinker.ServiceClient()
+    if JUDGE_CHECKPOINT:
+        return service_client.create_sampling_client(model_path=JUDGE_CHECKPOINT)
+    return service_client.create_sampling_client(base_model=MODEL)
+
+
+@cache
+def get_judge_tokenizer():
+    """Tokenizer of the judge's own base model, which a checkpoint may not share with the policy."""
+    if not JUDGE_CHECKPOINT:
+        return get_tokenizer(MODEL)
+    # Sampler paths look like tinker://<training run>/sampler_weights/<name>
+    training_run_id = JUDGE_CHECKPOINT.removeprefix("tinker://").split("/")[0]
+    training_run = tinker.ServiceClient().create_rest_client().get_training_run(training_run_id).result()
+    if training_run.base_model != MODEL:
+        logger.info(f"Judge checkpoint was trained from {training_run.base_model}; using its tokenizer")
+    return get_tokenizer(training_run.base_model)
+
+
+@lru_cache(maxsize=10000)
+def judge_score(prompt: str, response: str, ground_truth: str) -> float:
+    """Ask the judge to rate one response. Cached, so repeated samples cost one call."""
+    fields = {"prompt": prompt, "response": response, "ground_truth": ground_truth}
+    # Substitute only the known placeholders so other braces in the rubric stay literal
+    judge_prompt = re.sub(r"\\{(prompt|response|ground_truth)\\}", lambda m: fields[m.group(1)], JUDGE_RUBRIC)
+    judge_tokenizer = get_judge_tokenizer()
+    if judge_tokenizer.chat_template:
+        # Instruct judges expect their chat format
+        prompt_tokens = judge_tokenizer.apply_chat_template(
+            [{"role": "user", "content": judge_prompt}], tokenize=True, add_generation_prompt=True
+        )
+    else:
+        prompt_tokens = judge_tokenizer.encode(judge_prompt, add_special_tokens=True)
+
+    start = time.time()
+    result = get_judge_client().sample(
+        prompt=types.ModelInput(chunks=[types.EncodedTextChunk(tokens=prompt_tokens)]),
+        num_samples=1,
+        sampling_params=types.SamplingParams(max_tokens=JUDGE_MAX_TOKENS, temperature=0.0),
+    ).result()
+    judge_latencies.append(time.time() - start)
+
+    verdict = judge_tokenizer.decode(list(result.sequences[0].tokens), skip_special_tokens=True)
+    match = re.search(r"-?\\d+(?:\\.\\d+)?", verdict)
+    if not match:
+        logger.warning(f"Judge reply has no score: {verdict!r}")
+        return 0.0
+    return min(max(float(match.group()) / JUDGE_MAX_SCORE, 0.0), 1.0)
+
+
+def compute_reward(response: str, ground_truth: str, prompt: str = "") -> float:
+    """LLM judge reward: the judge's rubric score scaled to 0-1."""
+    return judge_score(prompt, response, ground_truth)`;
+    }
 
     case "custom":
     default:
+      if (customReward?.trim()) {
+        return `# Custom reward function (edited in Tinker Studio)
+${customReward.trim()}`;
+      }
       return `def compute_reward(response: str, ground_truth: str) -> float:
     """
     Custom reward function - implement your own logic.
@@ -1234,6 +2771,79 @@ def compute_reward(response: str, ground_truth: str) -> float:
   }
 }
 
+/**
+ * Python that tokenizes dataset rows (a JSON list on stdin) with the same
+ * row_to_datum() as the SFT script and prints each token's loss weight.
+ * create_datum() is swapped for a stand-in that keeps the sequence, so only
+ * transformers is needed. The tokenizer comes from config.model.baseModel
+ * alone: tokenizer overrides are never taken from the request.
+ */
+export function generateDatasetInspectorCode(config: PipelineConfig): string {
+  validateSafeIdentifier(config.model.baseModel, "Base model");
+
+  return `from __future__ import annotations  # row_to_datum is annotated with tinker types
+
+import json
+import re
+import sys
+from functools import cache
+from typing import Any
+
+from transformers import AutoTokenizer
+
+MODEL = "${escapePythonString(config.model.baseModel)}"
+MAX_LENGTH = ${config.model.maxLength}
+CUT_PREVIEW = 32  # Tokens shown past the truncation point
+${generateColumnMappingCode(config)}${generatePromptConfigCode(config)}
+
+${generateTokenizerCode()}${generatePromptFunctionCode(config)}
+
+
+def create_datum(input_tokens: list[int], weights: list[float], max_length: int | None = None):
+    """Stand-in for the training script's create_datum(): keep the full sequence."""
+    return input_tokens, weights, max_length
+
+
+${generateSFTFormatCode()}
+
+
+${generateRowToDatumCode(config)}
+
+
+def inspect_row(row: dict, tokenizer) -> dict:
+    """Tokens and loss weights of a row, truncated as create_datum() does."""
+    tokens, weights, max_length = row_to_datum(row, tokenizer)
+    kept = min(len(tokens), max_length) if max_length else len(tokens)
+    if kept < 2:
+        raise ValueError("Need at least 2 tokens for input/target split")
+
+    # Targets are tokens[1:], weighted by weights[1:]
+    weights = [0.0] + [float(w) for w in weights[1:]]
+    shown = tokens[:kept + CUT_PREVIEW]
+    return {
+        "pieces": [tokenizer.decode([token]) for token in shown],
+        "weights": weights[:len(shown)],
+        "total": len(tokens),
+        "kept": kept,
+        "trained": sum(1 for w in weights[:kept] if w != 0),
+        "trainedCut": sum(1 for w in weights[kept:] if w != 0),
+    }
+
+
+tokenizer = get_tokenizer(MODEL)
+results = []
+for row in json.load(sys.stdin):
+    try:
+        results.append(inspect_row(row, tokenizer))
+    except Exception as e:
+        results.append({
+            "pieces": [], "weights": [], "total": 0, "kept": 0, "trained": 0, "trainedCut": 0,
+            "error": f"{type(e).__name__}: {e}"[:300],
+        })
+print("RESULT::" + json.dumps(results))
+`;
+}
+
 export function generateConfigSummary(config: PipelineConfig): string {
   const mode = config.mode.toUpperCase();
   const modelName = config.model.baseModel.split("/").pop();
@@ -1248,10 +2858,146 @@ export function generateConfigSummary(config: PipelineConfig): string {
     summary += `GRPO: ${config.rl.groupSize} samples, KL=${config.rl.klCoefficient}`;
   }
 
+  if (config.mode === "dpo" && config.dpo) {
+    summary += `DPO: beta=${config.dpo.beta}, reference=${config.dpo.referenceModel}`;
+  }
+
+  if (config.mode === "sft" && config.eval?.enabled) {
+    const source =
+      config.eval.source === "split"
+        ? `${config.eval.splitFraction * 100}% held out`
+        : config.eval.dataset?.split("/").pop();
+    summary += `Eval: ${source}, every ${config.eval.everySteps} steps`;
+  }
+
+  if (config.stages?.length) {
+    const modes = [config.mode, ...config.stages.map((stage) => stage.mode)];
+    summary += `\nPipeline: ${modes.map((mode) => mode.toUpperCase()).join(" → ")}`;
+  }
+
   return summary;
 }
 
+// Settings spliced into the scripts as Python literals. Optional sections are
+// only checked when present.
+const NUMERIC_FIELDS = [
+  "model.loraRank",
+  "model.loraAlpha",
+  "model.maxLength",
+  "dataset.weight",
+  "dataset.maxExamples",
+  "hyperparameters.batchSize",
+  "hyperparameters.learningRate",
+  "hyperparameters.epochs",
+  "hyperparameters.warmupRatio",
+  "hyperparameters.gradientAccumulation",
+  "hyperparameters.minLrRatio",
+  "hyperparameters.numCycles",
+  "hyperparameters.beta1",
+  "hyperparameters.beta2",
+  "hyperparameters.eps",
+  "hyperparameters.weightDecay",
+  "hyperparameters.gradClipNorm",
+  "rl.groupSize",
+  "rl.klCoefficient",
+  "rl.temperature",
+  "rl.judge.maxScore",
+  "dpo.beta",
+  "eval.splitFraction",
+  "eval.everySteps",
+  "eval.batchSize",
+  "eval.maxBatches",
+  "checkpointing.saveEvery",
+  "retry.maxRetries",
+  "retry.backoffSeconds",
+  "resumeFrom.fromStep",
+];
+
+// Fields of a present section that may still be left unset
+const OPTIONAL_NUMERIC_FIELDS = new Set(["dataset.weight", "dataset.maxExamples"]);
+
+// Sections every stage needs; their fields are checked even when the section is missing
+const REQUIRED_SECTIONS = new Set(["model", "dataset", "hyperparameters"]);
+
+// Sections a follow-up stage sets itself (the rest is shared with the first stage)
+const STAGE_SECTIONS = new Set(["dataset", "hyperparameters", "rl", "dpo"]);
+
+function checkNumber(value: unknown, path: string, integer: boolean): string | null {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    return `${path} must be a number`;
+  }
+  if (integer && !Number.isInteger(value)) {
+    return `${path} must be a whole number`;
+  }
+  return null;
+}
+
+function checkStageNumericFields(config: PipelineConfig, sections?: Set<string>): string[] {
+  const errors: string[] = [];
+
+  for (const path of NUMERIC_FIELDS) {
+    const keys = path.split(".");
+    if (sections && !sections.has(keys[0])) continue;
+    let parent: unknown = config;
+    for (const key of keys.slice(0, -1)) {
+      parent = parent && typeof parent === "object" ? (parent as Record<string, unknown>)[key] : undefined;
+    }
+    if ((!parent || typeof parent !== "object") && !REQUIRED_SECTIONS.has(keys[0])) continue;
+
+    const value = parent && typeof parent === "object"
+      ? (parent as Record<string, unknown>)[keys[keys.length - 1]]
+      : undefined;
+    if (value === undefined && OPTIONAL_NUMERIC_FIELDS.has(path)) continue;
+    const error = checkNumber(value, path, INTEGER_FIELDS.has(path));
+    if (error) errors.push(error);
+  }
+
+  const mixture: unknown = config.dataset?.mixture;
+  if (mixture !== undefined && !Array.isArray(mixture)) {
+    errors.push("dataset.mixture must be a list");
+  } else {
+    (mixture ?? []).forEach((source, i) => {
+      const path = `dataset.mixture[${i}]`;
+      const weightError = checkNumber(source?.weight, `${path}.weight`, false);
+      if (weightError) errors.push(weightError);
+      if (source?.maxExamples !== undefined) {
+        const maxError = checkNumber(source.maxExamples, `${path}.maxExamples`, true);
+        if (maxError) errors.push(maxError);
+      }
+    });
+  }
+
+  return errors;
+}
+
+/**
+ * Check that every numeric setting is a finite number, and a whole number
+ * where the script needs one, in every pipeline stage and mixture source. A
+ * string here would otherwise end up in the generated Python as code.
+ */
+function checkNumericFields(config: PipelineConfig): string[] {
+  const stages: unknown = config.stages;
+  if (
+    stages !== undefined &&
+    !(Array.isArray(stages) && stages.every((stage) => stage && typeof stage === "object"))
+  ) {
+    return ["stages must be a list of stages"];
+  }
+
+  return expandPipelineStages(config).flatMap((stageConfig, i) =>
+    i === 0
+      ? checkStageNumericFields(stageConfig)
+      : checkStageNumericFields(stageConfig, STAGE_SECTIONS).map((error) => `Stage ${i + 1}: ${error}`)
+  );
+}
+
 export function validateConfigForExecution(config: PipelineConfig): string[] {
+  // The range checks below assume numbers, so stop at malformed ones
+  const numericErrors = checkNumericFields(config);
+  if (numericErrors.length > 0) {
+    return numericErrors;
+  }
+
   const errors: string[] = [];
 
   if (!config.model.baseModel) {
@@ -1270,6 +3016,34 @@ export function validateConfigForExecution(config: PipelineConfig): string[] {
     errors.push("Learning rate must be positive");
   }
 
+  const { beta1, beta2, eps, weightDecay, gradClipNorm, minLrRatio, numCycles } =
+    config.hyperparameters;
+  if (!(beta1 >= 0 && beta1 < 1) || !(beta2 >= 0 && beta2 < 1)) {
+    errors.push("Adam betas must be in [0, 1)");
+  }
+  if (!(eps > 0)) {
+    errors.push("Adam epsilon must be positive");
+  }
+  if (weightDecay < 0 || gradClipNorm < 0) {
+    errors.push("Weight decay and gradient clipping must not be negative");
+  }
+  if (!(minLrRatio >= 0 && minLrRatio <= 1)) {
+    errors.push("Minimum LR ratio must be between 0 and 1");
+  }
+  if (config.hyperparameters.scheduler === "cosine_restarts" && numCycles < 1) {
+    errors.push("Cosine with restarts needs at least 1 cycle");
+  }
+
+  if (config.retry) {
+    const { maxRetries, backoffSeconds } = config.retry;
+    if (!Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > 10) {
+      errors.push("Max retries must be a whole number between 0 and 10");
+    }
+    if (!(backoffSeconds >= 0)) {
+      errors.push("Retry backoff must not be negative");
+    }
+  }
+
   if (config.mode === "rl" && !config.rl) {
     errors.push("RL config is required for RL mode");
   }
@@ -1278,5 +3052,78 @@ export function validateConfigForExecution(config: PipelineConfig): string[] {
     errors.push("Group size must be at least 2 for GRPO");
   }
 
+  if (config.mode === "rl" && config.rl) {
+    const componentError = checkRewardComponents(config.rl);
+    if (componentError) {
+      errors.push(componentError);
+    }
+    const rewardErrors = [
+      usesReward(config.rl, "custom") ? checkCustomRewardCode(config.rl.customReward) : null,
+      usesReward(config.rl, "regex_match") ? checkRewardRegex(config.rl.rewardRegex) : null,
+      usesReward(config.rl, "json_schema") ? checkRewardJsonSchema(config.rl.rewardJsonSchema) : null,
+      usesReward(config.rl, "judge") ? checkJudgeConfig(config.rl.judge) : null,
+    ];
+    for (const rewardError of rewardErrors) {
+      if (rewardError) {
+        errors.push(rewardError);
+      }
+    }
+  }
+
+  if (!config.dataset.preset.trim()) {
+    errors.push("Dataset is required");
+  }
+
+  const columnError = checkColumnMapping(config);
+  if (columnError) {
+    errors.push(columnError);
+  }
+
+  const mixtureError = checkDatasetMixture(config.dataset);
+  if (mixtureError) {
+    errors.push(mixtureError);
+  }
+
+  if (config.mode !== "dpo" && config.prompt?.enabled && !config.prompt.template.trim()) {
+    errors.push("Prompt template is empty");
+  }
+
+  if (config.mode === "dpo" && !config.dpo) {
+    errors.push("DPO config is required for DPO mode");
+  }
+
+  if (
+    config.mode === "dpo" &&
+    config.dpo?.referenceModel === "checkpoint" &&
+    !config.dpo.referenceCheckpointPath
+  ) {
+    errors.push("Reference checkpoint path is required when not using the base model");
+  }
+
+  if (config.mode === "sft" && config.eval?.enabled) {
+    if (config.eval.source === "split" && !(config.eval.splitFraction > 0 && config.eval.splitFraction < 1)) {
+      errors.push("Eval split fraction must be between 0 and 1");
+    }
+    if (config.eval.source === "dataset" && !config.eval.dataset) {
+      errors.push("Eval dataset is required when not holding out a split");
+    }
+    if (config.eval.everySteps < 1) {
+      errors.push("Eval interval must be at least 1 step");
+    }
+    if (config.eval.batchSize < 1) {
+      errors.push("Eval batch size must be at least 1");
+    }
+  }
+
+  if (config.stages?.length) {
+    expandPipelineStages(config)
+      .slice(1)
+      .forEach((stageConfig, i) => {
+        for (const error of validateConfigForExecution(stageConfig)) {
+          errors.push(`Stage ${i + 2}: ${error}`);
+        }
+      });
+  }
+
   return errors;
 }
@@ -0,0 +1,142 @@
+import {
+  DATASET_PRESETS,
+  DatasetColumns,
+  DatasetPreview,
+  MixtureSource,
+  PipelineConfig,
+  TrainingMode,
+} from "./types";
+
+/**
+ * Dataset Sources
+ * Where a configured dataset is loaded from (Hugging Face subset, split and
+ * revision, with preset defaults), which columns the scripts read, and the
+ * weighted sources it is mixed with.
+ */
+
+type DatasetConfig = PipelineConfig["dataset"];
+
+export interface DatasetSource {
+  subset?: string;
+  split: string;
+  revision?: string;
+}
+
+function findPreset(id: string) {
+  return Object.values(DATASET_PRESETS)
+    .flat()
+    .find((preset) => preset.id === id);
+}
+
+export function isPresetDataset(dataset: DatasetConfig, mode: TrainingMode): boolean {
+  return DATASET_PRESETS[mode].some((preset) => preset.id === dataset.preset);
+}
+
+// Hugging Face load arguments, falling back to the preset's (e.g. GSM8K's "main" subset)
+export function getDatasetSource(dataset: DatasetConfig): DatasetSource {
+  const preset = findPreset(dataset.preset);
+  return {
+    subset: dataset.subset?.trim() || (preset && "subset" in preset ? preset.subset : undefined),
+    split: dataset.split?.trim() || (preset && "split" in preset ? preset.split : "train"),
+    revision: dataset.revision?.trim() || undefined,
+  };
+}
+
+// Identifies the rows a dataset config loads, so previews of other sources are ignored
+export function datasetSourceKey(dataset: DatasetConfig): string {
+  return JSON.stringify([dataset.preset, getDatasetSource(dataset)]);
+}
+
+/**
+ * The explicit column mapping, or undefined when the scripts should detect the
+ * row format. Blank entries don't count as mapped.
+ */
+export function getColumnMapping(dataset: DatasetConfig): DatasetColumns | undefined {
+  const entries = Object.entries(dataset.columns ?? {}).flatMap(([key, column]) =>
+    column?.trim() ? [[key, column.trim()]] : []
+  );
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+}
+
+/**
+ * Check that a column mapping names every column its mode reads. A prompt
+ * template can stand in for the prompt column.
+ * Returns an error message, or null if it looks valid.
+ */
+export function checkColumnMapping(config: PipelineConfig): string | null {
+  const columns = getColumnMapping(config.dataset);
+  if (!columns || config.mode === "dpo") return null;
+
+  if (config.mode === "sft" && columns.messages) return null;
+  if (!columns.prompt && !config.prompt?.enabled) {
+    return "Map a prompt column or enable a prompt template";
+  }
+  if (config.mode === "sft" && !columns.response) {
+    return "Map a response column (or a messages column) for SFT";
+  }
+  if (config.mode === "rl" && !columns.groundTruth) {
+    return "Map a ground truth column for the reward";
+  }
+  return null;
+}
+
+/**
+ * First row of the configured dataset if it's known client-side: parsed from
+ * custom JSONL, or from a preview fetched for the same source.
+ */
+export function firstDatasetRow(
+  dataset: DatasetConfig,
+  preview: DatasetPreview | null
+): Record<string, unknown> | null {
+  if (dataset.preset !== "custom") {
+    return preview?.source === datasetSourceKey(dataset) ? preview.rows[0] ?? null : null;
+  }
+
+  const line = dataset.customData?.split("\n").find((l) => l.trim());
+  if (!line) return null;
+  try {
+    const row = JSON.parse(line);
+    return typeof row === "object" && row !== null && !Array.isArray(row) ? row : null;
+  } catch {
+    return null;
+  }
+}
+
+export function isDatasetMixture(dataset: DatasetConfig): boolean {
+  return (dataset.mixture?.length ?? 0) > 0;
+}
+
+/**
+ * Every source of the training data with its weight. The configured dataset
+ * is the first; without a mixture it is the only one, at weight 1.
+ */
+export function getMixtureSources(dataset: DatasetConfig): MixtureSource[] {
+  const { preset, subset, split, revision, weight, maxExamples } = dataset;
+  return [{ preset, subset, split, revision, weight: weight ?? 1, maxExamples }, ...(dataset.mixture ?? [])];
+}
+
+/**
+ * Check the sources of a dataset mixture.
+ * Returns an error message, or null if it looks valid.
+ */
+export function checkDatasetMixture(dataset: DatasetConfig): string | null {
+  if (!isDatasetMixture(dataset)) return null;
+
+  const sources = getMixtureSources(dataset);
+  if (sources.slice(1).some((source) => !source.preset.trim() || source.preset === "custom")) {
+    return "Each mixed-in source needs a Hugging Face dataset ID";
+  }
+  if (sources.some((source) => !(Number.isFinite(source.weight) && source.weight > 0))) {
+    return "Mixture weights must be positive";
+  }
+  if (
+    sources.some(
+      (source) =>
+        source.maxExamples !== undefined &&
+        !(Number.isInteger(source.maxExamples) && source.maxExamples > 0)
+    )
+  ) {
+    return "Max examples must be a positive whole number";
+  }
+  return null;
+}
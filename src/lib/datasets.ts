@@ -0,0 +1,78 @@
+import { validateSafeIdentifier } from "./security";
+import { pythonEnv } from "./mock-backend";
+import { helperEnv, runPython } from "./python";
+import { getDatasetSource } from "./dataset-source";
+import { PipelineConfig } from "./types";
+
+/**
+ * Dataset Rows
+ * Loads the first rows of the configured dataset for previews and tests
+ * (server only). Custom data (JSONL or a JSON array) is parsed here; presets are streamed from
+ * Hugging Face by a Python process, so only the requested rows are downloaded.
+ */
+
+const DATASET_TIMEOUT_MS = 60000;
+const MAX_ROWS_BYTES = 2 * 1024 * 1024;
+
+// Streams the first rows of a Hugging Face dataset (empty subset/revision = default),
+// stopping early once the rows would pass the byte budget
+const DATASET_LOADER = `
+import json
+import sys
+import datasets
+
+name, subset, split, revision, count, max_bytes = sys.argv[1:7]
+dataset = datasets.load_dataset(
+    name, subset or None, split=split, revision=revision or None, streaming=True
+)
+
+rows = []
+size = 0
+for row in dataset:
+    size += len(json.dumps(row, default=str))
+    if rows and size > int(max_bytes):
+        break
+    rows.append(row)
+    if len(rows) >= int(count):
+        break
+print(json.dumps(rows, default=str))
+`;
+
+export async function loadDatasetRows(
+  dataset: PipelineConfig["dataset"],
+  count: number
+): Promise<Record<string, unknown>[]> {
+  if (dataset.preset === "custom") {
+    // Pasted data may be a JSON array (or one object) rather than JSONL, as in the editor
+    const content = (dataset.customData ?? "").trim();
+    try {
+      const parsed = JSON.parse(content);
+      if (Array.isArray(parsed)) return parsed.slice(0, count);
+      if (parsed && typeof parsed === "object") return [parsed];
+    } catch {
+      // Not a single JSON document; parse it line by line
+    }
+
+    const lines = content.split("\n").filter((line) => line.trim());
+    return lines.slice(0, count).map((line, i) => {
+      try {
+        return JSON.parse(line);
+      } catch {
+        throw new Error(`Custom dataset line ${i + 1} is not valid JSON`);
+      }
+    });
+  }
+
+  const { subset, split, revision } = getDatasetSource(dataset);
+  validateSafeIdentifier(dataset.preset, "Dataset");
+  if (subset) validateSafeIdentifier(subset, "Dataset subset");
+  validateSafeIdentifier(split, "Dataset split");
+  if (revision) validateSafeIdentifier(revision, "Dataset revision");
+
+  const args = [dataset.preset, subset ?? "", split, revision ?? "", String(count), String(MAX_ROWS_BYTES)];
+  const stdout = await runPython(["-c", DATASET_LOADER, ...args], {
+    env: pythonEnv(helperEnv()),
+    timeoutMs: DATASET_TIMEOUT_MS,
+  });
+  return JSON.parse(stdout.trim().split("\n").pop() || "[]");
+}
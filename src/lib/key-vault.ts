@@ -0,0 +1,165 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { NextRequest } from "next/server";
+import { DEFAULT_PROFILE_ID, PROFILE_COOKIE } from "./types";
+
+/**
+ * API Key Vault
+ * With TINKER_STUDIO_VAULT_KEY set, the browser can hand its Tinker API key to
+ * the server once and keep only an opaque session cookie. Keys are encrypted
+ * at rest (AES-256-GCM) with a key derived from the master key; routes resolve
+ * the caller's key from the cookie when the request doesn't carry one.
+ * A session holds one key per Tinker profile; the client keeps the active
+ * profile in a second cookie.
+ */
+
+export const VAULT_COOKIE = "tinker-studio-session";
+
+// Sessions expire after 30 days, matching the cookie
+export const VAULT_SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const VAULT_DIR = process.env.TINKER_STUDIO_VAULT_DIR || join(tmpdir(), "tinker-studio-vault");
+
+// One encrypted record per session and profile, named by a hash of both
+interface VaultRecord {
+  iv: string;
+  tag: string;
+  ciphertext: string;
+  hint: string; // Last 4 characters, for display
+  createdAt: number;
+}
+
+export function isVaultEnabled(): boolean {
+  return !!process.env.TINKER_STUDIO_VAULT_KEY;
+}
+
+function encryptionKey(): Buffer {
+  return createHash("sha256").update(process.env.TINKER_STUDIO_VAULT_KEY ?? "").digest();
+}
+
+function isValidSessionId(sessionId: string): boolean {
+  return /^[A-Za-z0-9_-]{43}$/.test(sessionId);
+}
+
+export function isValidProfileId(profileId: string): boolean {
+  return /^[a-z0-9-]{1,40}$/.test(profileId);
+}
+
+// Profile the request acts as; anything malformed means the default profile
+export function getRequestProfile(request: NextRequest): string {
+  const profileId = request.cookies.get(PROFILE_COOKIE)?.value;
+  return profileId && isValidProfileId(profileId) ? profileId : DEFAULT_PROFILE_ID;
+}
+
+// Also the AAD, so records can't be swapped between sessions or profiles
+function recordId(sessionId: string, profileId: string): string {
+  return `${sessionId}:${profileId}`;
+}
+
+function recordPath(sessionId: string, profileId: string): string {
+  const name = createHash("sha256").update(recordId(sessionId, profileId)).digest("hex");
+  return join(VAULT_DIR, `${name}.json`);
+}
+
+function readRecord(sessionId: string, profileId: string): VaultRecord | null {
+  if (!isValidSessionId(sessionId)) return null;
+
+  const path = recordPath(sessionId, profileId);
+  if (!existsSync(path)) return null;
+
+  try {
+    const record: VaultRecord = JSON.parse(readFileSync(path, "utf-8"));
+    if (Date.now() - record.createdAt > VAULT_SESSION_TTL_MS) {
+      rmSync(path, { force: true });
+      return null;
+    }
+    return record;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encrypt and store a profile's API key in a new session. The ID is always
+ * generated here, never taken from the client, so nobody can plant a session
+ * ID and wait for a victim's key to land in it.
+ * Returns the session ID to set as the cookie.
+ */
+export function storeApiKey(apiKey: string, profileId: string): string {
+  const sessionId = randomBytes(32).toString("base64url");
+  writeRecord(sessionId, profileId, apiKey);
+  return sessionId;
+}
+
+/**
+ * Move the keys of the given profiles from one session to another, e.g. into
+ * the session storeApiKey() just started. Records in the old session are deleted.
+ */
+export function moveApiKeys(fromSessionId: string, toSessionId: string, profileIds: string[]): void {
+  for (const profileId of profileIds) {
+    const apiKey = readApiKey(fromSessionId, profileId);
+    if (apiKey === null) continue;
+    writeRecord(toSessionId, profileId, apiKey);
+    deleteApiKey(fromSessionId, profileId);
+  }
+}
+
+function writeRecord(sessionId: string, profileId: string, apiKey: string): void {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv("aes-256-gcm", encryptionKey(), iv);
+  cipher.setAAD(Buffer.from(recordId(sessionId, profileId)));
+  const ciphertext = Buffer.concat([cipher.update(apiKey, "utf-8"), cipher.final()]);
+
+  const record: VaultRecord = {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    ciphertext: ciphertext.toString("base64"),
+    hint: apiKey.slice(-4),
+    createdAt: Date.now(),
+  };
+
+  mkdirSync(VAULT_DIR, { recursive: true, mode: 0o700 });
+  writeFileSync(recordPath(sessionId, profileId), JSON.stringify(record), { mode: 0o600 });
+}
+
+// Decrypt a profile's API key. Returns null for unknown, expired or tampered records.
+export function readApiKey(sessionId: string, profileId: string): string | null {
+  const record = readRecord(sessionId, profileId);
+  if (!record) return null;
+
+  try {
+    const decipher = createDecipheriv("aes-256-gcm", encryptionKey(), Buffer.from(record.iv, "base64"));
+    decipher.setAAD(Buffer.from(recordId(sessionId, profileId)));
+    decipher.setAuthTag(Buffer.from(record.tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(record.ciphertext, "base64")),
+      decipher.final(),
+    ]).toString("utf-8");
+  } catch {
+    // Wrong master key or a modified record
+    return null;
+  }
+}
+
+export function getKeyHint(sessionId: string, profileId: string): string | null {
+  return readRecord(sessionId, profileId)?.hint ?? null;
+}
+
+export function deleteApiKey(sessionId: string, profileId: string): void {
+  if (!isValidSessionId(sessionId)) return;
+  rmSync(recordPath(sessionId, profileId), { force: true });
+}
+
+/**
+ * The API key a request acts with: the one it sent explicitly, otherwise the
+ * one stored for its session and active profile (when the vault is enabled).
+ */
+export function resolveApiKey(request: NextRequest, provided: string | null | undefined): string | null {
+  if (provided) return provided;
+  if (!isVaultEnabled()) return null;
+
+  const sessionId = request.cookies.get(VAULT_COOKIE)?.value;
+  return sessionId ? readApiKey(sessionId, getRequestProfile(request)) : null;
+}
@@ -0,0 +1,76 @@
+import { DATASET_PRESETS, PipelineConfig } from "./types";
+import { isDatasetMixture } from "./dataset-source";
+
+/**
+ * Learning Rate Schedules
+ * Mirrors get_lr_multiplier() in the generated scripts so the UI can preview the curve
+ */
+
+type ScheduleParams = Pick<
+  PipelineConfig["hyperparameters"],
+  "scheduler" | "minLrRatio" | "numCycles"
+>;
+
+/**
+ * Multiplier on the peak learning rate at an optimizer step.
+ */
+export function getLRMultiplier(
+  step: number,
+  totalSteps: number,
+  warmupSteps: number,
+  params: ScheduleParams
+): number {
+  if (step < warmupSteps) {
+    return step / warmupSteps;
+  }
+  if (params.scheduler === "constant") {
+    return 1;
+  }
+
+  const progress = Math.min(1, (step - warmupSteps) / Math.max(1, totalSteps - warmupSteps));
+  let decay: number;
+  switch (params.scheduler) {
+    case "linear":
+      decay = 1 - progress;
+      break;
+    case "cosine":
+      decay = 0.5 * (1 + Math.cos(Math.PI * progress));
+      break;
+    case "cosine_restarts":
+      decay = progress >= 1 ? 0 : 0.5 * (1 + Math.cos(Math.PI * ((progress * params.numCycles) % 1)));
+      break;
+    case "inverse_sqrt":
+      decay = Math.sqrt(Math.max(1, warmupSteps) / Math.max(1, step));
+      break;
+  }
+
+  return params.minLrRatio + (1 - params.minLrRatio) * decay;
+}
+
+/**
+ * Estimate the optimizer steps a run will take, using the same arithmetic as
+ * the generated scripts. Returns null when the dataset size isn't known up front.
+ */
+export function estimateTotalSteps(config: PipelineConfig): number | null {
+  let examples: number | undefined;
+  // A mixture's size depends on which source runs out first
+  if (isDatasetMixture(config.dataset)) return null;
+  if (config.dataset.preset === "custom") {
+    examples = config.dataset.customData?.split("\n").filter((line) => line.trim()).length;
+  } else {
+    const preset = DATASET_PRESETS[config.mode].find((p) => p.id === config.dataset.preset);
+    // Preset sizes are for their default subset and split
+    const overridden = config.dataset.subset?.trim() || config.dataset.split?.trim();
+    examples = preset && "trainExamples" in preset && !overridden ? preset.trainExamples : undefined;
+  }
+  if (!examples) return null;
+
+  // A held-out eval split comes out of the training data
+  if (config.mode === "sft" && config.eval?.enabled && config.eval.source === "split") {
+    examples -= Math.ceil(examples * config.eval.splitFraction);
+  }
+
+  const { batchSize, gradientAccumulation, epochs } = config.hyperparameters;
+  const batches = Math.floor(examples / batchSize);
+  return Math.floor(batches / gradientAccumulation) * epochs;
+}
@@ -0,0 +1,77 @@
+import { MetricPoint } from "./types";
+
+/**
+ * Metric Series
+ * Helpers for storing and rebuilding per-job metric series (pure, no side effects)
+ */
+
+// A parsed METRIC:: payload as printed by the generated scripts
+export interface MetricRecord {
+  step: number;
+  total_steps?: number;
+  loss: number;
+  eval_loss?: number;
+  reward?: number;
+  reward_components?: Record<string, number>;
+  judge_latency_ms?: number;
+  kl?: number;
+  lr?: number;
+  tokens?: number;
+  tokens_per_second?: number;
+  wall_clock_time_ms?: number;
+  eta_seconds?: number;
+  stage?: number; // Pipeline stage that printed it, added by the server
+}
+
+// Upper bound on points kept per job in history; localStorage is only ~5MB
+export const MAX_STORED_METRIC_POINTS = 500;
+
+/**
+ * Thin a series to at most `maxPoints`, keeping the first and last points.
+ */
+export function downsampleMetrics(
+  metrics: MetricPoint[],
+  maxPoints: number = MAX_STORED_METRIC_POINTS
+): MetricPoint[] {
+  if (metrics.length <= maxPoints) return metrics;
+
+  const stride = (metrics.length - 1) / (maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, i) => metrics[Math.round(i * stride)]);
+}
+
+/**
+ * Convert raw METRIC:: payloads (as recorded by the server) into chart points.
+ * Each pipeline stage starts again at step 0, so later stages are shifted to
+ * continue the axis, matching what the live stream shows. Only a new stage
+ * shifts the axis: a retried stage resumes at a lower step of the same stage.
+ */
+export function metricPointsFromRecords(records: MetricRecord[]): MetricPoint[] {
+  const points: MetricPoint[] = [];
+  let offset = 0;
+  let previous: MetricRecord | undefined;
+
+  for (const record of records) {
+    if (record.step === undefined || record.loss === undefined) continue;
+    if (previous && (record.stage ?? 1) !== (previous.stage ?? 1)) {
+      offset += previous.total_steps ?? previous.step;
+    }
+    previous = record;
+
+    points.push({
+      step: record.step + offset,
+      loss: record.loss,
+      evalLoss: record.eval_loss,
+      reward: record.reward,
+      kl: record.kl,
+      rewardComponents: record.reward_components,
+      judgeLatencyMs: record.judge_latency_ms,
+      learningRate: record.lr,
+      tokensPerSecond: record.tokens_per_second,
+      wallClockTimeMs: record.wall_clock_time_ms,
+      etaSeconds: record.eta_seconds,
+      tokenCount: record.tokens,
+    });
+  }
+
+  return points;
+}
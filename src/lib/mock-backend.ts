@@ -0,0 +1,59 @@
+import { delimiter, join } from "path";
+import { tmpdir } from "os";
+
+/**
+ * Mock Backend
+ * With TINKER_STUDIO_MOCK=1 every Python process gets the stub `tinker` package
+ * in ./mock ahead of the real SDK, and inference goes to a local
+ * OpenAI-compatible stub, so the studio runs without Tinker credentials
+ */
+
+// Directory holding the stub `tinker` package
+const MOCK_PYTHON_DIR = join(process.cwd(), "mock");
+
+// Where the stub records training runs and checkpoints
+const MOCK_STATE_DIR = process.env.TINKER_STUDIO_MOCK_DIR || join(tmpdir(), "tinker-studio-mock");
+
+// Mounted by the routes under src/app/api/mock/v1
+export const MOCK_OAI_PATH = "/api/mock/v1";
+
+export function isMockBackend(): boolean {
+  const flag = process.env.TINKER_STUDIO_MOCK;
+  return flag === "1" || flag === "true";
+}
+
+/**
+ * Environment for a Python process that talks to Tinker.
+ * Unchanged unless the mock backend is enabled.
+ */
+export function pythonEnv(env: NodeJS.ProcessEnv): NodeJS.ProcessEnv {
+  if (!isMockBackend()) return env;
+
+  return {
+    ...env,
+    PYTHONPATH: env.PYTHONPATH ? `${MOCK_PYTHON_DIR}${delimiter}${env.PYTHONPATH}` : MOCK_PYTHON_DIR,
+    TINKER_STUDIO_MOCK_DIR: MOCK_STATE_DIR,
+  };
+}
+
+const MOCK_REPLY_WORDS = (
+  "this is a canned reply from the mock tinker backend no model was run " +
+  "start the studio without TINKER_STUDIO_MOCK to sample from a real checkpoint"
+).split(" ");
+
+/**
+ * Placeholder completion for the mock sampling endpoints. The length follows
+ * maxTokens (one word per token) so sampling parameters visibly take effect.
+ */
+export function mockCompletion(
+  model: string,
+  prompt: string,
+  maxTokens: number = 64
+): { text: string; tokenCount: number } {
+  const wordCount = Math.max(1, Math.min(maxTokens, 48));
+  const words = Array.from({ length: wordCount }, (_, i) => MOCK_REPLY_WORDS[i % MOCK_REPLY_WORDS.length]);
+  const excerpt = prompt.trim().split(/\s+/).slice(0, 12).join(" ");
+  const text = `[${model.split("/").pop()}] You said: "${excerpt}". ${words.join(" ")}.`;
+
+  return { text, tokenCount: wordCount };
+}
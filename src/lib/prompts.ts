@@ -0,0 +1,76 @@
+import { PipelineConfig, TrainingMode } from "./types";
+
+/**
+ * Prompt Templates
+ * Helpers for the optional prompt section of the IR. Rendering here mirrors
+ * render_prompt in the generated SFT/RL scripts so previews match training.
+ */
+
+type PromptConfig = NonNullable<PipelineConfig["prompt"]>;
+
+// The formats the scripts use without a template, keyed by the column they read
+const BUILTIN_TEMPLATES: Record<string, string> = {
+  input: "Input: {input}\nOutput:",
+  question: "Solve this problem step by step:\n\n{question}\n\nAnswer:",
+  instruction: "{instruction}",
+  prompt: "{prompt}",
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+/**
+ * Starting template for a mode, matching the mapped prompt column or the first
+ * row's columns when available so enabling the section doesn't change the
+ * prompts by itself.
+ */
+export function defaultPromptConfig(
+  mode: TrainingMode,
+  row?: Record<string, unknown>,
+  promptColumn?: string
+): PromptConfig {
+  const column = row && Object.keys(BUILTIN_TEMPLATES).find((key) => key in row);
+  const template = promptColumn
+    ? mode === "rl"
+      ? BUILTIN_TEMPLATES.question.replace("{question}", `{${promptColumn}}`)
+      : `{${promptColumn}}`
+    : BUILTIN_TEMPLATES[column || (mode === "rl" ? "question" : "input")];
+  return { enabled: true, template, useChatTemplate: false };
+}
+
+// Column names referenced by a template, in order of first use
+export function templateColumns(template: string): string[] {
+  return [...new Set(Array.from(template.matchAll(PLACEHOLDER), (match) => match[1]))];
+}
+
+/**
+ * Fill a template's {column} placeholders from a row. Placeholders that don't
+ * name a column are left as written; non-string values are JSON-encoded.
+ */
+export function renderPromptTemplate(template: string, row: Record<string, unknown>): string {
+  return template.replace(PLACEHOLDER, (placeholder, column: string) => {
+    if (!(column in row)) return placeholder;
+    const value = row[column];
+    return typeof value === "string" ? value : JSON.stringify(value);
+  });
+}
+
+// Chat messages a rendered prompt is wrapped in when the chat template is on
+export function promptMessages(prompt: PromptConfig, rendered: string): { role: string; content: string }[] {
+  const messages = prompt.systemPrompt?.trim() ? [{ role: "system", content: prompt.systemPrompt }] : [];
+  return [...messages, { role: "user", content: rendered }];
+}
+
+/**
+ * Check that an enabled prompt section has a usable template.
+ * Returns an error message, or null if it looks valid.
+ */
+export function checkPromptTemplate(prompt: PipelineConfig["prompt"]): string | null {
+  if (!prompt?.enabled) return null;
+  if (!prompt.template.trim()) {
+    return "Prompt template is empty";
+  }
+  if (templateColumns(prompt.template).length === 0) {
+    return "Prompt template has no {column} placeholders, so every row gets the same prompt";
+  }
+  return null;
+}
@@ -0,0 +1,86 @@
+import { spawn } from "child_process";
+
+/**
+ * Python Processes
+ * Short-lived python3 helpers for API routes (server only)
+ */
+
+// Variables a helper may see; everything else (Tinker keys, the vault key) is left out
+const HELPER_ENV_KEYS = ["PATH", "HOME", "LANG", "LC_ALL", "TMPDIR", "PYTHONPATH", "HTTP_PROXY", "HTTPS_PROXY", "NO_PROXY"];
+const HELPER_ENV_PREFIXES = ["HF_", "HUGGINGFACE_", "TRANSFORMERS_"];
+
+/**
+ * Environment for helpers that run on request data: enough to find python3
+ * and the Hugging Face cache, without the server's secrets.
+ */
+export function helperEnv(): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = { NODE_ENV: process.env.NODE_ENV };
+  for (const [key, value] of Object.entries(process.env)) {
+    if (HELPER_ENV_KEYS.includes(key) || HELPER_ENV_PREFIXES.some((prefix) => key.startsWith(prefix))) {
+      env[key] = value;
+    }
+  }
+  return env;
+}
+
+/**
+ * Run python3 (or a bash command line that execs it) and collect stdout.
+ * Rejects on a non-zero exit or timeout, killing the whole process group.
+ */
+export function runPython(
+  args: string[],
+  options: {
+    shell?: string;
+    cwd?: string;
+    env: NodeJS.ProcessEnv;
+    stdin?: string;
+    timeoutMs: number;
+  }
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = options.shell
+      ? spawn("bash", ["-c", options.shell], { cwd: options.cwd, env: options.env, detached: true })
+      : spawn("python3", args, { cwd: options.cwd, env: options.env, detached: true });
+    let stdout = "";
+    let stderr = "";
+    let timedOut = false;
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      try {
+        process.kill(-child.pid!, "SIGKILL");
+      } catch {
+        child.kill("SIGKILL");
+      }
+    }, options.timeoutMs);
+
+    child.stdout.on("data", (data) => {
+      stdout += data.toString();
+    });
+    child.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+
+    child.on("close", (code) => {
+      clearTimeout(timer);
+      if (timedOut) {
+        reject(new Error(`Timed out after ${options.timeoutMs / 1000}s`));
+      } else if (code !== 0) {
+        const lastLine = stderr.trim().split("\n").pop();
+        reject(new Error(lastLine || `Python exited with code ${code}`));
+      } else {
+        resolve(stdout);
+      }
+    });
+
+    child.on("error", (err) => {
+      clearTimeout(timer);
+      reject(new Error(`Failed to run Python: ${err.message}`));
+    });
+
+    child.stdin.on("error", () => {
+      // The process exited before reading its input; reported by close
+    });
+    child.stdin.end(options.stdin ?? "");
+  });
+}
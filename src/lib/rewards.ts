@@ -0,0 +1,184 @@
+import { PipelineConfig, RewardComponent, REWARD_FUNCTIONS, REWARD_SHAPING } from "./types";
+
+/**
+ * Reward Functions
+ * Helpers for composite RL rewards and user-written Python reward functions
+ * (the `custom` reward). Checks here are syntactic only; POST /api/rewards/test
+ * runs the code.
+ */
+
+// Starting point shown in the editor when the custom reward is first selected
+export const DEFAULT_CUSTOM_REWARD = `def compute_reward(response: str, ground_truth: str) -> float:
+    """Score one sampled response against the dataset answer. Higher is better."""
+    lines = [line.strip() for line in response.strip().splitlines() if line.strip()]
+    final_line = lines[-1] if lines else ""
+    return 1.0 if ground_truth.strip() and ground_truth.strip() in final_line else 0.0
+`;
+
+export const MAX_CUSTOM_REWARD_LENGTH = 20000;
+
+// Rewards configured by their own fields, which only the first stage's RL block has
+export const CONFIGURED_REWARDS = ["custom", "regex_match", "json_schema", "judge"];
+
+// Starting rubric for the LLM judge reward
+export const DEFAULT_JUDGE_RUBRIC = `You are grading an assistant's reply to a user.
+
+User message:
+{prompt}
+
+Assistant reply:
+{response}
+
+Rate how helpful, accurate and polite the reply is on a scale from 0 to 10.
+Respond with only the number.
+
+Score:`;
+
+export const DEFAULT_JUDGE_CONFIG: NonNullable<NonNullable<PipelineConfig["rl"]>["judge"]> = {
+  model: "base",
+  rubric: DEFAULT_JUDGE_RUBRIC,
+  maxScore: 10,
+};
+
+/**
+ * Check that custom reward source defines a usable compute_reward.
+ * Returns an error message, or null if it looks valid.
+ */
+export function checkCustomRewardCode(code: string | undefined): string | null {
+  if (!code || !code.trim()) {
+    return "Custom reward function is empty";
+  }
+  if (code.length > MAX_CUSTOM_REWARD_LENGTH) {
+    return `Custom reward function is too long (max ${MAX_CUSTOM_REWARD_LENGTH} characters)`;
+  }
+
+  // Must be a top-level def so the training loop can call it
+  const signature = code.match(/^def\s+compute_reward\s*\(([^)]*)\)/m);
+  if (!signature) {
+    return "Custom reward must define compute_reward(response, ground_truth) at the top level";
+  }
+
+  const required = signature[1]
+    .split(",")
+    .map((param) => param.trim())
+    .filter((param) => param && !param.includes("=") && !param.startsWith("*"));
+  if (required.length !== 2) {
+    return "compute_reward must take exactly two arguments: (response, ground_truth)";
+  }
+
+  return null;
+}
+
+/**
+ * Weighted terms of an RL reward. Configs without components use the single
+ * reward function at weight 1.
+ */
+export function getRewardComponents(rl: NonNullable<PipelineConfig["rl"]>): RewardComponent[] {
+  if (rl.rewardComponents?.length) return rl.rewardComponents;
+  return [{ fn: rl.rewardFunction, weight: 1 }];
+}
+
+export function isCompositeReward(rl: NonNullable<PipelineConfig["rl"]>): boolean {
+  const components = getRewardComponents(rl);
+  return components.length > 1 || components[0].weight !== 1;
+}
+
+/**
+ * Check the reward components of an RL config.
+ * Returns an error message, or null if they are valid.
+ */
+export function checkRewardComponents(rl: NonNullable<PipelineConfig["rl"]>): string | null {
+  const components = getRewardComponents(rl);
+  const seen = new Set<string>();
+
+  for (const component of components) {
+    if (!isKnownReward(component.fn)) {
+      return `Unknown reward component: ${component.fn}`;
+    }
+    // Components are keyed by function in the script and in metrics
+    if (seen.has(component.fn)) {
+      return `Reward component ${component.fn} is used more than once`;
+    }
+    if (!Number.isFinite(component.weight)) {
+      return `Reward component ${component.fn} needs a numeric weight`;
+    }
+    seen.add(component.fn);
+  }
+
+  if (REWARD_SHAPING.some((r) => r.id === components[0].fn)) {
+    return "The first reward component must be a reward function, not a shaping term";
+  }
+
+  return null;
+}
+
+export function isKnownReward(fn: string): boolean {
+  return [...REWARD_FUNCTIONS, ...REWARD_SHAPING].some((r) => r.id === fn);
+}
+
+export function usesReward(rl: NonNullable<PipelineConfig["rl"]>, fn: string): boolean {
+  return getRewardComponents(rl).some((c) => c.fn === fn);
+}
+
+/**
+ * Check the pattern for the regex_match reward.
+ * Compiled as a JS RegExp after mapping Python-only syntax (named groups,
+ * leading inline flags), which catches most mistakes; Python compiles it for
+ * real when the script starts.
+ */
+export function checkRewardRegex(pattern: string | undefined): string | null {
+  if (!pattern) {
+    return "Regex reward needs a pattern";
+  }
+  try {
+    const jsPattern = pattern
+      .replace(/^\(\?[aiLmsux]+\)/, "") // Leading inline flags, e.g. (?i)
+      .replace(/\(\?P</g, "(?<")
+      .replace(/\(\?P=(\w+)\)/g, "\\k<$1>");
+    new RegExp(jsPattern);
+  } catch (error) {
+    return `Invalid reward regex: ${error instanceof Error ? error.message : "does not compile"}`;
+  }
+  return null;
+}
+
+/**
+ * Check the judge settings for the judge reward.
+ * Returns an error message, or null if they are valid.
+ */
+export function checkJudgeConfig(judge: NonNullable<PipelineConfig["rl"]>["judge"]): string | null {
+  if (!judge) {
+    return "LLM judge reward needs judge settings";
+  }
+  if (!judge.rubric.includes("{response}")) {
+    return "Judge rubric must include {response}";
+  }
+  if (!(judge.maxScore > 0)) {
+    return "Judge max score must be positive";
+  }
+  if (judge.model === "checkpoint") {
+    const path = judge.checkpointPath ?? "";
+    if (!path.startsWith("tinker://") || !path.includes("/sampler_weights/")) {
+      return "Judge checkpoint must be a tinker:// sampler path (sampler_weights/...)";
+    }
+  }
+  return null;
+}
+
+/**
+ * Check the schema for the json_schema reward: it must parse as a JSON object.
+ */
+export function checkRewardJsonSchema(schema: string | undefined): string | null {
+  if (!schema?.trim()) {
+    return "JSON schema reward needs a schema";
+  }
+  try {
+    const parsed = JSON.parse(schema);
+    if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+      return "JSON schema must be an object";
+    }
+  } catch {
+    return "JSON schema is not valid JSON";
+  }
+  return null;
+}
@@ -0,0 +1,136 @@
+import { mkdir, mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { helperEnv, runPython } from "./python";
+
+/**
+ * Python Sandbox
+ * Runs untrusted Python (server only) in new user, mount, PID, network and IPC
+ * namespaces. The process sees a root filesystem holding only read-only system
+ * libraries, the interpreter and its working directory, so server files and
+ * other processes (and their environments) are out of reach. It runs without
+ * capabilities or network, under memory, CPU and file-size limits.
+ *
+ * Needs unshare(1) and unprivileged user namespaces; callers check
+ * isSandboxAvailable() and refuse to run code without it.
+ */
+
+const SANDBOX_MEMORY_KB = 512 * 1024;
+
+// Builds the root filesystem inside the new namespaces, switches to it and
+// drops all capabilities. Arguments: mount point, working directory,
+// interpreter, interpreter prefix, then python's arguments.
+const SANDBOX_SCRIPT = `
+set -e
+root="$1"; work="$2"; python="$3"; prefix="$4"; shift 4
+
+# Read-only bind mount, keeping the source's locked nosuid/nodev/noexec flags
+ro_bind() {
+  mount --bind "$1" "$2"
+  flags=$(findmnt -no OPTIONS -T "$1" | tr , "\\n" | grep -xE "nosuid|nodev|noexec" | sed "s/^/,/" | tr -d "\\n" || true)
+  mount -o "remount,bind,ro$flags" "$2"
+}
+
+mount -t tmpfs -o size=64m,mode=755 sandbox "$root"
+for path in /usr /bin /lib /lib64 /etc/ld.so.cache "$prefix"; do
+  [ -e "$path" ] || continue
+  mkdir -p "$root$(dirname "$path")"
+  if [ -L "$path" ]; then
+    ln -s "$(readlink "$path")" "$root$path"
+    continue
+  fi
+  if [ -d "$path" ]; then mkdir -p "$root$path"; else touch "$root$path"; fi
+  ro_bind "$path" "$root$path"
+done
+
+mkdir -p "$root/work" "$root/tmp" "$root/proc" "$root/dev"
+ro_bind "$work" "$root/work"
+for dev in null zero urandom; do
+  touch "$root/dev/$dev"
+  mount --bind "/dev/$dev" "$root/dev/$dev"
+done
+mount -t proc proc "$root/proc"
+
+# Detach the server's filesystem entirely (a chroot could be escaped)
+cd "$root"
+mkdir .old
+pivot_root . .old
+umount -l /.old
+rmdir /.old
+
+cd /work
+exec env -i PATH=/usr/bin:/bin HOME=/work LANG=C.UTF-8 \\
+  setpriv --no-new-privs --bounding-set=-all --inh-caps=-all -- "$python" -I "$@"
+`;
+
+// Paths are generated by the server, but are quoted all the same
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
+// The real interpreter and its prefix, which are mounted into the sandbox
+let interpreter: Promise<{ executable: string; prefix: string }> | undefined;
+
+function getInterpreter() {
+  interpreter ??= runPython(
+    ["-c", "import os, sys; print(os.path.realpath(sys.executable)); print(sys.base_prefix)"],
+    { env: helperEnv(), timeoutMs: 10000 }
+  ).then((stdout) => {
+    const [executable, prefix] = stdout.trim().split("\n");
+    return { executable, prefix };
+  });
+  return interpreter;
+}
+
+/**
+ * Run python3 in the sandbox with `dir` as its read-only working directory
+ * (mounted at /work) and collect stdout. Rejects like runPython().
+ */
+export async function runSandboxedPython(
+  dir: string,
+  args: string[],
+  options: { stdin?: string; timeoutMs: number; cpuSeconds: number }
+): Promise<string> {
+  const { executable, prefix } = await getInterpreter();
+  const root = join(dir, ".root");
+  await mkdir(root, { recursive: true });
+
+  const command = [
+    `ulimit -v ${SANDBOX_MEMORY_KB} && ulimit -t ${options.cpuSeconds} && ulimit -f 1024`,
+    [
+      "exec unshare --user --map-root-user --mount --pid --net --ipc --uts --fork --kill-child",
+      "bash -c",
+      shellQuote(SANDBOX_SCRIPT),
+      "sandbox",
+      ...[root, dir, executable, prefix, ...args].map(shellQuote),
+    ].join(" "),
+  ].join("\n");
+
+  return runPython([], {
+    shell: command,
+    env: { NODE_ENV: process.env.NODE_ENV, PATH: process.env.PATH },
+    stdin: options.stdin,
+    timeoutMs: options.timeoutMs,
+  });
+}
+
+let availability: Promise<boolean> | undefined;
+
+/**
+ * Whether this host can run the sandbox. Checked once by running a trivial script.
+ */
+export function isSandboxAvailable(): Promise<boolean> {
+  availability ??= (async () => {
+    const dir = await mkdtemp(join(tmpdir(), "tinker-studio-sandbox-"));
+    try {
+      const stdout = await runSandboxedPython(dir, ["-c", "print('ok')"], { timeoutMs: 15000, cpuSeconds: 5 });
+      return stdout.trim() === "ok";
+    } catch (error) {
+      console.error("Python sandbox unavailable:", error);
+      return false;
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  })();
+  return availability;
+}
@@ -1,8 +1,13 @@
 import { create } from "zustand";
 import {
   PipelineConfig,
+  PipelineStage,
   DEFAULT_CONFIG,
   DEFAULT_RL_CONFIG,
+  DEFAULT_DPO_CONFIG,
+  DEFAULT_EVAL_CONFIG,
+  DEFAULT_RETRY_POLICY,
+  DATASET_PRESETS,
   ExecutionState,
   TrainingMode,
   LogEntry,
@@ -11,6 +16,8 @@ import {
   ValidationWarning,
   Settings,
   DEFAULT_SETTINGS,
+  TinkerProfile,
+  PROFILE_COOKIE,
   InferenceState,
   DEFAULT_INFERENCE_CONFIG,
   ChatMessage,
@@ -18,7 +25,22 @@ import {
   Checkpoint,
   TrainingJob,
   Model,
+  SweepConfig,
+  DEFAULT_SWEEP_CONFIG,
+  RewardTestResult,
+  DatasetPreview,
 } from "./types";
+import {
+  checkCustomRewardCode,
+  checkRewardComponents,
+  checkRewardJsonSchema,
+  checkRewardRegex,
+  checkJudgeConfig,
+  getRewardComponents,
+  usesReward,
+} from "./rewards";
+import { checkPromptTemplate, defaultPromptConfig } from "./prompts";
+import { checkColumnMapping, checkDatasetMixture } from "./dataset-source";
 
 // =============================================================================
 // Store Interface
@@ -36,6 +58,8 @@ interface StudioStore {
 
   // Inference state
   inference: InferenceState;
+  // Inference state of the inactive profiles, restored when switching back
+  profileInference: Record<string, InferenceState>;
 
   // Checkpoints
   checkpoints: Checkpoint[];
@@ -47,6 +71,15 @@ interface StudioStore {
   // Current training job ID
   currentJobId: string | null;
 
+  // Sweep definition being edited
+  sweep: SweepConfig;
+
+  // Last run of the custom reward function against sample rows
+  rewardTest: RewardTestResult | null;
+
+  // Sample rows of the selected hosted dataset
+  datasetPreview: DatasetPreview | null;
+
   // Models from Tinker API
   models: Model[];
   modelsLoading: boolean;
@@ -58,18 +91,26 @@ interface StudioStore {
   shortcutsOpen: boolean;
   checkpointBrowserOpen: boolean;
   historyOpen: boolean;
+  sweepOpen: boolean;
 
   // Actions - Config
   setMode: (mode: TrainingMode) => void;
   setModel: (model: Partial<PipelineConfig["model"]>) => void;
   setDataset: (dataset: Partial<PipelineConfig["dataset"]>) => void;
+  setPromptConfig: (prompt: Partial<NonNullable<PipelineConfig["prompt"]>>) => void;
   setHyperparameters: (params: Partial<PipelineConfig["hyperparameters"]>) => void;
   setRLConfig: (rl: Partial<NonNullable<PipelineConfig["rl"]>>) => void;
+  setDPOConfig: (dpo: Partial<NonNullable<PipelineConfig["dpo"]>>) => void;
+  setEvalConfig: (evalConfig: Partial<NonNullable<PipelineConfig["eval"]>>) => void;
   setCheckpointing: (checkpoint: Partial<PipelineConfig["checkpointing"]>) => void;
+  setRetryPolicy: (retry: Partial<NonNullable<PipelineConfig["retry"]>>) => void;
   resetConfig: () => void;
   loadConfig: (config: PipelineConfig) => void;
   setResumeFrom: (resumeFrom: PipelineConfig["resumeFrom"]) => void;
   clearResumeFrom: () => void;
+  addStage: (mode: TrainingMode) => void;
+  updateStage: (index: number, updates: Partial<PipelineStage>) => void;
+  removeStage: (index: number) => void;
 
   // Actions - Execution
   startExecution: (jobId: string) => void;
@@ -79,17 +120,25 @@ interface StudioStore {
   addCheckpointSample: (sample: Omit<CheckpointSample, "timestamp">) => void;
   setExecutionStatus: (status: ExecutionState["status"]) => void;
   setExecutionProgress: (current: number, total: number) => void;
+  setExecutionStage: (stage: number, totalStages: number, mode: TrainingMode) => void;
+  setQueuePosition: (position: number | undefined) => void;
   setExecutionError: (error: string) => void;
   clearExecution: () => void;
 
   // Actions - Settings
   setApiKey: (key: string) => void;
   setApiKeyValidated: (validated: boolean) => void;
+  setServerApiKey: (hint: string | null) => void; // null = no key stored server-side
+  addProfile: (name: string) => string; // Returns the new profile's ID
+  updateProfile: (id: string, updates: Partial<Pick<TinkerProfile, "name" | "apiBase" | "defaultModel">>) => void;
+  removeProfile: (id: string) => void;
+  switchProfile: (id: string) => void;
   setTheme: (theme: Settings["theme"]) => void;
   setSettingsOpen: (open: boolean) => void;
   setShortcutsOpen: (open: boolean) => void;
   setCheckpointBrowserOpen: (open: boolean) => void;
   setHistoryOpen: (open: boolean) => void;
+  setSweepOpen: (open: boolean) => void;
 
   // Actions - Inference
   addMessage: (message: Omit<ChatMessage, "id" | "timestamp">) => void;
@@ -108,6 +157,15 @@ interface StudioStore {
   addTrainingJob: (job: TrainingJob) => void;
   updateTrainingJob: (id: string, updates: Partial<TrainingJob>) => void;
 
+  // Actions - Sweeps
+  setSweep: (sweep: Partial<SweepConfig>) => void;
+
+  // Actions - Rewards
+  setRewardTest: (result: RewardTestResult | null) => void;
+
+  // Actions - Datasets
+  setDatasetPreview: (preview: DatasetPreview | null) => void;
+
   // Actions - Models
   fetchModels: () => Promise<void>;
   setModels: (models: Model[]) => void;
@@ -120,6 +178,7 @@ interface StudioStore {
 
   // Helpers
   hasApiKey: () => boolean;
+  getActiveProfile: () => TinkerProfile;
 
   // Execution persistence
   restoreExecutionState: () => Promise<{ jobId: string | null; shouldReconnect: boolean }>;
@@ -130,13 +189,41 @@ interface StudioStore {
 // Store Implementation
 // =============================================================================
 
+// Helper to copy the active profile's key fields (kept top-level) into the profile list
+const syncActiveProfile = (settings: Settings): Settings => {
+  const { apiKey, apiKeyValidated, apiKeyStorage, apiKeyHint } = settings;
+  const active = settings.profiles.find((profile) => profile.id === settings.activeProfileId);
+  const updated: TinkerProfile = {
+    ...(active ?? { id: settings.activeProfileId, name: "Default" }),
+    apiKey,
+    apiKeyValidated,
+    apiKeyStorage,
+    apiKeyHint,
+  };
+  return {
+    ...settings,
+    profiles: active
+      ? settings.profiles.map((profile) => (profile.id === updated.id ? updated : profile))
+      : [...settings.profiles, updated],
+  };
+};
+
+// Helper to tell the server which profile's vault key requests act with
+const setProfileCookie = (profileId: string) => {
+  if (typeof document === "undefined") return;
+  document.cookie = `${PROFILE_COOKIE}=${encodeURIComponent(profileId)}; path=/; max-age=31536000; SameSite=Strict`;
+};
+
 // Helper to load settings from localStorage
+// Settings saved before profiles existed become the default profile
 const loadPersistedSettings = (): Settings => {
   if (typeof window === "undefined") return DEFAULT_SETTINGS;
   try {
     const stored = localStorage.getItem("tinker-studio-settings");
     if (stored) {
-      return { ...DEFAULT_SETTINGS, ...JSON.parse(stored) };
+      const settings = syncActiveProfile({ ...DEFAULT_SETTINGS, ...JSON.parse(stored) });
+      setProfileCookie(settings.activeProfileId);
+      return settings;
     }
   } catch {
     // Ignore parse errors
@@ -177,6 +264,8 @@ const isJobWorthKeeping = (job: TrainingJob): boolean => {
   if (job.status === "running") return true;
   // Keep pending jobs
   if (job.status === "pending") return true;
+  // Keep every sweep run so the sweep can still be ranked
+  if (job.sweepId) return true;
   // For failed/cancelled jobs, only keep if they have a checkpoint
   if (job.status === "failed" || job.status === "cancelled") {
     return (job.lastCheckpointStep ?? 0) > 0;
@@ -262,6 +351,8 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
     isGenerating: false,
   },
 
+  profileInference: {},
+
   checkpoints: [],
   checkpointsLoading: false,
 
@@ -269,6 +360,11 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
 
   currentJobId: null,
 
+  sweep: DEFAULT_SWEEP_CONFIG,
+
+  rewardTest: null,
+  datasetPreview: null,
+
   models: [],
   modelsLoading: false,
   modelsError: undefined,
@@ -278,6 +374,7 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
   shortcutsOpen: false,
   checkpointBrowserOpen: false,
   historyOpen: false,
+  sweepOpen: false,
 
   // ==========================================================================
   // Config Actions
@@ -289,10 +386,20 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
         ...state.config,
         mode,
         rl: mode === "rl" ? state.config.rl ?? DEFAULT_RL_CONFIG : state.config.rl,
+        dpo: mode === "dpo" ? state.config.dpo ?? DEFAULT_DPO_CONFIG : state.config.dpo,
         dataset: {
           ...state.config.dataset,
-          preset: mode === "rl" ? "openai/gsm8k" : "HuggingFaceH4/no_robots",
+          preset: DATASET_PRESETS[mode][0].id,
+          subset: undefined,
+          split: undefined,
+          revision: undefined,
+          columns: undefined,
+          weight: undefined,
+          maxExamples: undefined,
+          mixture: undefined,
         },
+        // Templates name the previous dataset's columns
+        prompt: undefined,
       },
     })),
 
@@ -312,6 +419,14 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
       },
     })),
 
+  setPromptConfig: (prompt) =>
+    set((state) => ({
+      config: {
+        ...state.config,
+        prompt: { ...(state.config.prompt ?? defaultPromptConfig(state.config.mode)), ...prompt },
+      },
+    })),
+
   setHyperparameters: (params) =>
     set((state) => ({
       config: {
@@ -323,11 +438,23 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
   setRLConfig: (rl) =>
     set((state) => {
       const currentRL = state.config.rl ?? { ...DEFAULT_RL_CONFIG };
+      // The first reward component and rewardFunction always name the same function
+      const components = rl.rewardComponents ?? currentRL.rewardComponents;
+      const rewardFunction = rl.rewardComponents?.length
+        ? rl.rewardComponents[0].fn
+        : rl.rewardFunction ?? currentRL.rewardFunction;
       return {
         config: {
           ...state.config,
           rl: {
-            rewardFunction: rl.rewardFunction ?? currentRL.rewardFunction,
+            rewardFunction,
+            customReward: rl.customReward ?? currentRL.customReward,
+            rewardComponents: components?.length
+              ? [{ ...components[0], fn: rewardFunction }, ...components.slice(1)]
+              : undefined,
+            rewardRegex: rl.rewardRegex ?? currentRL.rewardRegex,
+            rewardJsonSchema: rl.rewardJsonSchema ?? currentRL.rewardJsonSchema,
+            judge: rl.judge ?? currentRL.judge,
             groupSize: rl.groupSize ?? currentRL.groupSize,
             klCoefficient: rl.klCoefficient ?? currentRL.klCoefficient,
             temperature: rl.temperature ?? currentRL.temperature,
@@ -336,6 +463,22 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
       };
     }),
 
+  setDPOConfig: (dpo) =>
+    set((state) => ({
+      config: {
+        ...state.config,
+        dpo: { ...(state.config.dpo ?? DEFAULT_DPO_CONFIG), ...dpo },
+      },
+    })),
+
+  setEvalConfig: (evalConfig) =>
+    set((state) => ({
+      config: {
+        ...state.config,
+        eval: { ...(state.config.eval ?? DEFAULT_EVAL_CONFIG), ...evalConfig },
+      },
+    })),
+
   setCheckpointing: (checkpoint) =>
     set((state) => ({
       config: {
@@ -344,9 +487,28 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
       },
     })),
 
+  setRetryPolicy: (retry) =>
+    set((state) => ({
+      config: {
+        ...state.config,
+        retry: { ...(state.config.retry ?? DEFAULT_RETRY_POLICY), ...retry },
+      },
+    })),
+
   resetConfig: () => set({ config: DEFAULT_CONFIG }),
 
-  loadConfig: (config) => set({ config }),
+  loadConfig: (config) =>
+    set({
+      // Configs saved before a hyperparameter existed pick up its default
+      config: {
+        ...config,
+        hyperparameters: { ...DEFAULT_CONFIG.hyperparameters, ...config.hyperparameters },
+        stages: config.stages?.map((stage) => ({
+          ...stage,
+          hyperparameters: { ...DEFAULT_CONFIG.hyperparameters, ...stage.hyperparameters },
+        })),
+      },
+    }),
 
   setResumeFrom: (resumeFrom) =>
     set((state) => ({
@@ -364,6 +526,57 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
       },
     })),
 
+  addStage: (mode) =>
+    set((state) => ({
+      config: {
+        ...state.config,
+        stages: [
+          ...(state.config.stages ?? []),
+          {
+            mode,
+            dataset: { preset: DATASET_PRESETS[mode][0].id },
+            hyperparameters: { ...state.config.hyperparameters },
+            rl: mode === "rl" ? DEFAULT_RL_CONFIG : undefined,
+            dpo: mode === "dpo" ? DEFAULT_DPO_CONFIG : undefined,
+            initFromPrevious: true,
+          },
+        ],
+      },
+    })),
+
+  updateStage: (index, updates) =>
+    set((state) => {
+      const stages = [...(state.config.stages ?? [])];
+      const current = stages[index];
+      if (!current) return {};
+
+      const mode = updates.mode ?? current.mode;
+      const modeChanged = mode !== current.mode;
+      stages[index] = {
+        ...current,
+        ...updates,
+        // Switching modes resets the mode-specific parts, like setMode does
+        dataset: modeChanged
+          ? { preset: DATASET_PRESETS[mode][0].id }
+          : { ...current.dataset, ...updates.dataset },
+        prompt: modeChanged ? undefined : updates.prompt ?? current.prompt,
+        rl: mode === "rl" ? updates.rl ?? current.rl ?? DEFAULT_RL_CONFIG : undefined,
+        dpo: mode === "dpo" ? updates.dpo ?? current.dpo ?? DEFAULT_DPO_CONFIG : undefined,
+      };
+      return { config: { ...state.config, stages } };
+    }),
+
+  removeStage: (index) =>
+    set((state) => {
+      const stages = (state.config.stages ?? []).filter((_, i) => i !== index);
+      return {
+        config: {
+          ...state.config,
+          stages: stages.length > 0 ? stages : undefined,
+        },
+      };
+    }),
+
   // ==========================================================================
   // Execution Actions
   // ==========================================================================
@@ -457,6 +670,32 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
       return { execution: newExecution };
     }),
 
+  setExecutionStage: (stage, totalStages, mode) =>
+    set((state) => {
+      // Continue the step axis across stages: the next stage starts where the previous one ended
+      const previousOffset = state.execution.stageStepOffset ?? 0;
+      const newExecution = {
+        ...state.execution,
+        currentStage: stage,
+        totalStages,
+        stageMode: mode,
+        stageStepOffset: stage > 1 ? previousOffset + state.execution.totalSteps : 0,
+        currentStep: 0,
+      };
+      persistExecutionState(state.currentJobId, newExecution);
+      return { execution: newExecution };
+    }),
+
+  setQueuePosition: (position) =>
+    set((state) => {
+      const newExecution = {
+        ...state.execution,
+        queuePosition: position,
+      };
+      persistExecutionState(state.currentJobId, newExecution);
+      return { execution: newExecution };
+    }),
+
   setExecutionError: (error) =>
     set((state) => {
       const newExecution = {
@@ -489,7 +728,7 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
 
   setApiKey: (apiKey) =>
     set((state) => {
-      const newSettings = { ...state.settings, apiKey, apiKeyValidated: false };
+      const newSettings = syncActiveProfile({ ...state.settings, apiKey, apiKeyValidated: false });
       persistSettings(newSettings);
       // Fetch checkpoints if API key is set and was previously validated
       if (apiKey && state.settings.apiKeyValidated) {
@@ -502,10 +741,10 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
 
   setApiKeyValidated: (apiKeyValidated) =>
     set((state) => {
-      const newSettings = { ...state.settings, apiKeyValidated };
+      const newSettings = syncActiveProfile({ ...state.settings, apiKeyValidated });
       persistSettings(newSettings);
       // Fetch checkpoints when API key is validated
-      if (apiKeyValidated && newSettings.apiKey) {
+      if (apiKeyValidated && (newSettings.apiKey || newSettings.apiKeyStorage === "server")) {
         // Use setTimeout to avoid calling async function in setter
         setTimeout(() => {
           get().fetchCheckpoints();
@@ -514,6 +753,106 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
       return { settings: newSettings };
     }),
 
+  setServerApiKey: (hint) =>
+    set((state) => {
+      // The vault only accepts validated keys, and the browser keeps none of it
+      const newSettings = syncActiveProfile(
+        hint !== null
+          ? { ...state.settings, apiKey: "", apiKeyValidated: true, apiKeyStorage: "server", apiKeyHint: hint }
+          : { ...state.settings, apiKeyValidated: false, apiKeyStorage: "browser", apiKeyHint: undefined }
+      );
+      persistSettings(newSettings);
+      if (hint !== null) {
+        setTimeout(() => {
+          get().fetchCheckpoints();
+        }, 0);
+      }
+      return { settings: newSettings };
+    }),
+
+  addProfile: (name) => {
+    const id = `profile-${Date.now().toString(36)}`;
+    set((state) => {
+      const newSettings: Settings = {
+        ...state.settings,
+        profiles: [
+          ...state.settings.profiles,
+          { id, name, apiKey: "", apiKeyValidated: false, apiKeyStorage: "browser" },
+        ],
+      };
+      persistSettings(newSettings);
+      return { settings: newSettings };
+    });
+    return id;
+  },
+
+  updateProfile: (id, updates) =>
+    set((state) => {
+      const newSettings: Settings = {
+        ...state.settings,
+        profiles: state.settings.profiles.map((profile) =>
+          profile.id === id ? { ...profile, ...updates } : profile
+        ),
+      };
+      persistSettings(newSettings);
+      return { settings: newSettings };
+    }),
+
+  // The active profile can't be removed; switch away from it first
+  removeProfile: (id) =>
+    set((state) => {
+      if (id === state.settings.activeProfileId) return {};
+      const newSettings: Settings = {
+        ...state.settings,
+        profiles: state.settings.profiles.filter((profile) => profile.id !== id),
+      };
+      persistSettings(newSettings);
+      const profileInference = { ...state.profileInference };
+      delete profileInference[id];
+      return { settings: newSettings, profileInference };
+    }),
+
+  switchProfile: (id) => {
+    const state = get();
+    const target = state.settings.profiles.find((profile) => profile.id === id);
+    if (!target || id === state.settings.activeProfileId) return;
+
+    const current = syncActiveProfile(state.settings);
+    const newSettings: Settings = {
+      ...current,
+      activeProfileId: id,
+      apiKey: target.apiKey,
+      apiKeyValidated: target.apiKeyValidated,
+      apiKeyStorage: target.apiKeyStorage,
+      apiKeyHint: target.apiKeyHint,
+    };
+    persistSettings(newSettings);
+    setProfileCookie(id);
+
+    // Chats, checkpoints and models belong to the profile's Tinker project
+    set({
+      settings: newSettings,
+      profileInference: {
+        ...state.profileInference,
+        [current.activeProfileId]: { ...state.inference, isGenerating: false },
+      },
+      inference: state.profileInference[id] ?? {
+        messages: [],
+        config: DEFAULT_INFERENCE_CONFIG,
+        isGenerating: false,
+      },
+      checkpoints: [],
+      ...(target.defaultModel && {
+        config: { ...state.config, model: { ...state.config.model, baseModel: target.defaultModel } },
+      }),
+    });
+
+    setTimeout(() => {
+      get().fetchModels();
+      get().fetchCheckpoints();
+    }, 0);
+  },
+
   setTheme: (theme) =>
     set((state) => {
       const newSettings = { ...state.settings, theme };
@@ -529,6 +868,8 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
 
   setHistoryOpen: (historyOpen) => set({ historyOpen }),
 
+  setSweepOpen: (sweepOpen) => set({ sweepOpen }),
+
   // ==========================================================================
   // Inference Actions
   // ==========================================================================
@@ -604,8 +945,8 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
   // ==========================================================================
 
   fetchCheckpoints: async () => {
-    const { settings } = get();
-    if (!settings.apiKey) {
+    const { settings, hasApiKey } = get();
+    if (!hasApiKey()) {
       return;
     }
 
@@ -647,7 +988,8 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
 
   addTrainingJob: (job) =>
     set((state) => {
-      const newHistory = [...state.trainingHistory, job];
+      // Jobs belong to the profile they were started under
+      const newHistory = [...state.trainingHistory, { profileId: state.settings.activeProfileId, ...job }];
       persistTrainingHistory(newHistory);
       return { trainingHistory: newHistory };
     }),
@@ -661,6 +1003,23 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
       return { trainingHistory: newHistory };
     }),
 
+  // ==========================================================================
+  // Sweep Actions
+  // ==========================================================================
+
+  setSweep: (sweep) =>
+    set((state) => ({
+      sweep: { ...state.sweep, ...sweep },
+    })),
+
+  // ==========================================================================
+  // Reward Actions
+  // ==========================================================================
+
+  setRewardTest: (rewardTest) => set({ rewardTest }),
+
+  setDatasetPreview: (datasetPreview) => set({ datasetPreview }),
+
   // ==========================================================================
   // Models Actions
   // ==========================================================================
@@ -726,7 +1085,7 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
   // ==========================================================================
 
   getValidationWarnings: () => {
-    const { config } = get();
+    const { config, rewardTest } = get();
     const warnings: ValidationWarning[] = [];
 
     // Learning rate warnings
@@ -798,6 +1157,199 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
           severity: "warning",
         });
       }
+      const componentError = checkRewardComponents(config.rl);
+      if (componentError) {
+        warnings.push({
+          field: "rewardComponents",
+          message: componentError,
+          severity: "error",
+        });
+      } else if (getRewardComponents(config.rl).every((c) => c.weight === 0)) {
+        warnings.push({
+          field: "rewardComponents",
+          message: "Every reward component has weight 0, so there is no learning signal",
+          severity: "warning",
+        });
+      }
+      if (usesReward(config.rl, "regex_match")) {
+        const regexError = checkRewardRegex(config.rl.rewardRegex);
+        if (regexError) {
+          warnings.push({
+            field: "rewardRegex",
+            message: regexError,
+            severity: "error",
+          });
+        }
+      }
+      if (usesReward(config.rl, "json_schema")) {
+        const schemaError = checkRewardJsonSchema(config.rl.rewardJsonSchema);
+        if (schemaError) {
+          warnings.push({
+            field: "rewardJsonSchema",
+            message: schemaError,
+            severity: "error",
+          });
+        }
+      }
+      if (usesReward(config.rl, "judge")) {
+        const judgeError = checkJudgeConfig(config.rl.judge);
+        if (judgeError) {
+          warnings.push({
+            field: "judge",
+            message: judgeError,
+            severity: "error",
+          });
+        }
+      }
+      if (usesReward(config.rl, "custom")) {
+        const rewardError = checkCustomRewardCode(config.rl.customReward);
+        // Test results only count for the code as it is now
+        const test = rewardTest?.code === config.rl.customReward ? rewardTest : null;
+        const failedCases = test?.cases.filter((c) => c.error).length ?? 0;
+        if (rewardError || test?.error) {
+          warnings.push({
+            field: "customReward",
+            message: rewardError ?? `Reward function test failed: ${test?.error}`,
+            severity: "error",
+          });
+        } else if (test && failedCases > 0) {
+          warnings.push({
+            field: "customReward",
+            message: `compute_reward raised an exception on ${failedCases} of ${test.cases.length} test cases`,
+            severity: "warning",
+          });
+        }
+      }
+    }
+
+    // DPO-specific warnings
+    if (config.mode === "dpo" && config.dpo) {
+      if (config.dpo.beta < 0.01) {
+        warnings.push({
+          field: "beta",
+          message: "DPO beta < 0.01 barely constrains the policy to the reference model",
+          severity: "warning",
+        });
+      }
+      if (config.dpo.beta > 0.5) {
+        warnings.push({
+          field: "beta",
+          message: "DPO beta > 0.5 keeps the policy very close to the reference model",
+          severity: "warning",
+        });
+      }
+      if (config.dpo.referenceModel === "checkpoint") {
+        const path = config.dpo.referenceCheckpointPath ?? "";
+        if (!path.startsWith("tinker://")) {
+          warnings.push({
+            field: "referenceCheckpointPath",
+            message: "Reference checkpoint must be a tinker:// sampler path",
+            severity: "error",
+          });
+        } else if (!path.includes("/sampler_weights/")) {
+          warnings.push({
+            field: "referenceCheckpointPath",
+            message: "Reference logprobs require sampler weights (sampler_weights/...), not training state",
+            severity: "error",
+          });
+        }
+      }
+    }
+
+    // Eval-specific warnings
+    if (config.mode === "sft" && config.eval?.enabled) {
+      if (config.eval.source === "split" && config.eval.splitFraction > 0.2) {
+        warnings.push({
+          field: "splitFraction",
+          message: "Holding out more than 20% of the data leaves less to train on",
+          severity: "warning",
+        });
+      }
+      if (config.eval.source === "dataset" && !config.eval.dataset) {
+        warnings.push({
+          field: "evalDataset",
+          message: "Eval dataset is required when not holding out a split",
+          severity: "error",
+        });
+      }
+      if (config.eval.maxBatches === 0 && config.eval.source === "split") {
+        warnings.push({
+          field: "maxBatches",
+          message: "Evaluating the whole held-out split can slow training on large datasets",
+          severity: "warning",
+        });
+      }
+    }
+
+    // Prompt template warnings (DPO rows are already conversations)
+    if (config.mode !== "dpo" && config.prompt?.enabled) {
+      const promptError = checkPromptTemplate(config.prompt);
+      if (promptError) {
+        warnings.push({
+          field: "promptTemplate",
+          message: promptError,
+          severity: config.prompt.template.trim() ? "warning" : "error",
+        });
+      }
+    }
+
+    // Column mapping warnings
+    const columnError = checkColumnMapping(config);
+    if (columnError) {
+      warnings.push({
+        field: "datasetColumns",
+        message: columnError,
+        severity: "error",
+      });
+    }
+    if (config.dataset.preset !== "custom" && !config.dataset.preset.trim()) {
+      warnings.push({
+        field: "dataset",
+        message: "Enter a Hugging Face dataset ID",
+        severity: "error",
+      });
+    }
+
+    // Dataset mixture warnings
+    const mixtureError = checkDatasetMixture(config.dataset);
+    if (mixtureError) {
+      warnings.push({
+        field: "datasetMixture",
+        message: mixtureError,
+        severity: "error",
+      });
+    }
+
+    // Retries resume from the latest checkpoint, so sparse checkpoints repeat more work
+    if ((config.retry?.maxRetries ?? 0) > 0 && config.checkpointing.saveEvery > 100) {
+      warnings.push({
+        field: "maxRetries",
+        message: `A retry repeats up to ${config.checkpointing.saveEvery} steps; save checkpoints more often to lose less work`,
+        severity: "warning",
+      });
+    }
+
+    // Optimizer & schedule
+    if (config.hyperparameters.beta2 < config.hyperparameters.beta1) {
+      warnings.push({
+        field: "beta2",
+        message: "Adam beta2 below beta1 makes the second-moment estimate noisier than the first",
+        severity: "warning",
+      });
+    }
+    if (config.hyperparameters.weightDecay > 0.1) {
+      warnings.push({
+        field: "weightDecay",
+        message: "Weight decay > 0.1 can pull LoRA weights toward zero faster than they learn",
+        severity: "warning",
+      });
+    }
+    if (config.hyperparameters.scheduler === "constant" && config.hyperparameters.learningRate > 2e-4) {
+      warnings.push({
+        field: "scheduler",
+        message: "A constant schedule keeps a high learning rate until the end; consider cosine decay",
+        severity: "warning",
+      });
     }
 
     // Warmup ratio
@@ -809,6 +1361,39 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
       });
     }
 
+    // Pipeline stages
+    config.stages?.forEach((stage, i) => {
+      const label = `Stage ${i + 2}`;
+      if (!stage.initFromPrevious) {
+        warnings.push({
+          field: "stages",
+          message: `${label} starts from the base model and discards earlier stages' training`,
+          severity: "warning",
+        });
+      }
+      if (stage.hyperparameters.learningRate > 1e-3) {
+        warnings.push({
+          field: "stages",
+          message: `${label}: learning rate > 1e-3 may cause training instability`,
+          severity: "warning",
+        });
+      }
+      if (stage.mode === "rl" && stage.rl && stage.rl.groupSize < 4) {
+        warnings.push({
+          field: "stages",
+          message: `${label}: group size < 4 may not provide enough signal for GRPO`,
+          severity: "warning",
+        });
+      }
+    });
+    if (config.stages?.length && config.resumeFrom) {
+      warnings.push({
+        field: "stages",
+        message: "Resuming only applies to the first stage; later stages run from scratch",
+        severity: "warning",
+      });
+    }
+
     return warnings;
   },
 
@@ -818,7 +1403,13 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
 
   hasApiKey: () => {
     const { settings } = get();
-    return settings.apiKey.length > 0;
+    return settings.apiKey.length > 0 || settings.apiKeyStorage === "server";
+  },
+
+  // syncActiveProfile guarantees the active profile is in the list
+  getActiveProfile: () => {
+    const settings = syncActiveProfile(get().settings);
+    return settings.profiles.find((profile) => profile.id === settings.activeProfileId)!;
   },
 
   // ==========================================================================
@@ -845,8 +1436,14 @@ export const useStudioStore = create<StudioStore>((set, get) => ({
       const response = await fetch(`/api/training/${persisted.jobId}/status`);
       const result = await response.json();
 
-      if (result.success && result.data.exists && result.data.status === "running") {
-        // Job is still running - restore state and signal to reconnect
+      if (
+        result.success &&
+        result.data.exists &&
+        (result.data.status === "running" ||
+          result.data.status === "pending" ||
+          result.data.status === "stopping")
+      ) {
+        // Job is still running, queued or stopping - restore state and signal to reconnect
         set({
           currentJobId: persisted.jobId,
           execution: persisted.execution,
@@ -0,0 +1,42 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+
+/**
+ * Stream Tokens
+ * EventSource can't send headers, so the browser authenticates the SSE stream
+ * with a short-lived token scoped to one job instead of putting the API key in
+ * the URL. Tokens are HMAC-signed with a per-process secret; nothing is stored.
+ */
+
+// Only needs to outlive the request that opens the stream; reconnects fetch a new one
+export const STREAM_TOKEN_TTL_MS = 60000;
+
+// Use global to persist across hot reloads in development (same as activeJobs)
+const globalForStreamToken = globalThis as unknown as {
+  streamTokenSecret: Buffer | undefined;
+};
+
+const secret = globalForStreamToken.streamTokenSecret ?? randomBytes(32);
+
+if (process.env.NODE_ENV !== "production") {
+  globalForStreamToken.streamTokenSecret = secret;
+}
+
+function sign(jobId: string, expiresAt: number): string {
+  return createHmac("sha256", secret).update(`${jobId}:${expiresAt}`).digest("hex");
+}
+
+export function issueStreamToken(jobId: string): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + STREAM_TOKEN_TTL_MS;
+  return { token: `${expiresAt}.${sign(jobId, expiresAt)}`, expiresAt };
+}
+
+export function isValidStreamToken(token: string | null, jobId: string): boolean {
+  const match = token?.match(/^(\d+)\.([0-9a-f]{64})$/);
+  if (!match) return false;
+
+  const expiresAt = parseInt(match[1], 10);
+  if (expiresAt < Date.now()) return false;
+
+  const expected = Buffer.from(sign(jobId, expiresAt), "hex");
+  return timingSafeEqual(expected, Buffer.from(match[2], "hex"));
+}
@@ -0,0 +1,201 @@
+import { PipelineConfig, SweepConfig } from "./types";
+
+/**
+ * Hyperparameter Sweeps
+ * Expands a SweepConfig into concrete PipelineConfig variants (pure, no side effects)
+ */
+
+// Upper bound on runs per sweep; every run is a full training job
+export const MAX_SWEEP_RUNS = 32;
+
+// Fields that only make sense as whole numbers; everything else is sampled as a float
+export const INTEGER_FIELDS = new Set([
+  "model.loraRank",
+  "model.loraAlpha",
+  "model.maxLength",
+  "hyperparameters.batchSize",
+  "hyperparameters.epochs",
+  "hyperparameters.gradientAccumulation",
+  "hyperparameters.numCycles",
+  "rl.groupSize",
+  "checkpointing.saveEvery",
+  "eval.everySteps",
+  "eval.batchSize",
+  "eval.maxBatches",
+]);
+
+// Parts of the IR that are run bookkeeping rather than hyperparameters
+const EXCLUDED_ROOTS = new Set(["resumeFrom", "stages", "retry"]);
+
+export interface SweepVariant {
+  params: Record<string, number>; // Field path -> value for this run
+  config: PipelineConfig;
+}
+
+/**
+ * List dot paths of every numeric field in the config, e.g. "hyperparameters.batchSize".
+ */
+export function listNumericFields(config: PipelineConfig): string[] {
+  const paths: string[] = [];
+
+  const walk = (value: unknown, prefix: string) => {
+    if (typeof value === "number") {
+      paths.push(prefix);
+    } else if (value && typeof value === "object" && !Array.isArray(value)) {
+      for (const [key, child] of Object.entries(value)) {
+        if (!prefix && EXCLUDED_ROOTS.has(key)) continue;
+        walk(child, prefix ? `${prefix}.${key}` : key);
+      }
+    }
+  };
+
+  walk(config, "");
+  return paths;
+}
+
+export function getNumericField(config: PipelineConfig, path: string): number | undefined {
+  let value: unknown = config;
+  for (const key of path.split(".")) {
+    if (!value || typeof value !== "object") return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return typeof value === "number" ? value : undefined;
+}
+
+/**
+ * Return a copy of the config with one numeric field replaced.
+ */
+export function setNumericField(
+  config: PipelineConfig,
+  path: string,
+  value: number
+): PipelineConfig {
+  const set = (target: Record<string, unknown>, keys: string[]): Record<string, unknown> => {
+    const [key, ...rest] = keys;
+    return {
+      ...target,
+      [key]: rest.length === 0 ? value : set(target[key] as Record<string, unknown>, rest),
+    };
+  };
+  return set(config as unknown as Record<string, unknown>, path.split(".")) as unknown as PipelineConfig;
+}
+
+/**
+ * Number of runs the sweep will produce.
+ */
+export function countSweepRuns(sweep: SweepConfig): number {
+  if (sweep.strategy === "random") return sweep.numSamples;
+  return sweep.parameters.reduce((total, param) => total * param.values.length, 1);
+}
+
+/**
+ * Check a sweep against the config it will be applied to.
+ */
+export function validateSweep(config: PipelineConfig, sweep: SweepConfig): string[] {
+  const errors: string[] = [];
+
+  if (sweep.parameters.length === 0) {
+    errors.push("Add at least one parameter to sweep");
+  }
+
+  const seen = new Set<string>();
+  for (const param of sweep.parameters) {
+    if (seen.has(param.path)) {
+      errors.push(`${param.path} is swept more than once`);
+    }
+    seen.add(param.path);
+
+    if (getNumericField(config, param.path) === undefined) {
+      errors.push(`${param.path} is not a numeric field of the current config`);
+      continue;
+    }
+
+    if (sweep.strategy === "grid") {
+      if (param.values.length === 0 || param.values.some((v) => !Number.isFinite(v))) {
+        errors.push(`${param.path} needs at least one numeric value`);
+      } else if (INTEGER_FIELDS.has(param.path) && param.values.some((v) => !Number.isInteger(v))) {
+        errors.push(`${param.path} only takes whole numbers`);
+      }
+    } else {
+      if (!(param.min < param.max)) {
+        errors.push(`${param.path}: min must be less than max`);
+      }
+      if (param.scale === "log" && param.min <= 0) {
+        errors.push(`${param.path}: log scale needs a positive range`);
+      }
+    }
+  }
+
+  if (sweep.strategy === "random" && sweep.numSamples < 1) {
+    errors.push("Random search needs at least one sample");
+  }
+
+  const runs = countSweepRuns(sweep);
+  if (runs > MAX_SWEEP_RUNS) {
+    errors.push(`Sweep would launch ${runs} runs (max ${MAX_SWEEP_RUNS})`);
+  }
+
+  return errors;
+}
+
+/**
+ * Expand a sweep into one config per run.
+ * Grid search takes the cartesian product; random search draws numSamples points
+ * from a seeded generator so the same sweep always produces the same runs.
+ */
+export function expandSweep(config: PipelineConfig, sweep: SweepConfig): SweepVariant[] {
+  const errors = validateSweep(config, sweep);
+  if (errors.length > 0) {
+    throw new Error(errors[0]);
+  }
+
+  let points: Record<string, number>[];
+  if (sweep.strategy === "grid") {
+    points = sweep.parameters.reduce<Record<string, number>[]>(
+      (acc, param) =>
+        acc.flatMap((point) => param.values.map((value) => ({ ...point, [param.path]: value }))),
+      [{}]
+    );
+  } else {
+    const random = mulberry32(sweep.seed);
+    points = Array.from({ length: sweep.numSamples }, () =>
+      Object.fromEntries(
+        sweep.parameters.map((param) => [param.path, sampleParameter(param, random)])
+      )
+    );
+  }
+
+  return points.map((params) => ({
+    params,
+    config: Object.entries(params).reduce(
+      (variant, [path, value]) => setNumericField(variant, path, value),
+      config
+    ),
+  }));
+}
+
+function sampleParameter(param: SweepConfig["parameters"][number], random: () => number): number {
+  const u = random();
+  const value =
+    param.scale === "log"
+      ? Math.exp(Math.log(param.min) + u * (Math.log(param.max) - Math.log(param.min)))
+      : param.min + u * (param.max - param.min);
+
+  if (INTEGER_FIELDS.has(param.path)) {
+    return Math.round(value);
+  }
+  // Keep generated code and tables readable
+  return Number(value.toPrecision(3));
+}
+
+// Small seeded PRNG (mulberry32); returns floats in [0, 1)
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
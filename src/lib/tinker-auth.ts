@@ -0,0 +1,118 @@
+import { spawn } from "child_process";
+import { createHash } from "crypto";
+import { pythonEnv } from "./mock-backend";
+import { isValidApiKeyFormat } from "./security";
+
+/**
+ * Tinker Key Checks
+ * Verifies API keys with the Tinker SDK (server only). Routes that run code on
+ * the server require a verified key; a well-formed string is not enough.
+ */
+
+// Keys Tinker accepted recently, by hash, so each request doesn't start Python
+const VERIFIED_TTL_MS = 10 * 60 * 1000;
+const verifiedKeys = new Map<string, number>();
+
+/**
+ * Whether Tinker accepts the key. Successful checks are cached for a few minutes.
+ */
+export async function isVerifiedApiKey(apiKey: string | null): Promise<boolean> {
+  if (!apiKey || !isValidApiKeyFormat(apiKey)) return false;
+
+  const hash = createHash("sha256").update(apiKey).digest("hex");
+  const expiresAt = verifiedKeys.get(hash);
+  if (expiresAt && expiresAt > Date.now()) return true;
+
+  const result = await validateWithTinker(apiKey);
+  if (!result.valid) return false;
+  for (const [key, expiry] of verifiedKeys) {
+    if (expiry <= Date.now()) verifiedKeys.delete(key);
+  }
+  verifiedKeys.set(hash, Date.now() + VERIFIED_TTL_MS);
+  return true;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  error?: string;
+}
+
+export async function validateWithTinker(apiKey: string): Promise<ValidationResult> {
+  return new Promise((resolve) => {
+    // Validate API key format to prevent injection
+    if (!isValidApiKeyFormat(apiKey)) {
+      resolve({ valid: false, error: "Invalid API key format" });
+      return;
+    }
+
+    const pythonCode = `
+import os
+import sys
+import json
+
+try:
+    import tinker
+    client = tinker.ServiceClient()
+    caps = client.get_server_capabilities()
+    print(json.dumps({"valid": True}))
+except ImportError as e:
+    print(json.dumps({"valid": False, "error": "Tinker SDK not installed. Run: pip install tinker"}))
+except Exception as e:
+    error_msg = str(e)
+    if "unauthorized" in error_msg.lower() or "invalid" in error_msg.lower() or "401" in error_msg:
+        print(json.dumps({"valid": False, "error": "Invalid API key"}))
+    elif "connection" in error_msg.lower() or "network" in error_msg.lower():
+        print(json.dumps({"valid": False, "error": "Could not connect to Tinker API"}))
+    else:
+        print(json.dumps({"valid": False, "error": f"Validation failed: {error_msg}"}))
+`;
+
+    // Pass API key via environment variable instead of embedding in code
+    const python = spawn("python3", ["-c", pythonCode], {
+      env: pythonEnv({
+        ...process.env,
+        TINKER_API_KEY: apiKey,
+      }),
+    });
+    let stdout = "";
+    let stderr = "";
+
+    python.stdout.on("data", (data) => {
+      stdout += data.toString();
+    });
+
+    python.stderr.on("data", (data) => {
+      stderr += data.toString();
+    });
+
+    python.on("close", (code) => {
+      try {
+        const result = JSON.parse(stdout.trim());
+        resolve(result);
+      } catch {
+        // If we can't parse the output, check if Python is available
+        if (stderr.includes("python3: command not found") || code === 127) {
+          resolve({ valid: false, error: "Python 3 is required. Please install Python 3.9+" });
+        } else if (stderr.includes("No module named 'tinker'")) {
+          resolve({ valid: false, error: "Tinker SDK not installed. Run: pip install tinker" });
+        } else {
+          resolve({ valid: false, error: stderr || "Validation failed" });
+        }
+      }
+    });
+
+    python.on("error", (err) => {
+      if (err.message.includes("ENOENT")) {
+        resolve({ valid: false, error: "Python 3 is required. Please install Python 3.9+" });
+      } else {
+        resolve({ valid: false, error: `Failed to run validation: ${err.message}` });
+      }
+    });
+
+    // Timeout after 30 seconds
+    setTimeout(() => {
+      python.kill();
+      resolve({ valid: false, error: "Validation timed out" });
+    }, 30000);
+  });
+}
@@ -1,5 +1,7 @@
 import { useStudioStore } from "./store";
-import { PipelineConfig, TrainingJob, Model } from "./types";
+import { PipelineConfig, TrainingJob, Model, TrainingMode, SweepConfig } from "./types";
+import { setNumericField } from "./sweep";
+import { downsampleMetrics } from "./metrics";
 
 /**
  * Training Client
@@ -8,6 +10,20 @@ import { PipelineConfig, TrainingJob, Model } from "./types";
 
 let currentEventSource: EventSource | null = null;
 
+// Resume state for the current stream: the last event id seen, and the pending reconnect
+let lastEventId: string | null = null;
+let reconnectAttempts = 0;
+let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+let staleTimer: ReturnType<typeof setTimeout> | null = null;
+// Bumped on every (re)connect and disconnect so a superseded token fetch doesn't open a stream
+let streamGeneration = 0;
+
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 30000;
+const MAX_RECONNECT_ATTEMPTS = 20;
+// The server sends a heartbeat every 15s; silence for longer means a dead connection
+const STREAM_STALE_MS = 40000;
+
 export async function startTraining(
   config: PipelineConfig,
   apiKey: string,
@@ -38,10 +54,12 @@ export async function startTraining(
 
     const jobId = data.data.jobId;
 
+    const queuePosition: number | null = data.data.queuePosition ?? null;
+
     // Create training job record
     const job: TrainingJob = {
       id: jobId,
-      status: "running",
+      status: queuePosition === null ? "running" : "pending",
       config,
       startedAt: Date.now(),
       currentStep: 0,
@@ -51,9 +69,12 @@ export async function startTraining(
 
     // Start the execution in the store
     store.startExecution(jobId);
+    if (queuePosition !== null) {
+      store.setQueuePosition(queuePosition);
+    }
 
     // Connect to SSE stream
-    connectToStream(jobId);
+    await connectToStream(jobId);
 
     return jobId;
   } catch {
@@ -62,25 +83,141 @@ export async function startTraining(
   }
 }
 
-export function connectToStream(jobId: string, isReconnection: boolean = false) {
+/**
+ * Start a hyperparameter sweep. Runs are queued server-side and tracked in
+ * history under a shared sweep ID; they are not streamed into the results panel.
+ */
+export async function startSweep(
+  config: PipelineConfig,
+  sweep: SweepConfig,
+  apiKey: string,
+  model?: Model
+): Promise<string | null> {
   const store = useStudioStore.getState();
 
-  // Close any existing connection
-  if (currentEventSource) {
-    currentEventSource.close();
+  try {
+    const response = await fetch("/api/training/sweep", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        apiKey,
+        config,
+        sweep,
+        model,
+      }),
+    });
+
+    const data = await response.json();
+
+    if (!data.success) {
+      throw new Error(data.error || "Failed to start sweep");
+    }
+
+    const { sweepId, runs } = data.data as {
+      sweepId: string;
+      runs: { jobId: string; status: "pending" | "running"; params: Record<string, number> }[];
+    };
+
+    for (const run of runs) {
+      store.addTrainingJob({
+        id: run.jobId,
+        status: run.status,
+        config: Object.entries(run.params).reduce(
+          (variant, [path, value]) => setNumericField(variant, path, value),
+          config
+        ),
+        startedAt: Date.now(),
+        currentStep: 0,
+        totalSteps: 0,
+        sweepId,
+        sweepParams: run.params,
+      });
+    }
+
+    return sweepId;
+  } catch (error) {
+    if (error instanceof Error && error.message !== "Failed to fetch") {
+      throw error;
+    }
+    throw new Error("Network error. Please check your connection.");
   }
+}
 
-  // Get API key from store - EventSource doesn't support custom headers,
-  // so we pass it as a query parameter
-  const apiKey = store.settings.apiKey;
-  if (!apiKey) {
-    store.setExecutionError("API key not configured. Please set it in settings.");
-    return;
+/**
+ * Refresh a history entry from the server's job record (status and latest metrics).
+ * Used for jobs that aren't being streamed, such as sweep runs.
+ */
+export async function refreshJobSummary(jobId: string): Promise<void> {
+  const store = useStudioStore.getState();
+
+  try {
+    const response = await fetch(`/api/training/${jobId}/status`, {
+      headers: {
+        "x-api-key": store.settings.apiKey,
+      },
+    });
+    const result = await response.json();
+    if (!result.success || !result.data.exists) return;
+
+    const { status, completedAt, latestMetric } = result.data as {
+      status: TrainingJob["status"];
+      completedAt?: number;
+      latestMetric: { step?: number; total_steps?: number; loss?: number; reward?: number } | null;
+    };
+
+    store.updateTrainingJob(jobId, {
+      status,
+      completedAt,
+      ...(latestMetric && {
+        currentStep: latestMetric.step ?? 0,
+        totalSteps: latestMetric.total_steps ?? 0,
+        finalLoss: latestMetric.loss,
+        finalReward: latestMetric.reward,
+      }),
+    });
+
+    if (status === "completed" || status === "failed" || status === "cancelled") {
+      await loadJobMetrics(jobId);
+    }
+  } catch {
+    // Keep the last known summary; the next refresh will retry
   }
+}
+
+/**
+ * Fetch a job's full metric series from the server into its history entry.
+ * Streamed jobs record their series locally; this covers the rest (e.g. sweep runs).
+ */
+export async function loadJobMetrics(jobId: string): Promise<boolean> {
+  const store = useStudioStore.getState();
 
-  // Create new EventSource connection with API key as query parameter
-  const url = `/api/training/${jobId}/stream?apiKey=${encodeURIComponent(apiKey)}`;
-  currentEventSource = new EventSource(url);
+  try {
+    const response = await fetch(`/api/training/${jobId}/metrics`, {
+      headers: {
+        "x-api-key": store.settings.apiKey,
+      },
+    });
+    const result = await response.json();
+    if (!result.success) return false;
+
+    store.updateTrainingJob(jobId, { metrics: downsampleMetrics(result.data.metrics) });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export async function connectToStream(jobId: string, isReconnection: boolean = false) {
+  const store = useStudioStore.getState();
+
+  // A fresh connection replays the job's whole log
+  clearReconnect();
+  lastEventId = null;
+  reconnectAttempts = 0;
+
+  if (!(await openStream(jobId))) return;
 
   if (isReconnection) {
     store.addLog({
@@ -88,8 +225,74 @@ export function connectToStream(jobId: string, isReconnection: boolean = false)
       message: "Reconnected to training stream after page refresh",
     });
   }
+}
+
+// Open the SSE connection, resuming after the last event received. Returns false if it wasn't opened.
+async function openStream(jobId: string): Promise<boolean> {
+  const store = useStudioStore.getState();
+  const generation = ++streamGeneration;
+
+  // Close any existing connection
+  closeEventSource();
+
+  if (!store.hasApiKey()) {
+    store.setExecutionError("API key not configured. Please set it in settings.");
+    return false;
+  }
+
+  // EventSource doesn't support custom headers, so exchange the key for a
+  // short-lived stream token rather than putting it in the URL
+  let token: string;
+  try {
+    const response = await fetch(`/api/training/${jobId}/stream-token`, {
+      method: "POST",
+      headers: {
+        "x-api-key": store.settings.apiKey,
+      },
+    });
+    const data = await response.json();
+    if (!data.success) {
+      store.addLog({
+        level: "error",
+        message: data.error || "Failed to authorize training stream",
+      });
+      return false;
+    }
+    token = data.data.token;
+  } catch {
+    if (generation === streamGeneration) {
+      scheduleReconnect(jobId);
+    }
+    return false;
+  }
 
-  currentEventSource.onmessage = (event) => {
+  // Another connect or a disconnect happened while fetching the token
+  if (generation !== streamGeneration) return false;
+
+  // A new EventSource can't set Last-Event-ID, so the resume point goes in the query too
+  const params = new URLSearchParams({ token });
+  if (lastEventId !== null) {
+    params.set("lastEventId", lastEventId);
+  }
+  const eventSource = new EventSource(`/api/training/${jobId}/stream?${params}`);
+  currentEventSource = eventSource;
+  resetStaleTimer(jobId);
+
+  eventSource.onopen = () => {
+    if (reconnectAttempts > 0) {
+      useStudioStore.getState().addLog({
+        level: "info",
+        message: "Reconnected to training stream",
+      });
+    }
+    reconnectAttempts = 0;
+  };
+
+  eventSource.onmessage = (event) => {
+    if (event.lastEventId) {
+      lastEventId = event.lastEventId;
+    }
+    resetStaleTimer(jobId);
     try {
       const data = JSON.parse(event.data);
       handleStreamEvent(data, jobId);
@@ -98,21 +301,66 @@ export function connectToStream(jobId: string, isReconnection: boolean = false)
     }
   };
 
-  currentEventSource.onerror = (error) => {
+  eventSource.onerror = (error) => {
     console.error("SSE connection error:", error);
-    const store = useStudioStore.getState();
+    closeEventSource();
+    scheduleReconnect(jobId);
+  };
 
-    // Only set error if we're still running
-    if (store.execution.status === "running") {
-      store.addLog({
-        level: "error",
-        message: "Lost connection to training server",
-      });
-    }
+  return true;
+}
 
-    currentEventSource?.close();
-    currentEventSource = null;
-  };
+// Reconnect with exponential backoff while the job is still being watched
+function scheduleReconnect(jobId: string) {
+  const store = useStudioStore.getState();
+  if (store.execution.status !== "running" || store.currentJobId !== jobId) return;
+
+  if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+    store.addLog({
+      level: "error",
+      message: "Lost connection to training server",
+    });
+    return;
+  }
+
+  const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts, RECONNECT_MAX_DELAY_MS);
+  reconnectAttempts++;
+  store.addLog({
+    level: "warn",
+    message: `Connection to training server lost, reconnecting in ${Math.round(delay / 1000)}s...`,
+  });
+
+  clearReconnect();
+  reconnectTimer = setTimeout(() => {
+    reconnectTimer = null;
+    openStream(jobId);
+  }, delay);
+}
+
+// Treat a connection that has gone quiet past the heartbeat interval as dropped
+function resetStaleTimer(jobId: string) {
+  if (staleTimer) clearTimeout(staleTimer);
+  staleTimer = setTimeout(() => {
+    staleTimer = null;
+    closeEventSource();
+    scheduleReconnect(jobId);
+  }, STREAM_STALE_MS);
+}
+
+function closeEventSource() {
+  if (staleTimer) {
+    clearTimeout(staleTimer);
+    staleTimer = null;
+  }
+  currentEventSource?.close();
+  currentEventSource = null;
+}
+
+function clearReconnect() {
+  if (reconnectTimer) {
+    clearTimeout(reconnectTimer);
+    reconnectTimer = null;
+  }
 }
 
 /**
@@ -131,7 +379,7 @@ export async function restoreTrainingSession(): Promise<boolean> {
   const { jobId, shouldReconnect } = await store.restoreExecutionState();
 
   if (jobId && shouldReconnect) {
-    connectToStream(jobId, true);
+    await connectToStream(jobId, true);
     return true;
   }
 
@@ -140,7 +388,18 @@ export async function restoreTrainingSession(): Promise<boolean> {
 
 function handleStreamEvent(
   data: {
-    type: "log" | "metric" | "error" | "status" | "done" | "checkpoint_sample";
+    type:
+      | "log"
+      | "metric"
+      | "error"
+      | "status"
+      | "done"
+      | "checkpoint_sample"
+      | "checkpoint_interrupted"
+      | "stage"
+      | "retry"
+      | "queue"
+      | "heartbeat";
     message?: string;
     level?: "info" | "warn" | "error";
     status?: string;
@@ -148,6 +407,10 @@ function handleStreamEvent(
     totalSteps?: number;
     loss?: number;
     reward?: number;
+    rewardComponents?: Record<string, number>;
+    judgeLatencyMs?: number;
+    kl?: number;
+    evalLoss?: number;
     learningRate?: number;
     // New fields
     tokensPerSecond?: number;
@@ -156,8 +419,14 @@ function handleStreamEvent(
     tokenCount?: number;
     checkpointPath?: string;
     checkpointLabel?: string;
+    statePath?: string;
     prompt?: string;
     response?: string;
+    stage?: number;
+    totalStages?: number;
+    mode?: TrainingMode;
+    position?: number | null;
+    retry?: number;
   },
   jobId: string
 ) {
@@ -181,9 +450,14 @@ function handleStreamEvent(
       // Add to metrics chart
       if (data.step !== undefined && data.loss !== undefined) {
         store.addMetric({
-          step: data.step,
+          // Later pipeline stages continue the step axis of the earlier ones
+          step: data.step + (store.execution.stageStepOffset ?? 0),
           loss: data.loss,
           reward: data.reward,
+          rewardComponents: data.rewardComponents,
+          judgeLatencyMs: data.judgeLatencyMs,
+          kl: data.kl,
+          evalLoss: data.evalLoss,
           learningRate: data.learningRate,
           tokensPerSecond: data.tokensPerSecond,
           wallClockTimeMs: data.wallClockTimeMs,
@@ -214,7 +488,7 @@ function handleStreamEvent(
         store.updateTrainingJob(jobId, {
           lastCheckpointStep: data.step,
           lastCheckpointLabel: checkpointLabel,
-          lastCheckpointPath: data.checkpointPath,
+          lastCheckpointPath: data.statePath ?? data.checkpointPath,
           currentStep: data.step,
         });
 
@@ -225,6 +499,58 @@ function handleStreamEvent(
       }
       break;
 
+    case "checkpoint_interrupted":
+      // A stopped run saved its progress; make it resumable from here
+      if (data.step !== undefined && data.checkpointLabel) {
+        store.updateTrainingJob(jobId, {
+          lastCheckpointStep: data.step,
+          lastCheckpointLabel: data.checkpointLabel,
+          lastCheckpointPath: data.statePath,
+          currentStep: data.step,
+        });
+      }
+      store.addLog({
+        level: "warn",
+        message: data.message || "Training stopped",
+      });
+      break;
+
+    case "stage":
+      if (data.stage !== undefined && data.totalStages !== undefined && data.mode) {
+        store.setExecutionStage(data.stage, data.totalStages, data.mode);
+        store.updateTrainingJob(jobId, { currentStage: data.stage });
+      }
+      store.addLog({
+        level: "info",
+        message: data.message || "",
+      });
+      break;
+
+    case "retry":
+      // The runner relaunches a crashed stage from its latest checkpoint
+      if (data.retry !== undefined) {
+        store.updateTrainingJob(jobId, { retries: data.retry });
+      }
+      store.addLog({
+        level: "warn",
+        message: data.message || "Retrying failed attempt",
+      });
+      break;
+
+    case "queue":
+      if (data.position) {
+        const isFirstReport = store.execution.queuePosition === undefined;
+        store.setQueuePosition(data.position);
+        store.updateTrainingJob(jobId, { status: "pending" });
+        if (isFirstReport) {
+          store.addLog({
+            level: "info",
+            message: `Waiting for a training slot (position ${data.position} in queue)`,
+          });
+        }
+      }
+      break;
+
     case "error":
       store.addLog({
         level: "error",
@@ -233,26 +559,41 @@ function handleStreamEvent(
       break;
 
     case "status":
-      if (data.status === "completed") {
+      if (data.status === "running") {
+        // Left the queue (no-op for jobs that started right away)
+        if (store.execution.queuePosition !== undefined) {
+          store.setQueuePosition(undefined);
+          store.addLog({ level: "info", message: "Training slot available, starting..." });
+        }
+        store.updateTrainingJob(jobId, { status: "running" });
+      } else if (data.status === "stopping") {
+        store.updateTrainingJob(jobId, { status: "stopping" });
+      } else if (data.status === "completed") {
         store.setExecutionStatus("completed");
         store.updateTrainingJob(jobId, {
           status: "completed",
           completedAt: Date.now(),
           finalLoss: store.execution.metrics[store.execution.metrics.length - 1]?.loss,
+          finalReward: store.execution.metrics[store.execution.metrics.length - 1]?.reward,
+          metrics: downsampleMetrics(store.execution.metrics),
         });
       } else if (data.status === "failed" || data.status === "cancelled") {
         store.setExecutionStatus("error");
         store.updateTrainingJob(jobId, {
           status: data.status === "cancelled" ? "cancelled" : "failed",
           completedAt: Date.now(),
+          metrics: downsampleMetrics(store.execution.metrics),
         });
       }
       break;
 
+    case "heartbeat":
+      // Only keeps the connection from being considered stale
+      break;
+
     case "done":
       // Close the connection
-      currentEventSource?.close();
-      currentEventSource = null;
+      closeEventSource();
       break;
   }
 }
@@ -263,6 +604,9 @@ export async function stopTraining(jobId: string): Promise<boolean> {
   try {
     const response = await fetch(`/api/training/${jobId}/stop`, {
       method: "POST",
+      headers: {
+        "x-api-key": store.settings.apiKey,
+      },
     });
 
     const data = await response.json();
@@ -270,7 +614,10 @@ export async function stopTraining(jobId: string): Promise<boolean> {
     if (data.success) {
       store.addLog({
         level: "warn",
-        message: "Stop requested. Waiting for current step to complete...",
+        message:
+          store.execution.queuePosition !== undefined
+            ? "Removing job from the queue..."
+            : "Stop requested. Saving a checkpoint after the current step...",
       });
       return true;
     } else {
@@ -290,8 +637,7 @@ export async function stopTraining(jobId: string): Promise<boolean> {
 }
 
 export function disconnectFromStream() {
-  if (currentEventSource) {
-    currentEventSource.close();
-    currentEventSource = null;
-  }
+  streamGeneration++;
+  clearReconnect();
+  closeEventSource();
 }
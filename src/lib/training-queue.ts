@@ -0,0 +1,107 @@
+/**
+ * Training Queue: limits how many training processes run at once
+ * Jobs wait in FIFO order; a job is skipped (not blocked) while its own
+ * API key is at the per-key limit, so one user can't stall everyone else.
+ */
+
+interface QueuedJob {
+  jobId: string;
+  owner: string; // API key hash
+  start: () => void;
+}
+
+class TrainingQueue {
+  private pending: QueuedJob[] = [];
+  private running: Map<string, string> = new Map(); // jobId -> owner
+  private maxConcurrent: number;
+  private maxPerKey: number;
+
+  constructor(maxConcurrent: number = 2, maxPerKey: number = 1) {
+    this.maxConcurrent = maxConcurrent;
+    this.maxPerKey = maxPerKey;
+  }
+
+  /**
+   * Add a job to the queue. Starts it right away if there is capacity.
+   */
+  enqueue(jobId: string, owner: string, start: () => void) {
+    this.pending.push({ jobId, owner, start });
+    this.schedule();
+  }
+
+  /**
+   * Remove a job that hasn't started yet. Returns false if it isn't queued.
+   */
+  cancel(jobId: string): boolean {
+    const index = this.pending.findIndex((job) => job.jobId === jobId);
+    if (index === -1) return false;
+    this.pending.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Free a running job's slot and start whatever can run next. Safe to call twice.
+   */
+  release(jobId: string) {
+    if (this.running.delete(jobId)) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * 1-based position in the queue, or null if the job isn't waiting.
+   */
+  getPosition(jobId: string): number | null {
+    const index = this.pending.findIndex((job) => job.jobId === jobId);
+    return index === -1 ? null : index + 1;
+  }
+
+  private countRunning(owner: string): number {
+    let count = 0;
+    for (const runningOwner of this.running.values()) {
+      if (runningOwner === owner) count++;
+    }
+    return count;
+  }
+
+  private schedule() {
+    let index = 0;
+    while (index < this.pending.length && this.running.size < this.maxConcurrent) {
+      const job = this.pending[index];
+      if (this.countRunning(job.owner) >= this.maxPerKey) {
+        index++;
+        continue;
+      }
+
+      this.pending.splice(index, 1);
+      this.running.set(job.jobId, job.owner);
+      try {
+        job.start();
+      } catch (error) {
+        console.error(`Failed to start queued job ${job.jobId}:`, error);
+        this.running.delete(job.jobId);
+      }
+    }
+  }
+}
+
+function readLimit(value: string | undefined, fallback: number): number {
+  const parsed = parseInt(value ?? "", 10);
+  return parsed > 0 ? parsed : fallback;
+}
+
+// Use global to persist across hot reloads in development (same as activeJobs)
+const globalForQueue = globalThis as unknown as {
+  trainingQueue: TrainingQueue | undefined;
+};
+
+export const trainingQueue =
+  globalForQueue.trainingQueue ??
+  new TrainingQueue(
+    readLimit(process.env.TINKER_STUDIO_MAX_CONCURRENT_JOBS, 2),
+    readLimit(process.env.TINKER_STUDIO_MAX_JOBS_PER_KEY, 1)
+  );
+
+if (process.env.NODE_ENV !== "production") {
+  globalForQueue.trainingQueue = trainingQueue;
+}
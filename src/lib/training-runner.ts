@@ -0,0 +1,450 @@
+import { spawn } from "child_process";
+import { randomUUID } from "crypto";
+import { writeFile, mkdir } from "fs/promises";
+import { join } from "path";
+import {
+  generatePipelineScripts,
+  generateResumedStageScript,
+  PipelineScript,
+  validateConfigForExecution,
+} from "./codegen";
+import { PipelineConfig, Model } from "./types";
+import {
+  activeJobs,
+  appendJobLogs,
+  createJob,
+  evictJob,
+  getJobDir,
+  hashApiKey,
+  isJobLive,
+  updateJob,
+  TrainingJobAttempt,
+  TrainingJobStage,
+} from "./training-store";
+import { trainingQueue } from "./training-queue";
+import { pythonEnv } from "./mock-backend";
+
+/**
+ * Training Runner
+ * Server-side job start path shared by single runs and sweeps:
+ * generate scripts, register the job, queue it, and run its stages
+ */
+
+export interface StartedJob {
+  jobId: string;
+  status: "pending" | "running";
+  queuePosition: number | null;
+}
+
+// Everything needed to (re)launch a job's stages
+interface JobRun {
+  jobId: string;
+  jobDir: string;
+  config: PipelineConfig;
+  model?: Model;
+  apiKey: string;
+  scripts: PipelineScript[];
+}
+
+// How a stage is launched; retries run a regenerated script that resumes from a checkpoint
+interface LaunchOptions {
+  initFromState?: string;
+  initFromSampler?: string; // Default KL/DPO reference of the stage
+  filename?: string;
+  resumedFrom?: string;
+}
+
+// stderr lines kept per attempt for post-mortems
+const STDERR_TAIL_LINES = 20;
+
+// How long a finished job stays in the live cache; its records stay on disk
+const EVICT_DELAY_MS = 60000;
+
+/**
+ * Sanitizes error messages to prevent information disclosure
+ */
+function sanitizeErrorMessage(error: string): string {
+  return error
+    .replace(/\/home\/[^\/\s]+/g, "/home/***")
+    .replace(/\/tmp\/[^\/\s]+/g, "/tmp/***")
+    .replace(/\/Users\/[^\/\s]+/g, "/Users/***")
+    .replace(/C:\\Users\\[^\\\s]+/g, "C:\\Users\\***")
+    .replace(/\b\d{1,3}\.\d{1,3}\.\d{1,3}\.\d{1,3}\b/g, "***.***.***.***")
+    .replace(/:[0-9]{2,5}\b/g, ":****");
+}
+
+/**
+ * Create a job for a config and queue it. Each pipeline stage gets its own script;
+ * stages run in order once the job reaches the front of the queue.
+ */
+export async function startJob(
+  config: PipelineConfig,
+  apiKey: string,
+  model?: Model,
+  sweepId?: string
+): Promise<StartedJob> {
+  // Settings are spliced into the scripts, so every caller gets the same checks
+  const errors = validateConfigForExecution(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid configuration: ${errors[0]}`);
+  }
+
+  // Generate unique job ID using secure random UUID
+  const jobId = `job_${randomUUID()}`;
+
+  // Generate one Python script per pipeline stage
+  const scripts = generatePipelineScripts(config, model);
+
+  // Create the job directory (scripts + persisted job records)
+  const jobDir = getJobDir(jobId);
+  await mkdir(jobDir, { recursive: true });
+
+  // Write scripts to the job directory (without API key embedded)
+  for (const script of scripts) {
+    await writeFile(join(jobDir, script.filename), script.code);
+  }
+
+  // Register the job; only a hash of the API key is kept for authorization
+  const apiKeyHash = hashApiKey(apiKey);
+  createJob(jobId, {
+    config,
+    startedAt: Date.now(),
+    status: "pending",
+    apiKeyHash,
+    stages: scripts.map((script) => ({ mode: script.mode, status: "pending" })),
+    currentStage: 1,
+    sweepId,
+  });
+
+  // Wait for a free slot; starts immediately when under the concurrency limits
+  const run: JobRun = { jobId, jobDir, config, model, apiKey, scripts };
+  trainingQueue.enqueue(jobId, apiKeyHash, () => {
+    updateStage(jobId, 0, { status: "running" });
+    updateJob(jobId, { status: "running" });
+    const job = activeJobs.get(jobId);
+    if (job) {
+      job.process = launchStage(run, 0);
+    }
+    if (scripts.length > 1) {
+      recordStageStart(jobId, scripts[0], scripts.length);
+    }
+  });
+
+  const queuePosition = trainingQueue.getPosition(jobId);
+  return {
+    jobId,
+    status: queuePosition === null ? "running" : "pending",
+    queuePosition,
+  };
+}
+
+/**
+ * Spawn the Python process for one pipeline stage and wire its output into the job.
+ * The job entry must exist by the time the process emits events.
+ */
+function launchStage(run: JobRun, stageIndex: number /* 0-based */, options: LaunchOptions = {}) {
+  const { jobId, jobDir, scripts, apiKey } = run;
+  const { initFromState, initFromSampler } = options;
+  const scriptPath = join(jobDir, options.filename ?? scripts[stageIndex].filename);
+  const startedAt = Date.now();
+  const stderrTail: string[] = [];
+
+  // Spawn Python process with API key passed via environment variable
+  // Apply resource limits for security using ulimit (Unix/Linux)
+  // Memory breakdown:
+  // - Python runtime + SDK (~200MB)
+  // - Dataset streaming + tokenization (~500MB)
+  // - Overhead and buffers (~300MB)
+  // Total: ~1.5GB limit
+  const memoryLimitKB = Math.floor(1.5 * 1024 * 1024); // 1.5GB in KB
+
+  // Use bash with ulimit to enforce memory limits on Unix systems
+  // On non-Unix systems, ulimit will fail gracefully and run without limits
+  const pythonProcess = spawn("bash", [
+    "-c",
+    `ulimit -v ${memoryLimitKB} 2>/dev/null || true; exec python3 -u "${scriptPath}"`
+  ], {
+    cwd: jobDir,
+    env: pythonEnv({
+      ...process.env,
+      PYTHONUNBUFFERED: "1",
+      TINKER_TELEMETRY: "0",
+      TINKER_API_KEY: apiKey,
+      ...(initFromState ? { INIT_FROM_STATE: initFromState } : {}),
+      ...(initFromSampler ? { INIT_FROM_SAMPLER: initFromSampler } : {}),
+    }),
+    detached: false, // Keep process attached for proper cleanup
+  });
+
+  // Handle process events
+  pythonProcess.stdout.on("data", (data) => {
+    const lines: string[] = data.toString().split("\n").filter(Boolean);
+    appendJobLogs(jobId, lines);
+
+    for (const line of lines) {
+      // Remember the stage's final weights for the next stage
+      if (line.startsWith("STAGE_COMPLETE::")) {
+        try {
+          const result = JSON.parse(line.substring(16));
+          updateStage(jobId, stageIndex, {
+            statePath: result.state_path,
+            samplerPath: result.sampler_path,
+          });
+        } catch {
+          // Malformed line; handled when the next stage starts
+        }
+      }
+
+      // Remember the latest checkpoint so a crashed stage can resume from it
+      if (line.startsWith("CHECKPOINT_SAMPLE::")) {
+        try {
+          const result = JSON.parse(line.substring(19));
+          if (result.state_path) {
+            updateStage(jobId, stageIndex, {
+              lastCheckpoint: {
+                step: result.step,
+                label: result.checkpoint_label,
+                statePath: result.state_path,
+              },
+            });
+          }
+        } catch {
+          // Malformed line; a retry falls back to the previous checkpoint
+        }
+      }
+
+      // A stopped stage saved its progress; the job is now cancelled
+      if (line.startsWith("CHECKPOINT_INTERRUPTED::")) {
+        updateStage(jobId, stageIndex, { status: "cancelled" });
+        updateJob(jobId, { status: "cancelled", completedAt: Date.now() });
+      }
+    }
+  });
+
+  pythonProcess.stderr.on("data", (data) => {
+    const lines = data.toString().split("\n").filter(Boolean);
+    appendJobLogs(jobId, lines.map((l: string) => `[ERROR] ${l}`));
+    stderrTail.push(...lines);
+    stderrTail.splice(0, Math.max(0, stderrTail.length - STDERR_TAIL_LINES));
+  });
+
+  pythonProcess.on("close", (code, signal) => {
+    const job = activeJobs.get(jobId);
+    if (!job) return;
+
+    recordAttempt(jobId, {
+      stage: stageIndex + 1,
+      startedAt,
+      endedAt: Date.now(),
+      exitCode: code,
+      signal,
+      stderrTail: stderrTail.map(sanitizeErrorMessage),
+      resumedFrom: options.resumedFrom,
+    });
+
+    const stage = job.stages[stageIndex];
+    const totalStages = scripts.length;
+
+    // Stopped by the user. A stage that exits without reporting an interrupted
+    // checkpoint (e.g. stopped before its training loop started) is still stopped.
+    if (job.status !== "running") {
+      trainingQueue.release(jobId);
+      if (job.status === "stopping") {
+        appendJobLogs(jobId, ["Training stopped"]);
+        updateJob(jobId, { status: "cancelled", completedAt: Date.now() });
+      }
+      updateJob(jobId, { exitCode: code });
+      if (activeJobs.get(jobId)?.status === "cancelled") {
+        updateStage(jobId, stageIndex, { status: "cancelled" });
+      }
+      return;
+    }
+
+    if (code !== 0) {
+      if (scheduleRetry(run, stageIndex, code, signal)) return;
+
+      trainingQueue.release(jobId);
+      appendJobLogs(jobId, [
+        totalStages > 1
+          ? `Stage ${stageIndex + 1}/${totalStages} failed with exit code ${code}`
+          : `Training failed with exit code ${code}`,
+      ]);
+      updateStage(jobId, stageIndex, { status: "failed" });
+      updateJob(jobId, { status: "failed", exitCode: code, completedAt: Date.now() });
+      return;
+    }
+
+    updateStage(jobId, stageIndex, { status: "completed" });
+    if (stageIndex === totalStages - 1) {
+      trainingQueue.release(jobId);
+      appendJobLogs(jobId, ["Training completed successfully!"]);
+      updateJob(jobId, { status: "completed", exitCode: code, completedAt: Date.now() });
+      return;
+    }
+
+    // Start the next stage from this stage's final state
+    const next = scripts[stageIndex + 1];
+    if (next.initFromPrevious && !stage.statePath) {
+      trainingQueue.release(jobId);
+      appendJobLogs(jobId, [`[ERROR] Stage ${stageIndex + 1} did not report its final state`]);
+      updateStage(jobId, stageIndex, { status: "failed" });
+      updateJob(jobId, { status: "failed", exitCode: code, completedAt: Date.now() });
+      return;
+    }
+
+    updateStage(jobId, stageIndex + 1, { status: "running" });
+    updateJob(jobId, { currentStage: next.stage });
+    recordStageStart(jobId, next, totalStages);
+    job.process = launchStage(run, stageIndex + 1, {
+      initFromState: next.initFromPrevious ? stage.statePath : undefined,
+      initFromSampler: next.initFromPrevious ? stage.samplerPath : undefined,
+    });
+  });
+
+  // Runs after the handler above. Finished jobs leave the cache even when no
+  // stream is open for them (e.g. sweep runs nobody watches).
+  pythonProcess.on("close", () => evictWhenFinished(jobId));
+
+  pythonProcess.on("error", (error) => {
+    trainingQueue.release(jobId);
+    appendJobLogs(jobId, [`[ERROR] ${sanitizeErrorMessage(error.message)}`]);
+    updateStage(jobId, stageIndex, { status: "failed" });
+    updateJob(jobId, { status: "failed", completedAt: Date.now() });
+    evictWhenFinished(jobId);
+  });
+
+  return pythonProcess;
+}
+
+/**
+ * Relaunch a crashed stage if the job's retry policy allows another attempt.
+ * The stage resumes from its latest checkpoint, or restarts when it hasn't saved one.
+ * The job keeps its queue slot while waiting. Returns false when out of retries.
+ */
+function scheduleRetry(
+  run: JobRun,
+  stageIndex: number,
+  code: number | null,
+  signal: NodeJS.Signals | null
+): boolean {
+  const { jobId } = run;
+  const job = activeJobs.get(jobId);
+  const policy = run.config.retry;
+  if (!job || !policy) return false;
+
+  // Failed attempts so far, including the one that just ended
+  const failures = (job.attempts ?? []).filter((attempt) => attempt.exitCode !== 0).length;
+  if (failures > policy.maxRetries) return false;
+
+  const delaySeconds = policy.backoffSeconds * 2 ** (failures - 1);
+  const checkpoint = job.stages[stageIndex].lastCheckpoint;
+  appendJobLogs(jobId, [
+    `RETRY::${JSON.stringify({
+      retry: failures,
+      max_retries: policy.maxRetries,
+      stage: stageIndex + 1,
+      exit_code: code,
+      signal,
+      delay_seconds: delaySeconds,
+      resume_from: checkpoint?.label ?? null,
+      resume_step: checkpoint?.step ?? null,
+    })}`,
+  ]);
+
+  // No process while waiting; the stop route cancels the retry instead of signalling
+  job.process = undefined;
+
+  setTimeout(async () => {
+    const current = activeJobs.get(jobId);
+    if (!current || current.status !== "running") return;
+
+    try {
+      const options: LaunchOptions = {};
+      const script = run.scripts[stageIndex];
+      if (script.initFromPrevious) {
+        options.initFromState = current.stages[stageIndex - 1]?.statePath;
+        options.initFromSampler = current.stages[stageIndex - 1]?.samplerPath;
+      }
+      if (checkpoint) {
+        const resumed = generateResumedStageScript(
+          run.config,
+          stageIndex,
+          {
+            checkpointPath: checkpoint.statePath,
+            checkpointLabel: checkpoint.label,
+            fromStep: checkpoint.step,
+            jobId,
+          },
+          run.model
+        );
+        options.filename = resumed.filename.replace(/\.py$/, `_retry${failures}.py`);
+        options.resumedFrom = checkpoint.label;
+        await writeFile(join(run.jobDir, options.filename), resumed.code);
+      }
+      current.process = launchStage(run, stageIndex, options);
+    } catch (error) {
+      trainingQueue.release(jobId);
+      appendJobLogs(jobId, [
+        `[ERROR] Retry failed to start: ${sanitizeErrorMessage(error instanceof Error ? error.message : String(error))}`,
+      ]);
+      updateStage(jobId, stageIndex, { status: "failed" });
+      updateJob(jobId, { status: "failed", completedAt: Date.now() });
+      evictWhenFinished(jobId);
+    }
+  }, delaySeconds * 1000);
+
+  return true;
+}
+
+// Drop a job that reached a terminal state from memory after a short delay
+function evictWhenFinished(jobId: string) {
+  const job = activeJobs.get(jobId);
+  if (job && !isJobLive(job)) {
+    setTimeout(() => evictJob(jobId), EVICT_DELAY_MS);
+  }
+}
+
+// Persist one finished stage launch
+function recordAttempt(jobId: string, attempt: TrainingJobAttempt) {
+  const job = activeJobs.get(jobId);
+  if (job) {
+    updateJob(jobId, { attempts: [...(job.attempts ?? []), attempt] });
+  }
+}
+
+// Persist a change to one stage's bookkeeping
+function updateStage(jobId: string, stageIndex: number, updates: Partial<TrainingJobStage>) {
+  const job = activeJobs.get(jobId);
+  if (job) {
+    updateJob(jobId, {
+      stages: job.stages.map((stage, i) => (i === stageIndex ? { ...stage, ...updates } : stage)),
+    });
+  }
+}
+
+// Mark a stage boundary in the job logs so the stream can report per-stage progress
+function recordStageStart(jobId: string, script: PipelineScript, totalStages: number) {
+  appendJobLogs(jobId, [
+    `STAGE_START::${JSON.stringify({ stage: script.stage, total_stages: totalStages, mode: script.mode })}`,
+  ]);
+}
+
+// Check if Python is available
+export async function checkPythonAvailable(): Promise<boolean> {
+  return new Promise((resolve) => {
+    const python = spawn("python3", ["--version"]);
+
+    python.on("close", (code) => {
+      resolve(code === 0);
+    });
+
+    python.on("error", () => {
+      resolve(false);
+    });
+
+    setTimeout(() => {
+      python.kill();
+      resolve(false);
+    }, 5000);
+  });
+}
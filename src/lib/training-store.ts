@@ -1,17 +1,66 @@
 import { ChildProcess } from "child_process";
-import { PipelineConfig } from "./types";
+import { createHash } from "crypto";
+import { appendFileSync, existsSync, mkdirSync, readdirSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import { PipelineConfig, TrainingMode } from "./types";
+import { MetricRecord } from "./metrics";
+
+export interface TrainingJobStage {
+  mode: TrainingMode;
+  status: "pending" | "running" | "completed" | "failed" | "cancelled";
+  statePath?: string; // Final training state reported by the stage (STAGE_COMPLETE)
+  samplerPath?: string;
+  lastCheckpoint?: { step: number; label: string; statePath: string }; // Latest periodic checkpoint, for retries
+}
+
+// One launch of a stage's script, kept so crashes and retries can be inspected later
+export interface TrainingJobAttempt {
+  stage: number; // 1-based
+  startedAt: number;
+  endedAt: number;
+  exitCode: number | null;
+  signal: string | null; // Set when the process was killed, e.g. SIGKILL from the OOM killer
+  stderrTail: string[]; // Last stderr lines before exit
+  resumedFrom?: string; // Checkpoint label the attempt resumed from, for retries
+}
 
 export interface TrainingJob {
-  process: ChildProcess;
+  process?: ChildProcess; // Only set for jobs spawned by this server process
   config: PipelineConfig;
   startedAt: number;
+  completedAt?: number;
   logs: string[];
-  status: "running" | "completed" | "failed" | "cancelled";
-  apiKey: string; // Track which API key owns this job for authorization
+  metrics: MetricRecord[]; // Parsed METRIC:: payloads, in order
+  // pending = waiting in the queue; stopping = SIGTERM sent, waiting for the interrupted checkpoint
+  status: "pending" | "running" | "stopping" | "completed" | "failed" | "cancelled";
+  exitCode?: number | null;
+  apiKeyHash: string; // Track which API key owns this job for authorization
+  stages: TrainingJobStage[]; // One entry per pipeline stage (single-stage jobs have one)
+  currentStage: number; // 1-based index into stages
+  sweepId?: string; // Set for jobs launched as part of a hyperparameter sweep
+  attempts?: TrainingJobAttempt[]; // Every finished stage launch, including retries
 }
 
+// Fields that change over a job's lifetime and are persisted as update records
+type JobUpdate = Partial<
+  Pick<TrainingJob, "status" | "exitCode" | "completedAt" | "stages" | "currentStage" | "attempts">
+>;
+
+// One line of a job's append-only record file
+type JobRecord =
+  | { type: "created"; job: Omit<TrainingJob, "process" | "logs" | "metrics"> }
+  | { type: "update"; updates: JobUpdate }
+  | { type: "log"; line: string }
+  | { type: "metric"; data: MetricRecord };
+
+// Each job gets a directory holding its generated scripts and job.jsonl record file
+export const JOBS_DIR = process.env.TINKER_STUDIO_JOBS_DIR || join(tmpdir(), "tinker-studio");
+
+const RECORD_FILE = "job.jsonl";
+
 // Use global to persist across hot reloads in development
-// In production, this would be Redis or a database
+// Live jobs are cached here; finished jobs are reloaded from disk on demand
 const globalForTraining = globalThis as unknown as {
   activeJobs: Map<string, TrainingJob> | undefined;
 };
@@ -21,3 +70,175 @@ export const activeJobs = globalForTraining.activeJobs ?? new Map<string, Traini
 if (process.env.NODE_ENV !== "production") {
   globalForTraining.activeJobs = activeJobs;
 }
+
+export function getJobDir(jobId: string): string {
+  return join(JOBS_DIR, jobId);
+}
+
+export function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+/**
+ * Check that the provided API key owns the job. Only a hash of the key is stored.
+ */
+export function isJobOwner(job: TrainingJob, apiKey: string | null): boolean {
+  return !!apiKey && hashApiKey(apiKey) === job.apiKeyHash;
+}
+
+// Appends are synchronous so records from interleaved stdout/stderr chunks stay ordered
+function appendRecord(jobId: string, record: JobRecord) {
+  try {
+    appendFileSync(join(getJobDir(jobId), RECORD_FILE), JSON.stringify(record) + "\n");
+  } catch (error) {
+    console.error(`Failed to persist record for ${jobId}:`, error);
+  }
+}
+
+/**
+ * Register a new job and write its initial record.
+ */
+export function createJob(jobId: string, job: Omit<TrainingJob, "logs" | "metrics">) {
+  const persisted = { ...job };
+  delete persisted.process;
+  mkdirSync(getJobDir(jobId), { recursive: true });
+  activeJobs.set(jobId, { ...job, logs: [], metrics: [] });
+  appendRecord(jobId, { type: "created", job: persisted });
+}
+
+/**
+ * Get a job from the live cache, falling back to its records on disk.
+ */
+export function getJob(jobId: string): TrainingJob | undefined {
+  const cached = activeJobs.get(jobId);
+  if (cached) return cached;
+
+  // Job IDs come from URLs; never let one escape the jobs directory
+  if (!/^job_[a-zA-Z0-9-]+$/.test(jobId)) return undefined;
+  return loadJob(jobId);
+}
+
+/**
+ * Apply and persist changes to a job's status or stage bookkeeping.
+ */
+export function updateJob(jobId: string, updates: JobUpdate) {
+  const job = activeJobs.get(jobId);
+  if (!job) return;
+  Object.assign(job, updates);
+  appendRecord(jobId, { type: "update", updates });
+}
+
+/**
+ * Append output lines to a job, persisting each line and any parsed metrics.
+ */
+export function appendJobLogs(jobId: string, lines: string[]) {
+  const job = activeJobs.get(jobId);
+  if (!job) return;
+
+  for (const line of lines) {
+    job.logs.push(line);
+    appendRecord(jobId, { type: "log", line });
+
+    if (line.startsWith("METRIC::")) {
+      try {
+        // The runner sets currentStage as it writes STAGE_START; charts use it to
+        // tell a new stage from a retry resuming at a lower step
+        const data: MetricRecord = { ...JSON.parse(line.substring(8)), stage: job.currentStage };
+        job.metrics.push(data);
+        appendRecord(jobId, { type: "metric", data });
+      } catch {
+        // Unparseable metric lines are still kept as logs
+      }
+    }
+  }
+}
+
+/**
+ * Whether a job is queued or still has (or may still have) a process running.
+ */
+export function isJobLive(job: Pick<TrainingJob, "status">): boolean {
+  return job.status === "pending" || job.status === "running" || job.status === "stopping";
+}
+
+/**
+ * Drop a finished job from the live cache. Its records stay on disk.
+ */
+export function evictJob(jobId: string) {
+  const job = activeJobs.get(jobId);
+  if (job && !isJobLive(job)) {
+    activeJobs.delete(jobId);
+  }
+}
+
+// Rebuild a job by replaying its record file
+function loadJob(jobId: string): TrainingJob | undefined {
+  const recordPath = join(getJobDir(jobId), RECORD_FILE);
+  if (!existsSync(recordPath)) return undefined;
+
+  let job: TrainingJob | undefined;
+  try {
+    const lines = readFileSync(recordPath, "utf-8").split("\n").filter(Boolean);
+    for (const line of lines) {
+      let record: JobRecord;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        continue; // A partially written last line after a crash
+      }
+
+      if (record.type === "created") {
+        job = { ...record.job, logs: [], metrics: [] };
+      } else if (!job) {
+        continue;
+      } else if (record.type === "update") {
+        Object.assign(job, record.updates);
+      } else if (record.type === "log") {
+        job.logs.push(record.line);
+      } else if (record.type === "metric") {
+        job.metrics.push(record.data);
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to load job ${jobId}:`, error);
+    return undefined;
+  }
+
+  return job;
+}
+
+/**
+ * Mark jobs left `running` or `pending` by a previous server process as failed,
+ * and ones left `stopping` as cancelled.
+ * Runs once on boot, before any job can have been started by this process.
+ */
+export function reconcileJobs() {
+  if (!existsSync(JOBS_DIR)) return;
+
+  for (const jobId of readdirSync(JOBS_DIR)) {
+    if (activeJobs.has(jobId)) continue;
+
+    const job = loadJob(jobId);
+    if (!job || !isJobLive(job)) continue;
+
+    // A job that was already stopping counts as stopped, not failed
+    const status = job.status === "stopping" ? "cancelled" : "failed";
+
+    // Replay into the cache so the shared helpers can persist the transition
+    activeJobs.set(jobId, job);
+    appendJobLogs(jobId, [
+      job.status === "pending"
+        ? "[ERROR] Server restarted while the job was queued"
+        : job.status === "stopping"
+        ? "[ERROR] Server restarted while the job was stopping"
+        : "[ERROR] Server restarted while the job was running",
+    ]);
+    updateJob(jobId, {
+      status,
+      completedAt: Date.now(),
+      stages: job.stages.map((stage) =>
+        stage.status === "running" ? { ...stage, status } : stage
+      ),
+    });
+    activeJobs.delete(jobId);
+  }
+}
@@ -1,5 +1,5 @@
 // Training mode types
-export type TrainingMode = "sft" | "rl";
+export type TrainingMode = "sft" | "rl" | "dpo";
 
 // Model type for Tinker API
 export interface Model {
@@ -17,27 +17,78 @@ export interface Model {
   };
 }
 
-// Dataset presets
+// Dataset presets (trainExamples = size of the training split, used for step estimates)
 export const DATASET_PRESETS = {
   sft: [
-    { id: "HuggingFaceH4/no_robots", name: "No Robots", description: "High-quality chat & instruction data" },
-    { id: "allenai/tulu-3-sft-mixture", name: "Tulu 3 SFT", description: "Diverse instruction tuning mixture" },
+    { id: "HuggingFaceH4/no_robots", name: "No Robots", description: "High-quality chat & instruction data", trainExamples: 9500 },
+    { id: "allenai/tulu-3-sft-mixture", name: "Tulu 3 SFT", description: "Diverse instruction tuning mixture", trainExamples: 939344 },
     { id: "custom", name: "Custom Dataset", description: "Provide your own JSONL data" },
   ],
   rl: [
-    { id: "openai/gsm8k", name: "GSM8K", description: "Grade school math problems (verifiable rewards)" },
-    { id: "lighteval/MATH", name: "MATH", description: "Competition math problems" },
+    { id: "openai/gsm8k", name: "GSM8K", description: "Grade school math problems (verifiable rewards)", subset: "main", trainExamples: 7473 },
+    { id: "lighteval/MATH", name: "MATH", description: "Competition math problems", trainExamples: 7500 },
     { id: "custom", name: "Custom Dataset", description: "Provide your own prompts + reward function" },
   ],
+  dpo: [
+    { id: "HuggingFaceH4/ultrafeedback_binarized", name: "UltraFeedback", description: "Binarized chosen/rejected chat pairs", split: "train_prefs", trainExamples: 61135 },
+    { id: "argilla/distilabel-intel-orca-dpo-pairs", name: "Orca DPO Pairs", description: "Instruction prompts with chosen/rejected answers", split: "train", trainExamples: 12859 },
+    { id: "custom", name: "Custom Dataset", description: "Provide your own chosen/rejected pairs" },
+  ],
 } as const;
 
 // Reward function types for RL
 export const REWARD_FUNCTIONS = [
   { id: "exact_match", name: "Exact Match", description: "Answer must match exactly" },
   { id: "math_equivalence", name: "Math Equivalence", description: "Numerically equivalent (1/2 = 0.5)" },
-  { id: "code_execution", name: "Code Execution", description: "Runs without error + passes tests" },
+  { id: "code_execution", name: "Code Execution", description: "Runs the row's tests in a sandbox (credit per passing test)" },
+  { id: "regex_match", name: "Regex Match", description: "Response matches a pattern (group 1 must equal the answer)" },
+  { id: "answer_tags", name: "Answer Tags", description: "Response wraps its answer in <answer>...</answer>" },
+  { id: "json_schema", name: "JSON Schema", description: "Response is JSON that satisfies a schema" },
+  { id: "judge", name: "LLM Judge", description: "A judge model scores responses with a rubric" },
+  { id: "custom", name: "Custom Python", description: "Your own compute_reward function" },
+] as const;
+
+// Shaping terms that can be added to a composite reward alongside the functions above
+export const REWARD_SHAPING = [
+  { id: "format", name: "Format", description: "1 when the response marks a final answer" },
+  { id: "length", name: "Length", description: "Response length in tokens (negative weight to penalize)" },
 ] as const;
 
+// One weighted term of a composite RL reward
+export interface RewardComponent {
+  fn: string; // A REWARD_FUNCTIONS or REWARD_SHAPING id
+  weight: number;
+}
+
+// Learning rate schedules (applied after linear warmup)
+export type LRScheduler = "constant" | "linear" | "cosine" | "cosine_restarts" | "inverse_sqrt";
+
+export const LR_SCHEDULERS: { id: LRScheduler; name: string; description: string }[] = [
+  { id: "cosine", name: "Cosine", description: "Smooth decay to the minimum LR" },
+  { id: "linear", name: "Linear", description: "Straight-line decay to the minimum LR" },
+  { id: "cosine_restarts", name: "Cosine with Restarts", description: "Cosine decay repeated over several cycles" },
+  { id: "inverse_sqrt", name: "Inverse Square Root", description: "Decays with 1/√step after warmup" },
+  { id: "constant", name: "Constant", description: "Peak LR for the whole run" },
+];
+
+// Which dataset columns hold each part of a row, instead of detecting the format
+export interface DatasetColumns {
+  prompt?: string;
+  response?: string; // SFT completion
+  messages?: string; // SFT chat conversation, used instead of prompt/response
+  groundTruth?: string; // RL answer passed to the reward
+}
+
+// A further Hugging Face dataset mixed into the training data
+export interface MixtureSource {
+  preset: string; // A preset or Hugging Face dataset ID
+  subset?: string;
+  split?: string;
+  revision?: string;
+  weight: number; // Relative sampling weight
+  maxExamples?: number; // Most rows taken from this source
+}
+
 // Pipeline configuration (the IR - Intermediate Representation)
 export interface PipelineConfig {
   // Training mode
@@ -53,8 +104,24 @@ export interface PipelineConfig {
 
   // Dataset configuration
   dataset: {
-    preset: string;
+    preset: string; // A DATASET_PRESETS id, "custom", or any Hugging Face dataset ID
     customData?: string; // JSONL string for custom datasets
+    subset?: string; // Hugging Face config name; defaults to the preset's
+    split?: string; // Defaults to the preset's split, or "train"
+    revision?: string; // Branch, tag or commit of the dataset repo
+    columns?: DatasetColumns; // SFT/RL only
+    // Mixing: this dataset is the first source, interleaved with the ones in mixture
+    weight?: number; // Sampling weight of this dataset (default 1)
+    maxExamples?: number;
+    mixture?: MixtureSource[];
+  };
+
+  // Prompt formatting for SFT and RL rows; the built-in formats are used when off
+  prompt?: {
+    enabled: boolean;
+    template: string; // Prompt text with {column} placeholders filled from each row
+    systemPrompt?: string;
+    useChatTemplate: boolean; // Wrap prompts with the tokenizer's chat template
   };
 
   // Training hyperparameters
@@ -64,22 +131,70 @@ export interface PipelineConfig {
     epochs: number;
     warmupRatio: number;
     gradientAccumulation: number;
+    scheduler: LRScheduler;
+    minLrRatio: number; // Floor of the decay as a fraction of the peak LR
+    numCycles: number; // Cosine with restarts only
+    // Adam optimizer
+    beta1: number;
+    beta2: number;
+    eps: number;
+    weightDecay: number;
+    gradClipNorm: number; // Max global gradient norm (0 = no clipping)
   };
 
   // RL-specific configuration
   rl?: {
     rewardFunction: string;
+    customReward?: string; // Python source defining compute_reward(response, ground_truth), for "custom"
+    rewardComponents?: RewardComponent[]; // Weighted terms summed into the reward; the first mirrors rewardFunction
+    rewardRegex?: string; // Python regex for "regex_match"
+    rewardJsonSchema?: string; // JSON Schema source for "json_schema"
+    judge?: {
+      model: "base" | "checkpoint"; // The frozen base model or a sampler checkpoint
+      checkpointPath?: string; // tinker:// sampler path when model is "checkpoint"
+      rubric: string; // Judge prompt with {prompt}, {response} and {ground_truth} placeholders
+      maxScore: number; // Top of the rubric's scale; scores are divided by it
+    };
     groupSize: number; // Number of samples per prompt for GRPO
     klCoefficient: number;
     temperature: number;
   };
 
+  // DPO-specific configuration
+  dpo?: {
+    beta: number; // Strength of the implicit KL constraint to the reference policy
+    referenceModel: "base" | "checkpoint"; // Frozen base model or a sampler checkpoint
+    referenceCheckpointPath?: string; // tinker:// sampler path when referenceModel is "checkpoint"
+  };
+
+  // Held-out evaluation (SFT only)
+  eval?: {
+    enabled: boolean;
+    source: "split" | "dataset"; // Hold out part of the training data, or use a separate dataset
+    splitFraction: number; // Fraction held out when source is "split"
+    dataset?: string; // HuggingFace dataset ID when source is "dataset"
+    datasetSplit: string; // Split of that dataset, e.g. "test"
+    everySteps: number; // Evaluate every N optimizer steps (and after the last one)
+    batchSize: number;
+    maxBatches: number; // Evaluate a fixed subset of this many batches (0 = whole set)
+  };
+
   // Checkpointing
   checkpointing: {
     saveEvery: number;
     outputDir: string;
   };
 
+  // Relaunch a job from its latest checkpoint when its script crashes (applied by
+  // the server, not part of the generated script)
+  retry?: {
+    maxRetries: number; // Relaunches allowed per job
+    backoffSeconds: number; // Wait before the first relaunch; doubles for each one after
+  };
+
+  // Follow-up stages run after this one, in order (e.g. SFT → GRPO)
+  stages?: PipelineStage[];
+
   // Resume training from checkpoint (optional)
   resumeFrom?: {
     checkpointPath: string; // tinker:// path to training checkpoint
@@ -89,6 +204,18 @@ export interface PipelineConfig {
   };
 }
 
+// A follow-up pipeline stage. Model and checkpointing settings are shared with
+// the first stage; everything that varies per training phase lives here.
+export interface PipelineStage {
+  mode: TrainingMode;
+  dataset: PipelineConfig["dataset"];
+  prompt?: PipelineConfig["prompt"];
+  hyperparameters: PipelineConfig["hyperparameters"];
+  rl?: PipelineConfig["rl"];
+  dpo?: PipelineConfig["dpo"];
+  initFromPrevious: boolean; // Start from the previous stage's final weights
+}
+
 // Default configuration - model will be set from Tinker API
 export const DEFAULT_CONFIG: PipelineConfig = {
   mode: "sft",
@@ -107,6 +234,14 @@ export const DEFAULT_CONFIG: PipelineConfig = {
     epochs: 1,
     warmupRatio: 0.1,
     gradientAccumulation: 1,
+    scheduler: "cosine",
+    minLrRatio: 0.0,
+    numCycles: 1,
+    beta1: 0.9,
+    beta2: 0.95,
+    eps: 1e-8,
+    weightDecay: 0.0,
+    gradClipNorm: 0.0,
   },
   checkpointing: {
     saveEvery: 25,
@@ -122,6 +257,62 @@ export const DEFAULT_RL_CONFIG: NonNullable<PipelineConfig["rl"]> = {
   temperature: 0.7,
 };
 
+// Default DPO config to merge when switching modes
+export const DEFAULT_DPO_CONFIG: NonNullable<PipelineConfig["dpo"]> = {
+  beta: 0.1,
+  referenceModel: "base",
+};
+
+// Default eval config to merge when enabling evaluation
+export const DEFAULT_EVAL_CONFIG: NonNullable<PipelineConfig["eval"]> = {
+  enabled: true,
+  source: "split",
+  splitFraction: 0.05,
+  datasetSplit: "test",
+  everySteps: 25,
+  batchSize: 32,
+  maxBatches: 10,
+};
+
+// Default retry policy to merge when enabling automatic retries
+export const DEFAULT_RETRY_POLICY: NonNullable<PipelineConfig["retry"]> = {
+  maxRetries: 2,
+  backoffSeconds: 30,
+};
+
+// Hyperparameter sweep over numeric IR fields
+export interface SweepParameter {
+  path: string; // Dot path into PipelineConfig, e.g. "hyperparameters.learningRate"
+  values: number[]; // Grid search: every value is tried
+  min: number; // Random search: sampled range
+  max: number;
+  scale: "linear" | "log";
+}
+
+export interface SweepConfig {
+  strategy: "grid" | "random";
+  parameters: SweepParameter[];
+  numSamples: number; // Random search only
+  seed: number; // Random search only, for reproducible draws
+  objective: "loss" | "reward"; // Ranking metric: lowest loss or highest reward
+}
+
+export const DEFAULT_SWEEP_CONFIG: SweepConfig = {
+  strategy: "grid",
+  parameters: [
+    {
+      path: "hyperparameters.learningRate",
+      values: [5e-5, 1e-4, 2e-4],
+      min: 1e-5,
+      max: 5e-4,
+      scale: "log",
+    },
+  ],
+  numSamples: 8,
+  seed: 42,
+  objective: "loss",
+};
+
 // Execution state
 export type ExecutionStatus = "idle" | "running" | "completed" | "error";
 
@@ -129,6 +320,12 @@ export interface ExecutionState {
   status: ExecutionStatus;
   currentStep: number;
   totalSteps: number;
+  // Multi-stage pipelines
+  currentStage?: number; // 1-based
+  totalStages?: number;
+  stageMode?: TrainingMode;
+  stageStepOffset?: number; // Steps completed by earlier stages, for a continuous x-axis
+  queuePosition?: number; // Set while the job waits for a training slot (1 = next)
   logs: LogEntry[];
   metrics: MetricPoint[];
   checkpointSamples: CheckpointSample[];
@@ -144,7 +341,11 @@ export interface LogEntry {
 export interface MetricPoint {
   step: number;
   loss: number;
+  evalLoss?: number; // Held-out NLL, only on evaluation steps (SFT)
   reward?: number;
+  kl?: number; // Mean per-token KL to the reference policy (RL)
+  rewardComponents?: Record<string, number>; // Weighted contribution of each reward component (composite RL rewards)
+  judgeLatencyMs?: number; // Mean latency of uncached judge calls (LLM judge reward)
   learningRate?: number;
   // New real-time metrics
   tokensPerSecond?: number;
@@ -162,6 +363,43 @@ export interface CheckpointSample {
   timestamp: number;
 }
 
+// Custom reward function run against sample rows (POST /api/rewards/test)
+export interface RewardTestCase {
+  // reference = the row's own answer, mismatched = another row's answer, empty = ""
+  kind: "reference" | "mismatched" | "empty";
+  reward?: number;
+  error?: string; // Exception raised by compute_reward for this case
+}
+
+export interface RewardTestResult {
+  code: string; // Source that was tested, so results for edited code can be ignored
+  rows: number; // Dataset rows sampled
+  cases: RewardTestCase[];
+  error?: string; // The code failed to load (syntax error, no compute_reward, timeout)
+}
+
+// First rows of a hosted dataset, fetched to preview columns and prompts
+export interface DatasetPreview {
+  source: string; // datasetSourceKey() of the dataset the rows came from
+  rows: Record<string, unknown>[];
+}
+
+// A sample row tokenized the way the SFT script does (POST /api/datasets/inspect)
+export interface InspectedRow {
+  pieces: string[]; // Decoded tokens, up to a few past the truncation point
+  weights: number[]; // Loss weight per piece; the first token is never a target
+  total: number; // Tokens before truncation
+  kept: number; // Tokens left after truncating at maxLength
+  trained: number; // Kept tokens with a non-zero weight
+  trainedCut: number; // Weighted tokens lost to truncation
+  error?: string; // Why the script would skip this row
+}
+
+export interface DatasetInspection {
+  source: string; // Settings the rows were tokenized with, so stale results can be flagged
+  rows: InspectedRow[];
+}
+
 // Validation warnings
 export interface ValidationWarning {
   field: string;
@@ -173,15 +411,47 @@ export interface ValidationWarning {
 // Settings & API Configuration
 // =============================================================================
 
-export interface Settings {
-  apiKey: string;
+// A named Tinker connection, e.g. separate projects for experiments and production
+export interface TinkerProfile {
+  id: string;
+  name: string;
+  apiKey: string; // Empty when the key is stored server-side
   apiKeyValidated: boolean;
+  // browser = key kept in localStorage and sent with requests;
+  // server = key encrypted in the server's vault, referenced by a session cookie
+  apiKeyStorage: "browser" | "server";
+  apiKeyHint?: string; // Last 4 characters of a server-side key, for display
+  apiBase?: string; // Overrides TINKER_API_BASE for inference
+  defaultModel?: string; // Base model selected when switching to this profile
+}
+
+export const DEFAULT_PROFILE_ID = "default";
+
+// Cookie naming the active profile, so the server can pick its vault key
+export const PROFILE_COOKIE = "tinker-studio-profile";
+
+// The top-level key fields are the active profile's; `profiles` holds every profile
+export interface Settings
+  extends Pick<TinkerProfile, "apiKey" | "apiKeyValidated" | "apiKeyStorage" | "apiKeyHint"> {
+  profiles: TinkerProfile[];
+  activeProfileId: string;
   theme: "dark" | "light" | "system";
 }
 
 export const DEFAULT_SETTINGS: Settings = {
   apiKey: "",
   apiKeyValidated: false,
+  apiKeyStorage: "browser",
+  profiles: [
+    {
+      id: DEFAULT_PROFILE_ID,
+      name: "Default",
+      apiKey: "",
+      apiKeyValidated: false,
+      apiKeyStorage: "browser",
+    },
+  ],
+  activeProfileId: DEFAULT_PROFILE_ID,
   theme: "dark",
 };
 
@@ -234,7 +504,7 @@ export interface Checkpoint {
   public?: boolean; // Whether checkpoint is public
   // Legacy fields for backwards compatibility
   step?: number;
-  mode?: "sft" | "rl";
+  mode?: TrainingMode;
   config?: Partial<PipelineConfig>;
 }
 
@@ -244,7 +514,7 @@ export interface Checkpoint {
 
 export interface TrainingJob {
   id: string;
-  status: "pending" | "running" | "completed" | "failed" | "cancelled";
+  status: "pending" | "running" | "stopping" | "completed" | "failed" | "cancelled";
   config: PipelineConfig;
   startedAt?: number;
   completedAt?: number;
@@ -258,6 +528,13 @@ export interface TrainingJob {
   lastCheckpointStep?: number; // Last step where a checkpoint was saved
   lastCheckpointLabel?: string; // Label of last checkpoint (e.g., "checkpoint-50")
   lastCheckpointPath?: string; // tinker:// path to last training state checkpoint
+  currentStage?: number; // Stage the job was in when it last reported (multi-stage pipelines)
+  metrics?: MetricPoint[]; // Metric series, downsampled for storage (run comparison)
+  // Sweep-related fields
+  sweepId?: string; // Shared by all runs of one sweep
+  sweepParams?: Record<string, number>; // Field path -> value used by this run
+  retries?: number; // Times the server relaunched the job after a crash
+  profileId?: string; // Tinker profile the job was started under (missing = default profile)
 }
 
 // =============================================================================
@@ -46,12 +46,14 @@ class RateLimiter {
 const apiRateLimiter = new RateLimiter(100, 60000); // 100 requests per minute
 const trainingRateLimiter = new RateLimiter(10, 60000); // 10 training jobs per minute
 const validationRateLimiter = new RateLimiter(20, 60000); // 20 validations per minute
+const pythonRateLimiter = new RateLimiter(10, 60000); // 10 server-side Python runs per minute
 
 // Cleanup old entries every 5 minutes
 setInterval(() => {
   apiRateLimiter.cleanup();
   trainingRateLimiter.cleanup();
   validationRateLimiter.cleanup();
+  pythonRateLimiter.cleanup();
 }, 300000);
 
 export function proxy(request: NextRequest) {
@@ -65,10 +67,12 @@ export function proxy(request: NextRequest) {
   const path = request.nextUrl.pathname;
 
   let limiter = apiRateLimiter;
-  if (path.startsWith("/api/training/start")) {
+  if (path.startsWith("/api/training/start") || path.startsWith("/api/training/sweep")) {
     limiter = trainingRateLimiter;
   } else if (path.startsWith("/api/tinker/validate")) {
     limiter = validationRateLimiter;
+  } else if (path.startsWith("/api/rewards") || path.startsWith("/api/datasets")) {
+    limiter = pythonRateLimiter;
   }
 
   // Check rate limit
@@ -88,5 +92,5 @@ export function proxy(request: NextRequest) {
 
 // Configure which routes use middleware
 export const config = {
-  matcher: ["/api/tinker/:path*", "/api/training/:path*", "/api/checkpoints/:path*"],
+  matcher: ["/api/tinker/:path*", "/api/training/:path*", "/api/checkpoints/:path*", "/api/rewards/:path*", "/api/datasets/:path*"],
 };